@@ -0,0 +1,233 @@
+import { apiCache, cacheKey, ttlForEndpoint } from './cache.js';
+import {
+  API_BASE_URL,
+  API_KEY,
+  API_MAX_RETRIES,
+  API_RETRY_BASE_MS,
+  API_RETRY_MAX_MS,
+  API_TIMEOUT_MS,
+  CIRCUIT_FAILURE_THRESHOLD,
+  CIRCUIT_RESET_SECONDS,
+} from './config.js';
+import { Language, t } from './i18n.js';
+import { createLogger, currentContext, REQUEST_ID_HEADER } from './logger.js';
+import { backendDuration, backendRequests, CollectedMetric, endpointLabel, metrics } from './metrics.js';
+import { backoffDelay, CircuitBreaker, CircuitState, parseRetryAfter, sleep } from './resilience.js';
+import { injectTraceContext, withSpan } from './tracing.js';
+
+export type HttpMethod = 'GET' | 'POST';
+
+export interface ApiCallOptions {
+  // Ignorar la caché y consultar siempre el backend
+  bypassCache?: boolean;
+  // La petición se puede repetir sin efectos secundarios (por defecto sólo GET)
+  idempotent?: boolean;
+  // Tiempo máximo por intento en milisegundos
+  timeoutMs?: number;
+}
+
+// Error HTTP del backend (status 0 = sin respuesta: red o timeout)
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number, public readonly retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Mensaje de un error del backend para el cliente: el texto original solo va al log
+export function apiErrorMessage(error: ApiError, language: Language): string {
+  if (error.status === 0) {
+    return t(language, 'error.backendUnreachable');
+  }
+  if (error.status === 404) {
+    return t(language, 'error.notFound');
+  }
+  if (error.status === 429) {
+    return t(language, 'error.backendRateLimited');
+  }
+  return t(language, error.status >= 500 ? 'error.backendError' : 'error.backendRejected', { status: error.status });
+}
+
+export const circuitBreaker = new CircuitBreaker(CIRCUIT_FAILURE_THRESHOLD, CIRCUIT_RESET_SECONDS * 1000);
+
+const CIRCUIT_STATES: CircuitState[] = ['closed', 'half_open', 'open'];
+
+metrics.register(new CollectedMetric(
+  'lapalma24_backend_circuit_state', 'Estado del circuit breaker del backend (1 = estado actual)', 'gauge', () => {
+    const { state } = circuitBreaker.getStatus();
+    return CIRCUIT_STATES.map(candidate => [{ state: candidate }, candidate === state ? 1 : 0]);
+  }
+));
+
+const log = createLogger('backend');
+
+// Llamada al backend a través de la caché (TTL según endpoint)
+export async function apiCall(
+  endpoint: string,
+  params: Record<string, any> = {},
+  method: HttpMethod = 'GET',
+  options: ApiCallOptions = {}
+) {
+  return apiCache.getOrLoad(
+    cacheKey(method, endpoint, params),
+    ttlForEndpoint(endpoint),
+    () => fetchWithRetry(endpoint, params, method, options),
+    options.bypassCache
+  );
+}
+
+// Un único intento sin caché, reintentos ni circuit breaker (comprobación de disponibilidad);
+// devuelve el código de estado y lanza ApiError si el backend falla o no responde a tiempo
+export async function probeBackend(endpoint: string, timeoutMs: number): Promise<number> {
+  const response = await fetchApi(endpoint, {}, 'GET', timeoutMs);
+  return response.status;
+}
+
+// Reintentos con backoff exponencial: 429 siempre; red, timeout y 5xx sólo si la petición es idempotente
+async function fetchWithRetry(
+  endpoint: string,
+  params: Record<string, any>,
+  method: HttpMethod,
+  options: ApiCallOptions
+) {
+  const idempotent = options.idempotent ?? method === 'GET';
+
+  for (let attempt = 0; ; attempt++) {
+    circuitBreaker.assertCanRequest();
+
+    try {
+      const result = await instrumentedFetch(endpoint, params, method, options.timeoutMs ?? API_TIMEOUT_MS, attempt);
+      circuitBreaker.recordSuccess();
+      return result;
+    } catch (error) {
+      if (!(error instanceof ApiError)) {
+        throw error;
+      }
+
+      const backendFailure = error.status === 0 || error.status >= 500;
+      if (backendFailure) {
+        circuitBreaker.recordFailure();
+      } else {
+        // 4xx: el backend responde correctamente
+        circuitBreaker.recordSuccess();
+      }
+
+      const retryable = error.status === 429 || (backendFailure && idempotent);
+      if (!retryable || attempt >= API_MAX_RETRIES) {
+        throw error;
+      }
+
+      // Si el backend pide esperar más de lo permitido, fallar sin bloquear la herramienta
+      const delay = error.retryAfterMs ?? backoffDelay(attempt, API_RETRY_BASE_MS, API_RETRY_MAX_MS);
+      if (delay > API_RETRY_MAX_MS) {
+        throw error;
+      }
+
+      log.warn('Petición al backend fallida, se reintenta', {
+        method,
+        endpoint,
+        error: error.message,
+        retry: attempt + 1,
+        delayMs: delay,
+      });
+      await sleep(delay);
+    }
+  }
+}
+
+// Un intento con span, métricas por código de estado y duración, y log de depuración
+async function instrumentedFetch(
+  endpoint: string,
+  params: Record<string, any>,
+  method: HttpMethod,
+  timeoutMs: number,
+  attempt: number
+) {
+  const labels = { method, endpoint: endpointLabel(endpoint) };
+  const attributes = { 'http.request.method': method, 'url.path': endpoint, 'lapalma24.attempt': attempt };
+
+  return withSpan(`${method} ${labels.endpoint}`, 'client', attributes, async span => {
+    const started = performance.now();
+    let status = 'error';
+    try {
+      const response = await fetchApi(endpoint, params, method, timeoutMs);
+      status = String(response.status);
+      return response.data;
+    } catch (error) {
+      if (error instanceof ApiError && error.status > 0) {
+        status = String(error.status);
+      }
+      throw error;
+    } finally {
+      const seconds = (performance.now() - started) / 1000;
+      backendRequests.inc({ ...labels, status });
+      backendDuration.observe(labels, seconds);
+      span?.setAttribute('http.response.status_code', status);
+      log.debug('Petición al backend', { method, endpoint, status, durationMs: Math.round(seconds * 1000) });
+    }
+  });
+}
+
+// Cliente HTTP simple: devuelve el código de estado y el JSON de la respuesta
+async function fetchApi(
+  endpoint: string,
+  params: Record<string, any>,
+  method: HttpMethod,
+  timeoutMs: number
+): Promise<{ status: number; data: unknown }> {
+  const url = new URL(`${API_BASE_URL}${endpoint}`);
+
+  const headers: Record<string, string> = {
+    'X-API-Key': API_KEY,
+    'Content-Type': 'application/json',
+  };
+  // Id de la petición del cliente, para seguirla en los logs del backend
+  const requestId = currentContext()?.requestId;
+  if (requestId) {
+    headers[REQUEST_ID_HEADER] = requestId;
+  }
+  injectTraceContext(headers);
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  let requestInit: RequestInit = {
+    method,
+    headers,
+    signal: controller.signal,
+  };
+
+  if (method === 'GET' && Object.keys(params).length > 0) {
+    Object.keys(params).forEach(key => {
+      if (params[key] !== undefined && params[key] !== null) {
+        url.searchParams.append(key, String(params[key]));
+      }
+    });
+  } else if (method === 'POST') {
+    requestInit.body = JSON.stringify(params);
+  }
+
+  try {
+    const response = await fetch(url.toString(), requestInit);
+
+    if (!response.ok) {
+      throw new ApiError(
+        `API Error: ${response.status} ${response.statusText}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return { status: response.status, data: await response.json() };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    if (controller.signal.aborted) {
+      throw new ApiError(`API Error: timeout tras ${timeoutMs}ms`, 0);
+    }
+    throw new ApiError(`API Error: ${error instanceof Error ? error.message : String(error)}`, 0);
+  } finally {
+    clearTimeout(timeout);
+  }
+}
@@ -0,0 +1,339 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { InsufficientScopeError, InvalidTokenError, OAuthError, ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import {
+  API_TIMEOUT_MS,
+  AUTH_CLIENTS_FILE,
+  MCP_PUBLIC_URL,
+  OAUTH_CACHE_SECONDS,
+  OAUTH_CLIENT_ID,
+  OAUTH_CLIENT_SECRET,
+  OAUTH_INTROSPECTION_URL,
+  OAUTH_ISSUER,
+} from './config.js';
+import { annotateContext, createLogger } from './logger.js';
+
+// Autorización de los endpoints públicos según la especificación de MCP: el servidor es un recurso
+// protegido OAuth 2.1 que acepta tokens de un servidor de autorización externo (validados por
+// introspección, RFC 7662) y, en modo simple, claves estáticas por cliente. Cada cliente tiene sus
+// scopes y, opcionalmente, su propio límite de peticiones.
+
+const log = createLogger('auth');
+
+// Búsquedas, fichas, precios, recursos y prompts
+export const SCOPE_READ = 'lapalma24:read';
+// Solicitudes de reserva
+export const SCOPE_BOOKING = 'lapalma24:booking';
+
+export const SCOPES = [SCOPE_READ, SCOPE_BOOKING];
+
+export const PROTECTED_RESOURCE_PATH = '/.well-known/oauth-protected-resource';
+
+// Cliente autenticado de la petición (el transporte Streamable HTTP del SDK lo pasa a los handlers)
+declare module 'express-serve-static-core' {
+  interface Request {
+    auth?: AuthInfo;
+  }
+}
+
+// Cliente con clave estática (AUTH_CLIENTS_FILE)
+export interface StaticClient {
+  id: string;
+  key: string;
+  scopes: string[];
+  // Unidades por ventana del límite de peticiones (por defecto RATE_LIMIT_MAX)
+  rate_limit?: number;
+}
+
+// Lee y comprueba el fichero de clientes; un fichero mal formado impide arrancar
+export function loadClients(file: string): StaticClient[] {
+  let data: any;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`No se pudo leer el fichero de clientes ${file}: ${(error as Error).message}`);
+  }
+
+  const list = Array.isArray(data) ? data : data?.clients;
+  if (!Array.isArray(list)) {
+    throw new Error(`Fichero de clientes ${file} no válido: se esperaba una lista de clientes`);
+  }
+
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  list.forEach((client: any, index: number) => {
+    const name = typeof client?.id === 'string' && client.id ? client.id : `#${index + 1}`;
+    if (typeof client?.id !== 'string' || !client.id || ids.has(client.id)) {
+      problems.push(`${name}: id vacío o repetido`);
+    }
+    ids.add(client?.id);
+    if (typeof client?.key !== 'string' || client.key.length < 16) {
+      problems.push(`${name}: key debe tener al menos 16 caracteres`);
+    }
+    if (!Array.isArray(client?.scopes) || client.scopes.some((scope: unknown) => !SCOPES.includes(scope as string))) {
+      problems.push(`${name}: scopes debe ser una lista con ${SCOPES.join(' y/o ')}`);
+    }
+    if (client?.rate_limit !== undefined && !(Number.isInteger(client.rate_limit) && client.rate_limit > 0)) {
+      problems.push(`${name}: rate_limit debe ser un entero positivo`);
+    }
+  });
+  if (problems.length > 0) {
+    throw new Error(`Fichero de clientes ${file} no válido: ${problems.join('; ')}`);
+  }
+
+  return list;
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Comparación de secretos en tiempo constante: se comparan sus hashes, que siempre miden lo mismo
+export function safeEqual(value: string, secret: string): boolean {
+  return timingSafeEqual(createHash('sha256').update(value).digest(), createHash('sha256').update(secret).digest());
+}
+
+// Clientes indexados por el hash de su clave: la comparación no depende del contenido de la clave
+let staticClients: Map<string, StaticClient> | undefined;
+
+// Carga AUTH_CLIENTS_FILE una sola vez. Los servidores la llaman al arrancar, junto con
+// assertProductionConfig, para que un fichero mal formado se registre y detenga el arranque
+export function loadStaticClients(): Map<string, StaticClient> {
+  staticClients ??= new Map(
+    (AUTH_CLIENTS_FILE ? loadClients(AUTH_CLIENTS_FILE) : []).map(client => [hash(client.key), client])
+  );
+  return staticClients;
+}
+
+const OAUTH_ENABLED = Boolean(OAUTH_ISSUER || OAUTH_INTROSPECTION_URL);
+
+export const AUTH_ENABLED = Boolean(AUTH_CLIENTS_FILE) || OAUTH_ENABLED;
+
+// Límite de peticiones propio del cliente, si lo tiene
+export function clientRateLimit(auth: AuthInfo): number | undefined {
+  return typeof auth.extra?.rateLimit === 'number' ? auth.extra.rateLimit : undefined;
+}
+
+// ---- OAuth ----
+
+let introspectionEndpoint: Promise<string> | undefined;
+
+// Endpoint de introspección configurado o descubierto en los metadatos del servidor de autorización (RFC 8414)
+function discoverIntrospection(): Promise<string> {
+  if (OAUTH_INTROSPECTION_URL) {
+    return Promise.resolve(OAUTH_INTROSPECTION_URL);
+  }
+  introspectionEndpoint ??= (async () => {
+    const issuer = new URL(OAUTH_ISSUER);
+    const url = new URL(`/.well-known/oauth-authorization-server${issuer.pathname.replace(/\/$/, '')}`, issuer);
+    const response = await fetch(url, { signal: AbortSignal.timeout(API_TIMEOUT_MS) });
+    const metadata = response.ok ? await response.json() as { introspection_endpoint?: string } : {};
+    if (!metadata.introspection_endpoint) {
+      throw new Error(`El servidor de autorización ${OAUTH_ISSUER} no anuncia introspection_endpoint`);
+    }
+    return metadata.introspection_endpoint;
+  })().catch(error => {
+    // Se vuelve a intentar en la siguiente petición
+    introspectionEndpoint = undefined;
+    throw error;
+  });
+  return introspectionEndpoint;
+}
+
+function sameResource(a: string, b: string): boolean {
+  return a.replace(/\/$/, '') === b.replace(/\/$/, '');
+}
+
+// Respuesta de introspección (RFC 7662); solo los campos que se usan
+interface IntrospectionResponse {
+  active?: boolean;
+  exp?: number;
+  aud?: string | string[];
+  client_id?: string;
+  sub?: string;
+  scope?: string;
+}
+
+// Tokens ya validados, por hash, hasta su caducidad o OAUTH_CACHE_SECONDS
+const tokenCache = new Map<string, { auth: AuthInfo; until: number }>();
+const TOKEN_CACHE_MAX_ENTRIES = 10_000;
+
+async function introspect(token: string): Promise<AuthInfo> {
+  const key = hash(token);
+  const cached = tokenCache.get(key);
+  if (cached && cached.until > Date.now()) {
+    return cached.auth;
+  }
+  tokenCache.delete(key);
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+  if (OAUTH_CLIENT_ID) {
+    headers.Authorization = `Basic ${Buffer.from(`${OAUTH_CLIENT_ID}:${OAUTH_CLIENT_SECRET}`).toString('base64')}`;
+  }
+
+  let data: IntrospectionResponse | null;
+  try {
+    const response = await fetch(await discoverIntrospection(), {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({ token, token_type_hint: 'access_token' }),
+      signal: AbortSignal.timeout(API_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`introspección HTTP ${response.status}`);
+    }
+    data = await response.json() as IntrospectionResponse | null;
+  } catch (error) {
+    log.error('Error validando token', { error });
+    throw new ServerError('Token validation unavailable');
+  }
+
+  if (data?.active !== true) {
+    throw new InvalidTokenError('Token is not active');
+  }
+  const expiresAt = typeof data.exp === 'number' ? data.exp : undefined;
+  if (expiresAt !== undefined && expiresAt * 1000 <= Date.now()) {
+    throw new InvalidTokenError('Token has expired');
+  }
+  // El token tiene que estar emitido para este servidor (audiencia MCP_PUBLIC_URL, obligatoria con OAuth)
+  const audiences = Array.isArray(data.aud) ? data.aud : typeof data.aud === 'string' ? [data.aud] : [];
+  if (!MCP_PUBLIC_URL || !audiences.some(aud => typeof aud === 'string' && sameResource(aud, MCP_PUBLIC_URL))) {
+    throw new InvalidTokenError('Token was not issued for this resource');
+  }
+
+  const clientId = [data.client_id, data.sub].find(value => typeof value === 'string' && value);
+  const auth: AuthInfo = {
+    token,
+    clientId: clientId ?? 'oauth',
+    scopes: typeof data.scope === 'string' ? data.scope.split(' ').filter(Boolean) : [],
+    expiresAt,
+    resource: new URL(MCP_PUBLIC_URL),
+    extra: { method: 'oauth' },
+  };
+  const until = Math.min(Date.now() + OAUTH_CACHE_SECONDS * 1000, auth.expiresAt ? auth.expiresAt * 1000 : Infinity);
+  if (tokenCache.size >= TOKEN_CACHE_MAX_ENTRIES) {
+    for (const [cachedKey, entry] of tokenCache) {
+      if (entry.until <= Date.now()) {
+        tokenCache.delete(cachedKey);
+      }
+    }
+  }
+  if (tokenCache.size < TOKEN_CACHE_MAX_ENTRIES) {
+    tokenCache.set(key, { auth, until });
+  }
+  return auth;
+}
+
+// ---- Middleware ----
+
+// Credencial de la petición: Authorization: Bearer <token o clave> o X-API-Key: <clave>
+function credential(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization) {
+    const [type, token] = authorization.split(' ');
+    if (type.toLowerCase() !== 'bearer' || !token) {
+      throw new InvalidTokenError("Invalid Authorization header format, expected 'Bearer TOKEN'");
+    }
+    return token;
+  }
+  const apiKey = req.headers['x-api-key'];
+  return typeof apiKey === 'string' && apiKey ? apiKey : undefined;
+}
+
+export async function authenticate(token: string): Promise<AuthInfo> {
+  const client = loadStaticClients().get(hash(token));
+  if (client) {
+    return { token, clientId: client.id, scopes: client.scopes, extra: { method: 'key', rateLimit: client.rate_limit } };
+  }
+  if (OAUTH_ENABLED) {
+    return introspect(token);
+  }
+  throw new InvalidTokenError('Invalid API key');
+}
+
+// URL base pública: MCP_PUBLIC_URL o la de la propia petición
+function publicUrl(req: Request): string {
+  return (MCP_PUBLIC_URL || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+}
+
+function sendAuthError(req: Request, res: Response, error: unknown): void {
+  const oauthError = error instanceof OAuthError ? error : new ServerError('Internal Server Error');
+  const status = oauthError instanceof InvalidTokenError ? 401 : oauthError instanceof InsufficientScopeError ? 403 : 500;
+
+  if (status !== 500) {
+    const parts = [`error="${oauthError.errorCode}"`, `error_description="${oauthError.message}"`];
+    if (status === 403) {
+      parts.push(`scope="${SCOPE_READ}"`);
+    }
+    if (OAUTH_ENABLED) {
+      parts.push(`resource_metadata="${publicUrl(req)}${PROTECTED_RESOURCE_PATH}"`);
+    }
+    res.setHeader('WWW-Authenticate', `Bearer ${parts.join(', ')}`);
+  }
+  res.status(status).json(oauthError.toResponseObject());
+}
+
+// Exige una credencial válida con el scope de lectura; deja el cliente en req.auth.
+// Sin autenticación configurada no hace nada
+export function requireAuth(): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!AUTH_ENABLED) {
+      return next();
+    }
+
+    try {
+      const token = credential(req);
+      if (!token) {
+        throw new InvalidTokenError('Missing credentials');
+      }
+      const auth = await authenticate(token);
+      if (!auth.scopes.includes(SCOPE_READ)) {
+        throw new InsufficientScopeError(`Scope ${SCOPE_READ} required`);
+      }
+      req.auth = auth;
+      annotateContext({ clientId: auth.clientId });
+      next();
+    } catch (error) {
+      if (!(error instanceof InvalidTokenError || error instanceof InsufficientScopeError)) {
+        log.error('Error de autenticación', { error });
+      }
+      sendAuthError(req, res, error);
+    }
+  };
+}
+
+// Endpoints de administración (caché, consumo): deshabilitados (404) sin token configurado y
+// con X-Admin-Token distinto 401
+export function requireAdminToken(token: string): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!token) {
+      res.status(404).json({ error: 'Not found' });
+      return;
+    }
+    const header = req.headers['x-admin-token'];
+    if (typeof header !== 'string' || !safeEqual(header, token)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    next();
+  };
+}
+
+// Metadatos del recurso protegido (RFC 9728): dónde obtener tokens y qué scopes existen
+export function protectedResourceMetadata(): RequestHandler {
+  return (req: Request, res: Response) => {
+    if (!OAUTH_ENABLED) {
+      res.status(404).json({ error: 'Not found' });
+      return;
+    }
+    res.json({
+      resource: publicUrl(req),
+      authorization_servers: OAUTH_ISSUER ? [OAUTH_ISSUER] : [],
+      scopes_supported: SCOPES,
+      bearer_methods_supported: ['header'],
+      resource_name: 'La Palma 24 MCP',
+    });
+  };
+}
@@ -0,0 +1,14 @@
+import { CURRENCY_ARGS } from './currency.js';
+import { FILTER_ARGS } from './filters.js';
+import { PROXIMITY_ARGS } from './geo.js';
+import { PAGINATION_ARGS } from './pagination.js';
+import { ToolArgs } from './tool-definition.js';
+
+// Argumentos de presentación: cambian el texto del resultado, no la consulta al backend
+const PRESENTATION_ARGS = ['formato', 'idioma'];
+
+// Argumentos tal como se envían al backend: sin los de presentación, moneda, paginación, proximidad ni filtros locales
+export function backendArgs(args: ToolArgs): ToolArgs {
+  const local = [...PRESENTATION_ARGS, ...CURRENCY_ARGS, ...PAGINATION_ARGS, ...PROXIMITY_ARGS, ...FILTER_ARGS];
+  return Object.fromEntries(Object.entries(args).filter(([key]) => !local.includes(key)));
+}
@@ -0,0 +1,211 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { apiCall } from './api.js';
+import { BOOKING_TOKEN_SECRET, BOOKING_TOKEN_TTL_SECONDS } from './config.js';
+import { Language, t } from './i18n.js';
+import { BookingResponse, PriceQuote } from './models.js';
+import { HandlerContext, ToolArgs } from './tool-definition.js';
+import { ToolValidationError } from './validation.js';
+
+// Solicitudes de reserva: se recalcula el presupuesto, el usuario confirma (elicitation o token
+// en dos pasos) y solo entonces se envía la solicitud al backend
+
+const TOOL_NAME = 'solicitar_reserva';
+
+export interface BookingArgs extends ToolArgs {
+  id_casa: string;
+  fecha_llegada: string;
+  fecha_salida: string;
+  num_personas?: number;
+  nombre: string;
+  email: string;
+  telefono?: string;
+  notas?: string;
+  token_confirmacion?: string;
+}
+
+// Solicitud tal como se envía al backend
+interface BookingData {
+  id_casa: string;
+  fecha_llegada: string;
+  fecha_salida: string;
+  num_personas: number;
+  nombre: string;
+  email: string;
+  telefono?: string;
+  notas?: string;
+}
+
+// Datos que identifican la solicitud: si cambia cualquiera, el token deja de valer
+const BOOKING_FIELDS: (keyof BookingData)[] = ['id_casa', 'fecha_llegada', 'fecha_salida', 'num_personas', 'nombre', 'email', 'telefono', 'notas'];
+
+const secret = BOOKING_TOKEN_SECRET || randomBytes(32).toString('hex');
+
+// Firmas de tokens ya usados → caducidad, para que cada token confirme una sola solicitud
+const usedTokens = new Map<string, number>();
+
+interface TokenPayload {
+  exp: number;
+  precio: number;
+}
+
+function bookingData(args: BookingArgs): BookingData {
+  const { id_casa, fecha_llegada, fecha_salida, num_personas = 2, nombre, email, telefono, notas } = args;
+  return { id_casa, fecha_llegada, fecha_salida, num_personas, nombre, email, telefono, notas };
+}
+
+function fingerprint(args: BookingArgs): string {
+  const data = bookingData(args);
+  return createHash('sha256').update(JSON.stringify(BOOKING_FIELDS.map(f => data[f] ?? null))).digest('hex');
+}
+
+function sign(payload: string, args: BookingArgs): string {
+  return createHmac('sha256', secret).update(`${payload}.${fingerprint(args)}`).digest('base64url');
+}
+
+function issueToken(args: BookingArgs, precio: number): { token: string; expira: string } {
+  const exp = Date.now() + BOOKING_TOKEN_TTL_SECONDS * 1000;
+  const payload = Buffer.from(JSON.stringify({ exp, precio } satisfies TokenPayload)).toString('base64url');
+  return { token: `${payload}.${sign(payload, args)}`, expira: new Date(exp).toISOString() };
+}
+
+function tokenError(language: Language, key: string): ToolValidationError {
+  return new ToolValidationError(TOOL_NAME, [{ field: 'token_confirmacion', message: t(language, key) }]);
+}
+
+// Comprueba firma, caducidad y uso previo y reserva el token antes de cualquier espera, para que
+// dos confirmaciones simultáneas no envíen la misma solicitud; devuelve el precio con el que se emitió
+function verifyToken(token: string, args: BookingArgs, language: Language): { precio: number; signature: string } {
+  const [payload, signature = ''] = token.split('.');
+  const expected = sign(payload, args);
+  if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    throw tokenError(language, 'issue.tokenInvalid');
+  }
+
+  const { exp, precio } = JSON.parse(Buffer.from(payload, 'base64url').toString()) as TokenPayload;
+  const now = Date.now();
+  for (const [used, expiry] of usedTokens) {
+    if (expiry < now) {
+      usedTokens.delete(used);
+    }
+  }
+  if (exp < now) {
+    throw tokenError(language, 'issue.tokenExpired');
+  }
+  if (usedTokens.has(signature)) {
+    throw tokenError(language, 'issue.tokenUsed');
+  }
+  usedTokens.set(signature, exp);
+
+  return { precio, signature };
+}
+
+function summary(args: BookingArgs, quote: PriceQuote, language: Language): string {
+  const data = bookingData(args);
+  const guest = t(language, 'booking.summaryGuest', { name: data.nombre, email: data.email });
+  const lines = [
+    t(language, 'booking.summary', { id: data.id_casa }),
+    t(language, 'booking.summaryStay', {
+      arrival: data.fecha_llegada,
+      departure: data.fecha_salida,
+      nights: quote.noches,
+      guests: data.num_personas,
+    }),
+    t(language, 'booking.summaryPrice', { price: quote.precio_total, currency: quote.moneda }),
+    data.telefono ? `${guest}, ${t(language, 'booking.summaryPhone', { phone: data.telefono })}` : guest,
+  ];
+  if (data.notas) {
+    lines.push(t(language, 'booking.summaryNotes', { notes: data.notas }));
+  }
+  return lines.join('\n');
+}
+
+function response(args: BookingArgs, quote: PriceQuote, fields: Omit<BookingResponse, 'id_casa' | 'fecha_llegada' | 'fecha_salida' | 'num_personas' | 'presupuesto'>): BookingResponse {
+  const { id_casa, fecha_llegada, fecha_salida, num_personas } = bookingData(args);
+  return { id_casa, fecha_llegada, fecha_salida, num_personas, presupuesto: quote, ...fields };
+}
+
+function pending(args: BookingArgs, quote: PriceQuote, language: Language, precioAnterior?: number): BookingResponse {
+  const { token, expira } = issueToken(args, quote.precio_total);
+  return response(args, quote, {
+    success: true,
+    estado: 'pendiente_confirmacion',
+    precio_anterior: precioAnterior,
+    token_confirmacion: token,
+    expira,
+    mensaje: precioAnterior === undefined
+      ? t(language, 'booking.confirmWithToken')
+      : t(language, 'booking.priceChanged', { price: precioAnterior, currency: quote.moneda }),
+  });
+}
+
+async function submit(args: BookingArgs, quote: PriceQuote, language: Language): Promise<BookingResponse> {
+  // Sin caché ni reintentos: un segundo envío duplicaría la solicitud
+  const result = await apiCall('/api/reservas', bookingData(args), 'POST', { bypassCache: true }) as { id_reserva?: string; estado?: string };
+  return response(args, quote, {
+    success: true,
+    estado: 'enviada',
+    id_reserva: result.id_reserva,
+    estado_backend: result.estado,
+    mensaje: t(language, 'booking.sent'),
+  });
+}
+
+export async function requestBooking(args: BookingArgs, context: HandlerContext): Promise<BookingResponse> {
+  // Verificar el token antes de consultar el backend: un token inválido no debe costar llamadas
+  const { language } = context;
+  const confirmation = args.token_confirmacion !== undefined ? verifyToken(args.token_confirmacion, args, language) : undefined;
+
+  const data = bookingData(args);
+  let quote: PriceQuote;
+  try {
+    quote = await context.callTool('calcular_precio_estancia', {
+      id_casa: data.id_casa,
+      fecha_llegada: data.fecha_llegada,
+      fecha_salida: data.fecha_salida,
+      num_personas: data.num_personas,
+    }) as PriceQuote;
+
+    if (quote.disponible === false) {
+      throw new Error(t(language, 'booking.unavailable'));
+    }
+  } catch (error) {
+    // No se ha enviado nada: el token puede volver a usarse
+    if (confirmation) {
+      usedTokens.delete(confirmation.signature);
+    }
+    throw error;
+  }
+
+  if (confirmation) {
+    if (confirmation.precio !== quote.precio_total) {
+      usedTokens.delete(confirmation.signature);
+      return pending(args, quote, language, confirmation.precio);
+    }
+    return submit(args, quote, language);
+  }
+
+  if (!context.elicit) {
+    return pending(args, quote, language);
+  }
+
+  const answer = await context.elicit({
+    message: `${summary(args, quote, language)}\n\n${t(language, 'booking.confirmQuestion')}`,
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        confirmar: { type: 'boolean', title: t(language, 'booking.confirmField'), default: false },
+      },
+      required: ['confirmar'],
+    },
+  });
+
+  if (answer.action === 'accept' && answer.content?.confirmar === true) {
+    return submit(args, quote, language);
+  }
+
+  return response(args, quote, {
+    success: false,
+    estado: 'cancelada',
+    mensaje: t(language, 'booking.notConfirmed'),
+  });
+}
@@ -0,0 +1,29 @@
+import express from 'express';
+import { requireAdminToken } from './auth.js';
+import { apiCache } from './cache.js';
+import { CACHE_ADMIN_TOKEN } from './config.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('cache');
+
+// Endpoints de administración de la caché (deshabilitados si no hay CACHE_ADMIN_TOKEN)
+export function createCacheRouter() {
+  const router = express.Router();
+
+  router.use(requireAdminToken(CACHE_ADMIN_TOKEN));
+
+  // Métricas de la caché
+  router.get('/', (req, res) => {
+    res.json(apiCache.getStats());
+  });
+
+  // Vaciar la caché (opcionalmente sólo un endpoint: ?prefix=/api/municipios)
+  router.delete('/', (req, res) => {
+    const prefix = typeof req.query.prefix === 'string' ? req.query.prefix : undefined;
+    const removed = apiCache.flush(prefix);
+    log.info('Caché vaciada', { prefix, removed });
+    res.json({ removed, stats: apiCache.getStats() });
+  });
+
+  return router;
+}
@@ -0,0 +1,156 @@
+import { CACHE_ENABLED, CACHE_MAX_ENTRIES, envNumber } from './config.js';
+import { CollectedMetric, metrics } from './metrics.js';
+
+// Caché en memoria con TTL, agrupación de peticiones en curso y métricas
+
+export interface CacheStats {
+  enabled: boolean;
+  entries: number;
+  hits: number;
+  misses: number;
+  coalesced: number;
+  bypassed: number;
+  evictions: number;
+  hitRate: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+export class TtlCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private stats = { hits: 0, misses: 0, coalesced: 0, bypassed: 0, evictions: 0 };
+
+  constructor(public enabled = true, private readonly maxEntries = 1000) {}
+
+  // Devuelve el valor cacheado o ejecuta `load`; las llamadas idénticas en curso comparten la misma promesa
+  async getOrLoad<T>(key: string, ttlMs: number, load: () => Promise<T>, bypass = false): Promise<T> {
+    if (!this.enabled || bypass) {
+      this.stats.bypassed++;
+      return load();
+    }
+
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.stats.hits++;
+      // Reinsertar para mantener el orden LRU
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      return entry.value as T;
+    }
+    if (entry) {
+      this.entries.delete(key);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.stats.coalesced++;
+      return pending as Promise<T>;
+    }
+
+    this.stats.misses++;
+    const promise = load()
+      .then(value => {
+        if (ttlMs > 0) {
+          this.set(key, value, ttlMs);
+        }
+        return value;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.stats.evictions++;
+    }
+  }
+
+  // Vacía la caché completa o sólo las claves que empiezan por `prefix`; devuelve cuántas se eliminaron
+  flush(prefix?: string): number {
+    if (!prefix) {
+      const count = this.entries.size;
+      this.entries.clear();
+      return count;
+    }
+
+    let count = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.stats.hits + this.stats.misses + this.stats.coalesced;
+    return {
+      enabled: this.enabled,
+      entries: this.entries.size,
+      ...this.stats,
+      hitRate: lookups > 0 ? (this.stats.hits + this.stats.coalesced) / lookups : 0,
+    };
+  }
+}
+
+// TTL por endpoint (segundos). Se pueden sobrescribir con CACHE_TTL_<NOMBRE>, ej: CACHE_TTL_MUNICIPIOS=3600
+const DEFAULT_TTLS: { name: string; prefix: string; seconds: number }[] = [
+  { name: 'MUNICIPIOS', prefix: '/api/municipios', seconds: 24 * 60 * 60 },
+  { name: 'BARRIOS', prefix: '/api/barrios', seconds: 24 * 60 * 60 },
+  { name: 'PROPIEDAD', prefix: '/api/propiedad/', seconds: 10 * 60 },
+  { name: 'PROPIEDADES', prefix: '/api/propiedades', seconds: 5 * 60 },
+  { name: 'DISPONIBILIDAD', prefix: '/api/disponibilidad', seconds: 30 },
+  { name: 'CALENDARIO', prefix: '/api/calendario/', seconds: 30 },
+  { name: 'CALCULAR_PRECIO', prefix: '/api/calcular-precio', seconds: 0 },
+];
+
+const endpointTtls = DEFAULT_TTLS.map(({ name, prefix, seconds }) => ({
+  prefix,
+  ttlMs: envNumber(`CACHE_TTL_${name}`, seconds) * 1000,
+}));
+
+export function ttlForEndpoint(endpoint: string): number {
+  return endpointTtls.find(r => endpoint.startsWith(r.prefix))?.ttlMs ?? 0;
+}
+
+export function cacheKey(method: string, endpoint: string, params: Record<string, any>): string {
+  const sorted = Object.keys(params)
+    .filter(key => params[key] !== undefined && params[key] !== null)
+    .sort()
+    .map(key => [key, params[key]]);
+  return `${endpoint} ${method} ${JSON.stringify(sorted)}`;
+}
+
+export const apiCache = new TtlCache(CACHE_ENABLED, CACHE_MAX_ENTRIES);
+
+metrics.register(new CollectedMetric(
+  'lapalma24_cache_lookups_total', 'Consultas a la caché del backend por resultado', 'counter', () => {
+    const stats = apiCache.getStats();
+    return [
+      [{ result: 'hit' }, stats.hits],
+      [{ result: 'miss' }, stats.misses],
+      [{ result: 'coalesced' }, stats.coalesced],
+      [{ result: 'bypassed' }, stats.bypassed],
+    ];
+  }
+));
+metrics.register(new CollectedMetric(
+  'lapalma24_cache_evictions_total', 'Entradas expulsadas de la caché por tamaño', 'counter', () => apiCache.getStats().evictions
+));
+metrics.register(new CollectedMetric(
+  'lapalma24_cache_entries', 'Entradas en la caché del backend', 'gauge', () => apiCache.getStats().entries
+));
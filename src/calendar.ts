@@ -0,0 +1,160 @@
+import { apiCall } from './api.js';
+import { Language, t } from './i18n.js';
+import { CalendarDay, CalendarResponse, StayWindow } from './models.js';
+import { resolveEndpoint, ToolArgs, ToolDefinition } from './tool-definition.js';
+import { DAY_MS, formatDate, parseDate, ResponseValidationError, today, ValidationIssue } from './validation.js';
+
+// Calendario de una propiedad: ocupación y precio noche a noche, reglas de estancia mínima
+// y días de cambio, y opcionalmente los huecos libres como estancias listas para reservar
+
+export interface CalendarArgs extends ToolArgs {
+  id_casa: string;
+  mes?: string;
+  fecha_desde?: string;
+  fecha_hasta?: string;
+  incluir_huecos?: boolean;
+  noches_min?: number;
+}
+
+interface BackendCalendarDay {
+  fecha: string;
+  disponible: boolean;
+  precio_noche?: number;
+  estancia_minima?: number;
+  llegada?: boolean;
+  salida?: boolean;
+}
+
+interface BackendCalendar {
+  success: boolean;
+  moneda?: string;
+  estancia_minima?: number;
+  dias: BackendCalendarDay[];
+}
+
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+
+// Primer día y día siguiente al último de un mes YYYY-MM
+function monthRange(month: string): [number, number] | null {
+  const match = MONTH_PATTERN.exec(month);
+  if (!match) {
+    return null;
+  }
+  const [, year, monthNumber] = match.map(Number);
+  return [Date.UTC(year, monthNumber - 1, 1), Date.UTC(year, monthNumber, 1)];
+}
+
+// Periodo: `mes` o el par `fecha_desde`/`fecha_hasta`; un mes no puede haber terminado ya
+export function calendarPeriod(args: ToolArgs, language: Language): ValidationIssue[] {
+  const hasRange = args.fecha_desde !== undefined || args.fecha_hasta !== undefined;
+
+  if (args.mes !== undefined) {
+    if (hasRange) {
+      return [{ field: 'mes', message: t(language, 'issue.exclusive', { first: 'mes', second: 'fecha_desde/fecha_hasta' }) }];
+    }
+    const range = typeof args.mes === 'string' ? monthRange(args.mes) : null;
+    if (range && range[1] <= today()) {
+      return [{ field: 'mes', message: t(language, 'issue.pastMonth') }];
+    }
+    return [];
+  }
+
+  if (!hasRange) {
+    return [{ field: 'mes', message: t(language, 'issue.calendarPeriod') }];
+  }
+  const missing = args.fecha_desde === undefined ? 'fecha_desde' : args.fecha_hasta === undefined ? 'fecha_hasta' : null;
+  return missing ? [{ field: missing, message: t(language, 'issue.otherDateRequired') }] : [];
+}
+
+// Los días ya pasados de un mes en curso no se consultan
+function period(args: CalendarArgs): [string, string] {
+  if (args.mes !== undefined) {
+    const [from, to] = monthRange(args.mes) as [number, number];
+    return [formatDate(Math.max(from, today())), formatDate(to)];
+  }
+  // Sin mes, calendarPeriod exige las dos fechas
+  return [args.fecha_desde as string, args.fecha_hasta as string];
+}
+
+// Por cada tramo de noches libres, la estancia más larga que respeta los días de llegada/salida
+// y la estancia mínima. Fuera del rango consultado no se conocen las reglas: se permite salir.
+function freeWindows(days: CalendarDay[], minNights: number): StayWindow[] {
+  const windows: StayWindow[] = [];
+  const canLeave = (index: number) => index >= days.length || days[index].salida;
+
+  let start = 0;
+  while (start < days.length) {
+    if (!days[start].disponible) {
+      start++;
+      continue;
+    }
+    let end = start;
+    while (end < days.length && days[end].disponible) {
+      end++;
+    }
+
+    let arrival = start;
+    while (arrival < end && !days[arrival].llegada) {
+      arrival++;
+    }
+    let departure = end;
+    while (departure > arrival && !canLeave(departure)) {
+      departure--;
+    }
+
+    const nights = departure - arrival;
+    if (arrival < end && nights >= Math.max(1, days[arrival].estancia_minima, minNights)) {
+      const prices = days.slice(arrival, departure).map(d => d.precio_noche);
+      windows.push({
+        fecha_llegada: days[arrival].fecha,
+        fecha_salida: formatDate((parseDate(days[arrival].fecha) as number) + nights * DAY_MS),
+        noches: nights,
+        estancia_minima: days[arrival].estancia_minima,
+        precio_noches: prices.every(p => p !== undefined)
+          ? Math.round(prices.reduce((sum: number, p) => sum + (p as number), 0) * 100) / 100
+          : undefined,
+      });
+    }
+
+    start = end;
+  }
+
+  return windows;
+}
+
+export async function getCalendar(args: CalendarArgs, definition: ToolDefinition, language: Language): Promise<CalendarResponse> {
+  const [fechaDesde, fechaHasta] = period(args);
+  const backend = await apiCall(
+    resolveEndpoint(definition, args),
+    { fecha_desde: fechaDesde, fecha_hasta: fechaHasta },
+    definition.method
+  ) as BackendCalendar;
+
+  if (!Array.isArray(backend?.dias)) {
+    throw new ResponseValidationError(definition.name, [{ field: 'respuesta.dias', message: t(language, 'issue.required') }]);
+  }
+
+  const minimum = backend.estancia_minima ?? 1;
+  const days: CalendarDay[] = backend.dias.map(day => ({
+    fecha: day.fecha,
+    disponible: day.disponible,
+    precio_noche: day.precio_noche,
+    estancia_minima: day.estancia_minima ?? minimum,
+    llegada: day.llegada ?? true,
+    salida: day.salida ?? true,
+  }));
+  const free = days.filter(d => d.disponible).length;
+
+  return {
+    success: true,
+    id_casa: args.id_casa,
+    fecha_desde: fechaDesde,
+    fecha_hasta: fechaHasta,
+    moneda: backend.moneda ?? 'EUR',
+    estancia_minima: minimum,
+    noches_libres: free,
+    noches_ocupadas: days.length - free,
+    dias: days,
+    huecos: args.incluir_huecos ? freeWindows(days, args.noches_min ?? 1) : undefined,
+  };
+}
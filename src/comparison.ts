@@ -0,0 +1,149 @@
+import { ApiError, apiErrorMessage } from './api.js';
+import { Language, t } from './i18n.js';
+import { ComparedProperty, ComparisonResponse, PriceQuote, PropertyDetailsResponse } from './models.js';
+import { BackendUnavailableError } from './resilience.js';
+import { CallTool, ToolArgs } from './tool-definition.js';
+import { ValidationIssue } from './validation.js';
+
+// Comparación de propiedades: fichas y precios en paralelo, normalizados en una tabla común
+
+export interface ComparisonArgs extends ToolArgs {
+  ids_casa: string[];
+  fecha_llegada?: string;
+  fecha_salida?: string;
+  num_personas?: number;
+  idioma?: string;
+}
+
+// Las fechas son opcionales, pero si se indica una hay que indicar la otra
+export function comparisonDates(args: ToolArgs, language: Language): ValidationIssue[] {
+  const hasArrival = args.fecha_llegada !== undefined;
+  const hasDeparture = args.fecha_salida !== undefined;
+  if (hasArrival === hasDeparture) {
+    return [];
+  }
+  const missing = hasArrival ? 'fecha_salida' : 'fecha_llegada';
+  return [{ field: missing, message: t(language, 'issue.otherDateRequired') }];
+}
+
+// Propiedad comparada y, si falló, el error original
+interface Comparison {
+  property: ComparedProperty;
+  error?: unknown;
+}
+
+// Texto del error para el resultado, sin el mensaje original del backend
+function errorText(error: unknown, language: Language): string {
+  if (error instanceof BackendUnavailableError) {
+    return t(language, 'error.backendUnavailable', { seconds: error.retryInSeconds });
+  }
+  if (error instanceof ApiError) {
+    return apiErrorMessage(error, language);
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+function failure(id: string, error: unknown, language: Language): Comparison {
+  if (error instanceof ApiError && error.status === 404) {
+    return { property: { id_casa: id, estado: 'no_encontrada', error: t(language, 'error.propertyNotFound') } };
+  }
+  return { property: { id_casa: id, estado: 'error', error: errorText(error, language) }, error };
+}
+
+async function compareOne(id: string, args: ComparisonArgs, callTool: CallTool, language: Language): Promise<Comparison> {
+  const withDates = args.fecha_llegada !== undefined;
+  const numPersonas = args.num_personas ?? 2;
+
+  const [details, quote] = await Promise.allSettled([
+    callTool('obtener_detalles_propiedad', { id_casa: id, idioma: args.idioma ?? language }) as Promise<PropertyDetailsResponse>,
+    withDates
+      ? (callTool('calcular_precio_estancia', {
+          id_casa: id,
+          fecha_llegada: args.fecha_llegada,
+          fecha_salida: args.fecha_salida,
+          num_personas: numPersonas,
+        }) as Promise<PriceQuote>)
+      : Promise.resolve(undefined),
+  ]);
+
+  if (details.status === 'rejected') {
+    return failure(id, details.reason, language);
+  }
+
+  const { propiedad } = details.value;
+  const compared: ComparedProperty = {
+    id_casa: id,
+    estado: withDates ? 'disponible' : 'encontrada',
+    nombre: propiedad.nombre,
+    tipo: propiedad.tipo,
+    municipio: propiedad.municipio,
+    barrio: propiedad.barrio,
+    ubicacion: propiedad.latitud !== undefined && propiedad.longitud !== undefined
+      ? { latitud: propiedad.latitud, longitud: propiedad.longitud }
+      : undefined,
+    personas_max: propiedad.personas_max,
+    dormitorios: propiedad.dormitorios,
+    banos: propiedad.banos,
+    capacidad_suficiente: propiedad.personas_max >= numPersonas,
+    amenidades: propiedad.amenidades ?? [],
+    precio_noche: propiedad.precio_noche,
+    limpieza: propiedad.limpieza,
+    url: propiedad.url,
+  };
+
+  if (quote.status === 'rejected') {
+    // Un 4xx del cálculo (capacidad excedida, fechas no válidas...) marca la propiedad como no disponible
+    const status = quote.reason instanceof ApiError ? quote.reason.status : 0;
+    return {
+      property: {
+        ...compared,
+        estado: status >= 400 && status < 500 ? 'no_disponible' : 'error',
+        error: errorText(quote.reason, language),
+      },
+      error: quote.reason,
+    };
+  }
+
+  if (quote.value) {
+    compared.estado = quote.value.disponible === false ? 'no_disponible' : 'disponible';
+    compared.precio_noche = quote.value.precio_noche ?? compared.precio_noche;
+    compared.limpieza = quote.value.limpieza ?? compared.limpieza;
+    compared.precio_total = quote.value.precio_total;
+    compared.descuento = quote.value.descuento;
+    compared.moneda = quote.value.moneda;
+  }
+
+  return { property: compared };
+}
+
+export async function compareProperties(args: ComparisonArgs, callTool: CallTool, language: Language): Promise<ComparisonResponse> {
+  const ids = [...new Set(args.ids_casa)];
+  const comparisons = await Promise.all(ids.map(id => compareOne(id, args, callTool, language)));
+
+  // Si no se pudo consultar ninguna, el fallo es del backend y no de las propiedades: se propaga
+  // tal cual (el circuito abierto sigue siendo un 503 con Retry-After)
+  if (comparisons.every(c => c.property.estado === 'error')) {
+    throw comparisons[0].error;
+  }
+
+  const compared = comparisons.map(c => c.property);
+
+  const found = compared.filter(p => p.estado !== 'no_encontrada' && p.estado !== 'error');
+  const available = found.filter(p => p.estado !== 'no_disponible');
+  const priceOf = (p: ComparedProperty) => p.precio_total ?? p.precio_noche ?? Infinity;
+  const cheapest = [...available].sort((a, b) => priceOf(a) - priceOf(b))[0];
+
+  return {
+    success: true,
+    fecha_llegada: args.fecha_llegada,
+    fecha_salida: args.fecha_salida,
+    num_personas: args.num_personas ?? 2,
+    propiedades: compared,
+    amenidades_comunes: found.length === 0
+      ? []
+      : (found[0].amenidades ?? []).filter(a => found.every(p => p.amenidades?.includes(a))),
+    mas_barata: cheapest?.id_casa ?? null,
+    no_encontradas: compared.filter(p => p.estado === 'no_encontrada').map(p => p.id_casa),
+    no_disponibles: compared.filter(p => p.estado === 'no_disponible').map(p => p.id_casa),
+  };
+}
@@ -0,0 +1,140 @@
+import dotenv from 'dotenv';
+
+// Carga .env antes de que cualquier otro módulo lea process.env
+dotenv.config();
+
+export function envNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export const NODE_ENV = process.env.NODE_ENV || 'development';
+
+export const API_BASE_URL = process.env.API_BASE_URL || 'https://admin.la-palma24.net';
+// Clave de demostración del backend: solo para desarrollo
+export const DEMO_API_KEY = 'demo_key_12345';
+export const API_KEY = process.env.API_KEY || DEMO_API_KEY;
+
+// No se arranca con OAuth sin MCP_PUBLIC_URL (sin ella no se puede comprobar la audiencia de los tokens)
+// ni, en producción, con la clave de demostración; fuera de producción devuelve el aviso
+export function assertProductionConfig(): string | undefined {
+  if ((OAUTH_ISSUER || OAUTH_INTROSPECTION_URL) && !MCP_PUBLIC_URL) {
+    throw new Error('MCP_PUBLIC_URL no está configurada: con OAuth hace falta para comprobar la audiencia de los tokens');
+  }
+  if (API_KEY !== DEMO_API_KEY) {
+    return undefined;
+  }
+  if (NODE_ENV === 'production') {
+    throw new Error('API_KEY no está configurada: no se puede usar la clave de demostración con NODE_ENV=production');
+  }
+  return 'Usando la clave de demostración del backend (API_KEY sin configurar)';
+}
+
+// Logs estructurados: nivel mínimo (debug, info, warn, error) y formato (json o text)
+export const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
+export const LOG_FORMAT = process.env.LOG_FORMAT || 'json';
+
+// Métricas Prometheus en /metrics (con METRICS_TOKEN se exige Authorization: Bearer) y trazas
+// OpenTelemetry opcionales, que necesitan @opentelemetry/api y un SDK registrado en el proceso
+export const METRICS_ENABLED = process.env.METRICS_ENABLED !== 'false';
+export const METRICS_TOKEN = process.env.METRICS_TOKEN || '';
+export const TRACING_ENABLED = process.env.TRACING_ENABLED === 'true';
+
+// Idioma por defecto de errores, herramientas y prompts (es, en o de) si el cliente no pide otro
+export const DEFAULT_LANGUAGE = process.env.DEFAULT_LANGUAGE || 'es';
+
+// Duración máxima de una estancia (noches)
+export const MAX_STAY_NIGHTS = envNumber('MAX_STAY_NIGHTS', 90);
+
+// Búsqueda con fechas flexibles: ventana máxima, consultas al backend y paralelismo
+export const FLEX_SEARCH_MAX_WINDOW_DAYS = envNumber('FLEX_SEARCH_MAX_WINDOW_DAYS', 92);
+export const FLEX_SEARCH_MAX_QUERIES = envNumber('FLEX_SEARCH_MAX_QUERIES', 30);
+export const FLEX_SEARCH_MAX_QUOTES = envNumber('FLEX_SEARCH_MAX_QUOTES', 30);
+export const FLEX_SEARCH_CONCURRENCY = envNumber('FLEX_SEARCH_CONCURRENCY', 4);
+
+// Filtros de búsqueda: fichas consultadas en paralelo cuando el backend no devuelve las amenidades
+export const DETAILS_LOOKUP_CONCURRENCY = envNumber('DETAILS_LOOKUP_CONCURRENCY', 4);
+// Fichas que se consultan como mucho por llamada; las propiedades que queden sin comprobar se descartan y se cuentan
+export const DETAILS_LOOKUP_MAX = envNumber('DETAILS_LOOKUP_MAX', 20);
+
+// Paginación de listar_propiedades: máximo de max_resultados, tamaño de página del backend
+// (100 como mucho) y páginas del backend por llamada
+export const LIST_MAX_RESULTS = envNumber('LIST_MAX_RESULTS', 200);
+export const LIST_PAGE_SIZE = Math.min(envNumber('LIST_PAGE_SIZE', 100), 100);
+export const LIST_MAX_PAGES = envNumber('LIST_MAX_PAGES', 10);
+
+// Endpoints opcionales del backend (lista separada por comas): calendario (GET /api/calendario/:id)
+// y reservas (POST /api/reservas). Las herramientas que los usan solo se registran si el backend los tiene
+export const BACKEND_CAPABILITIES = process.env.BACKEND_CAPABILITIES || '';
+
+// Calendario de ocupación: días como máximo por consulta
+export const CALENDAR_MAX_DAYS = envNumber('CALENDAR_MAX_DAYS', 92);
+
+// Precios: tabla de tipos de cambio (JSON con fecha, base EUR y tasas; sin fichero se usa la incluida)
+// e IGIC en porcentaje, incluido en los precios del backend
+export const EXCHANGE_RATES_FILE = process.env.EXCHANGE_RATES_FILE || '';
+export const IGIC_RATE = envNumber('IGIC_RATE', 7);
+
+// Solicitudes de reserva: firma y validez del token de confirmación (sin secreto se genera uno por proceso)
+export const BOOKING_TOKEN_SECRET = process.env.BOOKING_TOKEN_SECRET || '';
+export const BOOKING_TOKEN_TTL_SECONDS = envNumber('BOOKING_TOKEN_TTL_SECONDS', 15 * 60);
+
+// Caché de lecturas del backend
+export const CACHE_ENABLED = process.env.CACHE_ENABLED !== 'false';
+export const CACHE_MAX_ENTRIES = envNumber('CACHE_MAX_ENTRIES', 1000);
+export const CACHE_ADMIN_TOKEN = process.env.CACHE_ADMIN_TOKEN || '';
+
+// Límite de peticiones en los servidores HTTP y SSE
+export const RATE_LIMIT_ENABLED = process.env.RATE_LIMIT_ENABLED !== 'false';
+export const RATE_LIMIT_MAX = envNumber('RATE_LIMIT_MAX', 100);
+export const RATE_LIMIT_WINDOW_SECONDS = envNumber('RATE_LIMIT_WINDOW_SECONDS', 60 * 60);
+// Valor de `trust proxy` de Express: true, número de saltos o lista de IPs/subredes
+export const TRUST_PROXY = process.env.TRUST_PROXY || '';
+
+// Resiliencia del cliente del backend
+export const API_TIMEOUT_MS = envNumber('API_TIMEOUT_MS', 10_000);
+export const API_MAX_RETRIES = envNumber('API_MAX_RETRIES', 2);
+export const API_RETRY_BASE_MS = envNumber('API_RETRY_BASE_MS', 300);
+export const API_RETRY_MAX_MS = envNumber('API_RETRY_MAX_MS', 5_000);
+export const CIRCUIT_FAILURE_THRESHOLD = envNumber('CIRCUIT_FAILURE_THRESHOLD', 5);
+export const CIRCUIT_RESET_SECONDS = envNumber('CIRCUIT_RESET_SECONDS', 30);
+
+// Readiness (/health/ready): tiempo máximo de la consulta de prueba al backend y segundos que se reutiliza su resultado
+export const READINESS_TIMEOUT_MS = envNumber('READINESS_TIMEOUT_MS', 2_000);
+export const READINESS_CACHE_SECONDS = envNumber('READINESS_CACHE_SECONDS', 10);
+
+// Autenticación de los servidores HTTP y SSE: claves estáticas por cliente (fichero JSON) y/o tokens
+// OAuth 2.1 de un servidor de autorización externo, validados por introspección. Sin ninguno, acceso libre
+export const AUTH_CLIENTS_FILE = process.env.AUTH_CLIENTS_FILE || '';
+export const OAUTH_ISSUER = process.env.OAUTH_ISSUER || '';
+// Endpoint de introspección; por defecto el que anuncian los metadatos del servidor de autorización
+export const OAUTH_INTROSPECTION_URL = process.env.OAUTH_INTROSPECTION_URL || '';
+export const OAUTH_CLIENT_ID = process.env.OAUTH_CLIENT_ID || '';
+export const OAUTH_CLIENT_SECRET = process.env.OAUTH_CLIENT_SECRET || '';
+export const OAUTH_CACHE_SECONDS = envNumber('OAUTH_CACHE_SECONDS', 60);
+// URL pública del servidor MCP: identificador del recurso (audiencia de los tokens) y base de sus metadatos
+export const MCP_PUBLIC_URL = process.env.MCP_PUBLIC_URL || '';
+// Token de administración para /usage (por defecto el de la caché)
+export const ADMIN_TOKEN = process.env.ADMIN_TOKEN || CACHE_ADMIN_TOKEN;
+
+// Transporte Streamable HTTP (index-http)
+// Orígenes permitidos (lista separada por comas, o "*"); sin configurar solo se aceptan localhost y peticiones sin Origin
+export const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS || '';
+export const HTTP_MAX_SESSIONS = envNumber('HTTP_MAX_SESSIONS', 1000);
+export const HTTP_SESSION_IDLE_SECONDS = envNumber('HTTP_SESSION_IDLE_SECONDS', 30 * 60);
+// Mensajes guardados por sesión para reanudar streams con Last-Event-ID (Streamable HTTP y SSE)
+export const EVENT_STORE_MAX_EVENTS = envNumber('EVENT_STORE_MAX_EVENTS', 200);
+
+// Transporte SSE (index.ts sse): sesiones simultáneas en total y por IP, caducidad por inactividad
+// y absoluta, y tiempo que se conserva una sesión desconectada para reanudarla con Last-Event-ID
+export const SSE_MAX_SESSIONS = envNumber('SSE_MAX_SESSIONS', 1000);
+export const SSE_MAX_SESSIONS_PER_IP = envNumber('SSE_MAX_SESSIONS_PER_IP', 20);
+export const SSE_SESSION_IDLE_SECONDS = envNumber('SSE_SESSION_IDLE_SECONDS', 30 * 60);
+export const SSE_SESSION_MAX_SECONDS = envNumber('SSE_SESSION_MAX_SECONDS', 24 * 60 * 60);
+export const SSE_RECONNECT_SECONDS = envNumber('SSE_RECONNECT_SECONDS', 60);
+// Apagado ordenado (SIGTERM): espera máxima a que terminen las peticiones en curso
+export const SHUTDOWN_TIMEOUT_SECONDS = envNumber('SHUTDOWN_TIMEOUT_SECONDS', 10);
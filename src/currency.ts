@@ -0,0 +1,172 @@
+import { readFileSync } from 'node:fs';
+import { EXCHANGE_RATES_FILE } from './config.js';
+import { ExchangeRate } from './models.js';
+import { ToolArgs } from './tool-definition.js';
+
+// Conversión de importes: el backend calcula en euros y el servidor convierte con una tabla local
+// de tipos de cambio, sin consultar servicios externos. La respuesta indica el tipo y su fecha.
+
+export const BASE_CURRENCY = 'EUR';
+
+// Argumento de moneda: no se envía al backend
+export const CURRENCY_ARGS = ['moneda'];
+
+// Unidades de cada moneda por 1 euro, a fecha `fecha`
+export interface ExchangeRates {
+  fecha: string;
+  base: string;
+  tasas: Record<string, number>;
+}
+
+// Tabla incluida; en producción conviene actualizarla con EXCHANGE_RATES_FILE
+const BUILT_IN_RATES: ExchangeRates = {
+  fecha: '2026-10-01',
+  base: BASE_CURRENCY,
+  tasas: {
+    GBP: 0.87,
+    CHF: 0.94,
+    SEK: 11.02,
+    NOK: 11.71,
+    DKK: 7.46,
+    USD: 1.17,
+  },
+};
+
+// Campos con importes en euros de las respuestas de precios y búsquedas
+const MONEY_FIELDS = ['precio_noche', 'precio_total', 'subtotal', 'descuento', 'limpieza', 'precio_noche_medio', 'fianza'];
+
+// Listas de resultados cuyos elementos llevan importes
+const RESULT_LISTS = ['propiedades', 'resultados'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Lee y comprueba un fichero de tipos de cambio; un fichero mal formado impide arrancar
+export function loadExchangeRates(file: string): ExchangeRates {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`No se pudo leer la tabla de tipos de cambio ${file}: ${(error as Error).message}`);
+  }
+
+  const fields = isRecord(data) ? data : {};
+  const problems: string[] = [];
+  const fecha = typeof fields.fecha === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(fields.fecha) ? fields.fecha : undefined;
+  if (!fecha) {
+    problems.push('fecha debe tener el formato YYYY-MM-DD');
+  }
+  if ((fields.base ?? BASE_CURRENCY) !== BASE_CURRENCY) {
+    problems.push(`base debe ser ${BASE_CURRENCY}`);
+  }
+  const tasas: Record<string, number> = {};
+  if (!isRecord(fields.tasas)) {
+    problems.push('tasas debe ser un objeto { "GBP": 0.87, ... }');
+  } else {
+    for (const [currency, rate] of Object.entries(fields.tasas)) {
+      if (!/^[A-Z]{3}$/.test(currency) || typeof rate !== 'number' || !(rate > 0)) {
+        problems.push(`tasa no válida: ${currency}`);
+      } else {
+        tasas[currency] = rate;
+      }
+    }
+  }
+  if (problems.length > 0 || !fecha) {
+    throw new Error(`Tabla de tipos de cambio ${file} no válida: ${problems.join('; ')}`);
+  }
+
+  return { fecha, base: BASE_CURRENCY, tasas };
+}
+
+export const exchangeRates: ExchangeRates = EXCHANGE_RATES_FILE ? loadExchangeRates(EXCHANGE_RATES_FILE) : BUILT_IN_RATES;
+
+// Monedas admitidas por el argumento `moneda`
+export const CURRENCIES = [BASE_CURRENCY, ...Object.keys(exchangeRates.tasas).filter(c => c !== BASE_CURRENCY).sort()];
+
+export function exchangeRate(currency: string): ExchangeRate {
+  return {
+    base: BASE_CURRENCY,
+    moneda: currency,
+    tasa: currency === BASE_CURRENCY ? 1 : exchangeRates.tasas[currency],
+    fecha: exchangeRates.fecha,
+  };
+}
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Importe en euros expresado en `currency`
+export function convert(amount: number, currency: string): number {
+  return round(amount * exchangeRate(currency).tasa);
+}
+
+// Copia de `item` con sus importes convertidos y la moneda cambiada
+function convertAmounts<T extends Record<string, any>>(item: T, currency: string): T {
+  const converted: Record<string, any> = { ...item };
+  for (const field of MONEY_FIELDS) {
+    if (typeof item[field] === 'number') {
+      converted[field] = convert(item[field], currency);
+    }
+  }
+  if (item.moneda !== undefined) {
+    converted.moneda = currency;
+  }
+  return converted as T;
+}
+
+// Desglose de precio (pricing.ts): cada línea lleva su importe y, los impuestos, su base
+function convertBreakdown(desglose: Record<string, any>, currency: string): Record<string, any> {
+  const lines = (list: Record<string, any>[] = []) => list.map(line => ({
+    ...line,
+    importe: convert(line.importe, currency),
+    ...(line.base !== undefined ? { base: convert(line.base, currency) } : {}),
+  }));
+  return {
+    ...desglose,
+    precio_noche: convert(desglose.precio_noche, currency),
+    alojamiento: convert(desglose.alojamiento, currency),
+    descuentos: lines(desglose.descuentos),
+    tarifas: lines(desglose.tarifas),
+    impuestos: lines(desglose.impuestos),
+    total: convert(desglose.total, currency),
+    ...(desglose.fianza !== undefined ? { fianza: convert(desglose.fianza, currency) } : {}),
+  };
+}
+
+// Respuesta de una herramienta con los importes en `currency` y el tipo de cambio aplicado
+export function convertResult(result: unknown, currency: string): unknown {
+  if (currency === BASE_CURRENCY || typeof result !== 'object' || result === null) {
+    return result;
+  }
+
+  const converted: Record<string, any> = convertAmounts(result as Record<string, any>, currency);
+  for (const list of RESULT_LISTS) {
+    if (Array.isArray(converted[list])) {
+      converted[list] = converted[list].map((item: Record<string, any>) => convertAmounts(item, currency));
+    }
+  }
+  if (converted.desglose) {
+    converted.desglose = convertBreakdown(converted.desglose, currency);
+  }
+
+  return { ...converted, moneda: currency, tipo_cambio: exchangeRate(currency) };
+}
+
+// Los filtros de precio se indican en la moneda pedida; el servidor filtra en euros
+export function priceFiltersInBase(args: ToolArgs): ToolArgs {
+  const currency = args.moneda;
+  if (typeof currency !== 'string' || currency === BASE_CURRENCY) {
+    return args;
+  }
+  const rate = exchangeRate(currency).tasa;
+  const result = { ...args };
+  for (const field of ['precio_min', 'precio_max']) {
+    const value = args[field];
+    if (typeof value === 'number') {
+      result[field] = value / rate;
+    }
+  }
+  return result;
+}
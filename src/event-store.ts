@@ -0,0 +1,53 @@
+import type { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+// Almacén de eventos en memoria para reanudar streams SSE (cabecera Last-Event-ID).
+// Hay uno por sesión y guarda como mucho `maxEvents`; los más antiguos se descartan.
+
+interface StoredEvent {
+  id: string;
+  streamId: string;
+  message: JSONRPCMessage;
+}
+
+export class MemoryEventStore implements EventStore {
+  private events: StoredEvent[] = [];
+  private sequence = 0;
+
+  constructor(private readonly maxEvents: number) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const id = String(++this.sequence);
+    this.events.push({ id, streamId, message });
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+    return id;
+  }
+
+  async getStreamIdForEventId(eventId: string): Promise<string | undefined> {
+    return this.events.find(event => event.id === eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const index = this.events.findIndex(event => event.id === lastEventId);
+    if (index === -1) {
+      return '';
+    }
+
+    const { streamId } = this.events[index];
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.id, event.message);
+      }
+    }
+    return streamId;
+  }
+
+  get size(): number {
+    return this.events.length;
+  }
+}
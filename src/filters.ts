@@ -0,0 +1,159 @@
+import { apiCall } from './api.js';
+import { DETAILS_LOOKUP_CONCURRENCY, DETAILS_LOOKUP_MAX } from './config.js';
+import { Language, t } from './i18n.js';
+import { createLogger } from './logger.js';
+import { AvailableProperty, PropertyDetailsResponse } from './models.js';
+import { normalizeName } from './places.js';
+import { BackendUnavailableError, mapWithConcurrency } from './resilience.js';
+import { ToolArgs } from './tool-definition.js';
+import { ValidationIssue } from './validation.js';
+
+// Filtros de amenidades, tipo, baños y precio, y orden de los resultados de búsqueda.
+// Los que el backend admite se le reenvían; el resto se aplica aquí sobre su respuesta.
+
+export const AMENITIES = ['piscina', 'wifi', 'mascotas', 'vista_mar', 'aire_acondicionado', 'parking', 'accesible'];
+
+export const SORT_ORDERS = ['precio', 'precio_desc', 'capacidad', 'distancia'];
+
+// Argumentos de filtrado y orden: no se envían al backend salvo los de BACKEND_FILTERS
+export const FILTER_ARGS = ['amenidades', 'tipo', 'banos_min', 'precio_min', 'precio_max', 'ordenar_por'];
+
+export interface FilterArgs extends ToolArgs {
+  amenidades?: string[];
+  tipo?: string;
+  banos_min?: number;
+  precio_min?: number;
+  precio_max?: number;
+  ordenar_por?: string;
+}
+
+// Filtros que aplica cada endpoint del backend
+export const BACKEND_FILTERS: Record<string, string[]> = {
+  '/api/propiedades': ['tipo'],
+  '/api/disponibilidad': [],
+};
+
+// Nombres con los que el backend puede devolver cada amenidad (normalizados con amenityKey)
+const AMENITY_ALIASES: Record<string, string[]> = {
+  piscina: ['pool', 'swimming_pool', 'piscina_comunitaria', 'piscina_privada'],
+  wifi: ['wi_fi', 'internet', 'wlan'],
+  mascotas: ['pets', 'pets_allowed', 'admite_mascotas', 'mascotas_permitidas', 'haustiere'],
+  vista_mar: ['vistas_mar', 'vistas_al_mar', 'vista_al_mar', 'sea_view', 'meerblick'],
+  aire_acondicionado: ['aire', 'air_conditioning', 'ac', 'klimaanlage'],
+  parking: ['aparcamiento', 'garaje', 'garage', 'parkplatz'],
+  accesible: ['accesibilidad', 'silla_de_ruedas', 'wheelchair', 'wheelchair_access', 'rollstuhlgerecht'],
+};
+
+function amenityKey(value: string): string {
+  return normalizeName(value).replace(/[\s-]+/g, '_');
+}
+
+const amenityIndex = new Map<string, string>();
+for (const amenity of AMENITIES) {
+  for (const name of [amenity, ...AMENITY_ALIASES[amenity]]) {
+    amenityIndex.set(amenityKey(name), amenity);
+  }
+}
+
+// Amenidades de una propiedad con el nombre canónico (las desconocidas se conservan normalizadas)
+export function canonicalAmenities(values: string[]): Set<string> {
+  return new Set(values.map(value => amenityIndex.get(amenityKey(value)) ?? amenityKey(value)));
+}
+
+// Argumentos que hay que aplicar en el servidor para este endpoint
+export function localFilters(args: ToolArgs, endpoint: string): string[] {
+  const supported = BACKEND_FILTERS[endpoint] ?? [];
+  return FILTER_ARGS.filter(arg => args[arg] !== undefined && !supported.includes(arg));
+}
+
+// Regla: rango de precios ordenado y orden por distancia solo con un punto de referencia
+export function searchFilters(args: ToolArgs, language: Language): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (typeof args.precio_min === 'number' && typeof args.precio_max === 'number' && args.precio_min > args.precio_max) {
+    issues.push({ field: 'precio_max', message: t(language, 'issue.minimum', { min: 'precio_min' }) });
+  }
+  if (args.ordenar_por === 'distancia' && args.cerca_de === undefined && args.latitud === undefined) {
+    issues.push({ field: 'ordenar_por', message: t(language, 'issue.distanceRequiresReference') });
+  }
+  return issues;
+}
+
+export interface FilterResult<T> {
+  items: T[];
+  // Propiedades descartadas porque no se pudo consultar su ficha (más de DETAILS_LOOKUP_MAX o error del backend)
+  unchecked?: number;
+}
+
+const log = createLogger('filters');
+
+// Completa las amenidades que falten con la ficha de cada propiedad (misma caché que
+// obtener_detalles_propiedad), hasta DETAILS_LOOKUP_MAX fichas por llamada. Con el circuito
+// abierto la búsqueda falla entera: un backend caído no debe parecer "sin resultados"
+async function withAmenities<T extends AvailableProperty>(items: T[]): Promise<FilterResult<T>> {
+  let lookups = 0;
+  let unchecked = 0;
+  const results = await mapWithConcurrency(items, DETAILS_LOOKUP_CONCURRENCY, async item => {
+    if (item.amenidades) {
+      return item;
+    }
+    if (lookups >= DETAILS_LOOKUP_MAX) {
+      unchecked++;
+      return undefined;
+    }
+    lookups++;
+    const details = await apiCall(`/api/propiedad/${encodeURIComponent(item.id_casa)}`, { idioma: 'es' }, 'GET') as PropertyDetailsResponse;
+    return { ...item, amenidades: details.propiedad?.amenidades ?? [] };
+  });
+  const failures = results.flatMap(result => (result.status === 'rejected' ? [result.reason] : []));
+  const unavailable = failures.find(reason => reason instanceof BackendUnavailableError);
+  if (unavailable) {
+    throw unavailable;
+  }
+  if (failures.length > 0) {
+    log.warn('Fichas no disponibles para el filtro de amenidades', { failed: failures.length, error: failures[0] });
+  }
+
+  // Sin ficha no se puede comprobar: la propiedad queda fuera y se cuenta en sin_comprobar
+  return {
+    items: results.flatMap(result => (result.status === 'fulfilled' && result.value ? [result.value] : [])),
+    unchecked: unchecked + failures.length || undefined,
+  };
+}
+
+// Precio comparable: el total de la estancia si lo hay, si no el de una noche
+function price(item: AvailableProperty): number {
+  return item.precio_total ?? item.precio_noche;
+}
+
+export async function applyFilters<T extends AvailableProperty>(items: T[], args: FilterArgs): Promise<FilterResult<T>> {
+  const { tipo, banos_min, precio_min, precio_max, amenidades } = args;
+  const filtered = items
+    .filter(p => tipo === undefined || (p.tipo !== undefined && normalizeName(p.tipo) === normalizeName(tipo)))
+    .filter(p => banos_min === undefined || (p.banos ?? 0) >= banos_min)
+    .filter(p => precio_min === undefined || p.precio_noche >= precio_min)
+    .filter(p => precio_max === undefined || p.precio_noche <= precio_max);
+
+  if (!amenidades?.length) {
+    return { items: filtered };
+  }
+
+  const { items: withDetails, unchecked } = await withAmenities(filtered);
+  return {
+    items: withDetails.filter(p => {
+      const available = canonicalAmenities(p.amenidades ?? []);
+      return amenidades.every(a => available.has(a));
+    }),
+    unchecked,
+  };
+}
+
+// Orden estable: a igualdad se mantiene el orden del backend (o de distancia)
+export function sortProperties<T extends AvailableProperty>(items: T[], order: string): T[] {
+  const compare: Record<string, (a: T, b: T) => number> = {
+    precio: (a, b) => price(a) - price(b),
+    precio_desc: (a, b) => price(b) - price(a),
+    capacidad: (a, b) => b.personas_max - a.personas_max,
+    distancia: (a, b) => (a.distancia_km ?? Infinity) - (b.distancia_km ?? Infinity),
+  };
+  return compare[order] ? [...items].sort(compare[order]) : items;
+}
@@ -0,0 +1,197 @@
+import {
+  FLEX_SEARCH_CONCURRENCY,
+  FLEX_SEARCH_MAX_QUERIES,
+  FLEX_SEARCH_MAX_QUOTES,
+  MAX_STAY_NIGHTS,
+} from './config.js';
+import { Language, t } from './i18n.js';
+import { AvailabilityResponse, AvailableProperty, FlexibleResult, FlexibleSearchResponse, PriceQuote } from './models.js';
+import { PROXIMITY_ARGS, ProximityArgs, referencePoint } from './geo.js';
+import { mapWithConcurrency } from './resilience.js';
+import { CallTool, ToolArgs } from './tool-definition.js';
+import { DAY_MS, formatDate, parseDate, ValidationIssue } from './validation.js';
+
+// Búsqueda con fechas flexibles: recorre las llegadas posibles dentro de una ventana,
+// consulta disponibilidad y precio con paralelismo acotado y ordena por precio total
+
+export interface FlexibleSearchArgs extends ProximityArgs {
+  fecha_desde: string;
+  fecha_hasta: string;
+  noches?: number;
+  noches_min?: number;
+  noches_max?: number;
+  num_personas?: number;
+  municipio?: string;
+  barrio?: string;
+  max_resultados?: number;
+}
+
+interface StayOption {
+  fecha_llegada: string;
+  fecha_salida: string;
+  noches: number;
+}
+
+interface Candidate extends StayOption {
+  propiedad: AvailableProperty;
+  estimado: number;
+}
+
+// Noches de la estancia: `noches` fija o rango `noches_min`–`noches_max`
+function nightsRange(args: FlexibleSearchArgs): [number, number] {
+  if (args.noches !== undefined) {
+    return [args.noches, args.noches];
+  }
+  const min = args.noches_min ?? args.noches_max ?? 7;
+  return [min, args.noches_max ?? min];
+}
+
+// Reglas de noches: `noches` excluye el rango, min <= max y la estancia más corta cabe en la ventana
+export function flexibleNights(args: ToolArgs, language: Language): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (args.noches !== undefined && (args.noches_min !== undefined || args.noches_max !== undefined)) {
+    issues.push({ field: 'noches', message: t(language, 'issue.exclusive', { first: 'noches', second: 'noches_min/noches_max' }) });
+    return issues;
+  }
+
+  // Los valores de otro tipo ya los señala el esquema
+  const [min, max] = nightsRange(args as FlexibleSearchArgs);
+  if (min > max) {
+    issues.push({ field: 'noches_max', message: t(language, 'issue.minimum', { min: 'noches_min' }) });
+  }
+  if (max > MAX_STAY_NIGHTS) {
+    issues.push({ field: args.noches !== undefined ? 'noches' : 'noches_max', message: t(language, 'issue.maxStay', { max: MAX_STAY_NIGHTS }) });
+  }
+
+  const from = typeof args.fecha_desde === 'string' ? parseDate(args.fecha_desde) : null;
+  const to = typeof args.fecha_hasta === 'string' ? parseDate(args.fecha_hasta) : null;
+  if (from !== null && to !== null && Math.round((to - from) / DAY_MS) < min) {
+    issues.push({ field: 'fecha_hasta', message: t(language, 'issue.windowShorterThanStay', { min }) });
+  }
+
+  return issues;
+}
+
+// Todas las estancias que caben en la ventana; si superan `limit` se toma una muestra repartida
+function stayOptions(args: FlexibleSearchArgs, limit: number): { options: StayOption[]; total: number } {
+  const from = parseDate(args.fecha_desde) as number;
+  const to = parseDate(args.fecha_hasta) as number;
+  const [min, max] = nightsRange(args);
+
+  const all: StayOption[] = [];
+  for (let arrival = from; arrival < to; arrival += DAY_MS) {
+    for (let nights = min; nights <= max; nights++) {
+      const departure = arrival + nights * DAY_MS;
+      if (departure > to) {
+        break;
+      }
+      all.push({ fecha_llegada: formatDate(arrival), fecha_salida: formatDate(departure), noches: nights });
+    }
+  }
+
+  if (all.length <= limit) {
+    return { options: all, total: all.length };
+  }
+
+  const step = (all.length - 1) / Math.max(1, limit - 1);
+  const sampled = Array.from({ length: limit }, (_, i) => all[Math.round(i * step)]);
+  return { options: sampled, total: all.length };
+}
+
+function pick(args: ToolArgs, fields: string[]): ToolArgs {
+  return Object.fromEntries(fields.filter(f => args[f] !== undefined).map(f => [f, args[f]]));
+}
+
+export async function searchFlexibleDates(args: FlexibleSearchArgs, callTool: CallTool): Promise<FlexibleSearchResponse> {
+  const numPersonas = args.num_personas ?? 2;
+  const maxResultados = args.max_resultados ?? 10;
+  const filters = pick(args, ['municipio', 'barrio', ...PROXIMITY_ARGS]);
+  const [minNights, maxNights] = nightsRange(args);
+
+  const { options, total } = stayOptions(args, FLEX_SEARCH_MAX_QUERIES);
+
+  // 1. Disponibilidad de cada combinación de fechas
+  const availability = await mapWithConcurrency(options, FLEX_SEARCH_CONCURRENCY, option =>
+    callTool('buscar_disponibilidad', {
+      fecha_llegada: option.fecha_llegada,
+      fecha_salida: option.fecha_salida,
+      num_personas: numPersonas,
+      ...filters,
+    }) as Promise<AvailabilityResponse>
+  );
+
+  const failed = availability.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (options.length > 0 && failed.length === options.length) {
+    throw failed[0].reason;
+  }
+
+  const candidates: Candidate[] = [];
+  availability.forEach((result, index) => {
+    if (result.status !== 'fulfilled') {
+      return;
+    }
+    const option = options[index];
+    for (const propiedad of result.value.propiedades) {
+      candidates.push({
+        ...option,
+        propiedad,
+        estimado: propiedad.precio_total ?? propiedad.precio_noche * option.noches,
+      });
+    }
+  });
+
+  // 2. Precio exacto de las combinaciones más baratas según la estimación
+  candidates.sort((a, b) => a.estimado - b.estimado);
+  const toQuote = candidates.slice(0, FLEX_SEARCH_MAX_QUOTES);
+
+  const quotes = await mapWithConcurrency(toQuote, FLEX_SEARCH_CONCURRENCY, candidate =>
+    callTool('calcular_precio_estancia', {
+      id_casa: candidate.propiedad.id_casa,
+      fecha_llegada: candidate.fecha_llegada,
+      fecha_salida: candidate.fecha_salida,
+      num_personas: numPersonas,
+    }) as Promise<PriceQuote>
+  );
+
+  const results: FlexibleResult[] = [];
+  quotes.forEach((quote, index) => {
+    if (quote.status !== 'fulfilled' || quote.value.disponible === false) {
+      return;
+    }
+    const { fecha_llegada, fecha_salida, noches, propiedad } = toQuote[index];
+    const precioTotal = quote.value.precio_total;
+    results.push({
+      id_casa: propiedad.id_casa,
+      nombre: propiedad.nombre,
+      municipio: propiedad.municipio,
+      barrio: propiedad.barrio,
+      personas_max: propiedad.personas_max,
+      fecha_llegada,
+      fecha_salida,
+      noches,
+      precio_total: precioTotal,
+      precio_noche_medio: Math.round((precioTotal / noches) * 100) / 100,
+      descuento: quote.value.descuento,
+      moneda: quote.value.moneda,
+      url: propiedad.url,
+      distancia_km: propiedad.distancia_km,
+    });
+  });
+
+  results.sort((a, b) => a.precio_total - b.precio_total || a.fecha_llegada.localeCompare(b.fecha_llegada));
+
+  return {
+    success: true,
+    fecha_desde: args.fecha_desde,
+    fecha_hasta: args.fecha_hasta,
+    noches: { min: minNights, max: maxNights },
+    num_personas: numPersonas,
+    combinaciones_posibles: total,
+    combinaciones_consultadas: options.length,
+    consultas_fallidas: failed.length + quotes.filter(q => q.status === 'rejected').length,
+    total: results.length,
+    resultados: results.slice(0, maxResultados),
+    referencia: referencePoint(args),
+  };
+}
@@ -0,0 +1,88 @@
+import { Language, t } from './i18n.js';
+import { PropertySummary, ReferencePoint } from './models.js';
+import { findPlace, suggestPlaces } from './places.js';
+import { ToolArgs } from './tool-definition.js';
+import { ValidationIssue } from './validation.js';
+
+// Búsqueda por proximidad: un lugar conocido o unas coordenadas, y opcionalmente un radio.
+// El backend no filtra por distancia; se calcula aquí con las coordenadas de cada propiedad.
+
+// Argumentos de proximidad: se resuelven aquí y no se envían al backend
+export const PROXIMITY_ARGS = ['cerca_de', 'latitud', 'longitud', 'radio_km'];
+
+export interface ProximityArgs extends ToolArgs {
+  cerca_de?: string;
+  latitud?: number;
+  longitud?: number;
+  radio_km?: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Distancia del círculo máximo (haversine) en kilómetros
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const rad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = rad(lat2 - lat1);
+  const dLon = rad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// Regla: lugar o coordenadas (no ambos), latitud y longitud juntas, y radio solo con un punto
+export function proximityArgs(args: ToolArgs, language: Language): ValidationIssue[] {
+  const hasPlace = args.cerca_de !== undefined;
+  const hasLat = args.latitud !== undefined;
+  const hasLon = args.longitud !== undefined;
+
+  if (hasPlace && (hasLat || hasLon)) {
+    return [{ field: 'cerca_de', message: t(language, 'issue.exclusive', { first: 'cerca_de', second: 'latitud/longitud' }) }];
+  }
+  if (hasLat !== hasLon) {
+    return [{ field: hasLat ? 'longitud' : 'latitud', message: t(language, 'issue.otherCoordinateRequired') }];
+  }
+  if (args.radio_km !== undefined && !hasPlace && !hasLat) {
+    return [{ field: 'radio_km', message: t(language, 'issue.requiresReference') }];
+  }
+  if (hasPlace && typeof args.cerca_de === 'string' && !findPlace(args.cerca_de)) {
+    const suggestions = suggestPlaces(args.cerca_de);
+    return [{
+      field: 'cerca_de',
+      message: suggestions.length > 0
+        ? t(language, 'issue.unknownPlace', { place: args.cerca_de, suggestions: suggestions.join(', ') })
+        : t(language, 'issue.unknownPlaceUseCoordinates', { place: args.cerca_de }),
+    }];
+  }
+  return [];
+}
+
+export function referencePoint(args: ProximityArgs): ReferencePoint | undefined {
+  const radius = args.radio_km !== undefined ? { radio_km: args.radio_km } : {};
+  if (args.cerca_de !== undefined) {
+    const place = findPlace(args.cerca_de);
+    return place ? { nombre: place.nombre, latitud: place.latitud, longitud: place.longitud, ...radius } : undefined;
+  }
+  if (args.latitud !== undefined && args.longitud !== undefined) {
+    return { latitud: args.latitud, longitud: args.longitud, ...radius };
+  }
+  return undefined;
+}
+
+// Añade distancia_km, descarta lo que queda fuera del radio y ordena de más cerca a más lejos
+export function applyProximity<T extends PropertySummary>(items: T[], reference: ReferencePoint): { items: T[]; sinUbicacion: number } {
+  let sinUbicacion = 0;
+  const located: T[] = [];
+
+  for (const item of items) {
+    if (item.latitud === undefined || item.longitud === undefined) {
+      sinUbicacion++;
+      continue;
+    }
+    const distance = distanceKm(reference.latitud, reference.longitud, item.latitud, item.longitud);
+    if (reference.radio_km === undefined || distance <= reference.radio_km) {
+      located.push({ ...item, distancia_km: Math.round(distance * 10) / 10 });
+    }
+  }
+
+  located.sort((a, b) => (a.distancia_km as number) - (b.distancia_km as number));
+  return { items: located, sinUbicacion };
+}
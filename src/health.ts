@@ -0,0 +1,118 @@
+import express from 'express';
+import { ApiError, circuitBreaker, probeBackend } from './api.js';
+import { apiCache } from './cache.js';
+import { READINESS_CACHE_SECONDS, READINESS_TIMEOUT_MS } from './config.js';
+import { createLogger } from './logger.js';
+import { CircuitStatus } from './resilience.js';
+import { SERVER_VERSION } from './server.js';
+
+// Liveness (el proceso responde) y readiness (puede atender herramientas: el backend contesta con
+// la clave configurada y el circuito no está abierto), para el balanceador y los orquestadores
+
+// Endpoint ligero del backend usado como prueba
+const PROBE_ENDPOINT = '/api/municipios';
+
+export interface BackendCheck {
+  reachable: boolean;
+  // Código HTTP de la respuesta (null si no hubo respuesta)
+  status: number | null;
+  latencyMs: number;
+  // false si el backend rechaza la clave (401/403); null si no se pudo saber
+  apiKeyValid: boolean | null;
+  error?: string;
+  checkedAt: string;
+}
+
+export interface Readiness {
+  status: 'ready' | 'not_ready';
+  version: string;
+  timestamp: string;
+  backend: BackendCheck;
+  circuit: CircuitStatus;
+}
+
+const log = createLogger('health');
+const startedAt = Date.now();
+
+let lastCheck: { result: BackendCheck; until: number } | undefined;
+let inFlight: Promise<BackendCheck> | undefined;
+
+async function runCheck(): Promise<BackendCheck> {
+  const started = performance.now();
+  const checkedAt = new Date().toISOString();
+  try {
+    const status = await probeBackend(PROBE_ENDPOINT, READINESS_TIMEOUT_MS);
+    return { reachable: true, status, latencyMs: Math.round(performance.now() - started), apiKeyValid: true, checkedAt };
+  } catch (error) {
+    const status = error instanceof ApiError && error.status > 0 ? error.status : null;
+    return {
+      reachable: status !== null,
+      status,
+      latencyMs: Math.round(performance.now() - started),
+      apiKeyValid: status === 401 || status === 403 ? false : null,
+      error: (error as Error).message,
+      checkedAt,
+    };
+  }
+}
+
+// Resultado de la última comprobación mientras no caduque; las peticiones simultáneas comparten la consulta
+export function checkBackend(): Promise<BackendCheck> {
+  if (lastCheck && lastCheck.until > Date.now()) {
+    return Promise.resolve(lastCheck.result);
+  }
+  inFlight ??= runCheck()
+    .then(result => {
+      if (result.apiKeyValid !== true) {
+        log.warn('Comprobación del backend fallida', { status: result.status, error: result.error });
+      }
+      lastCheck = { result, until: Date.now() + READINESS_CACHE_SECONDS * 1000 };
+      return result;
+    })
+    .finally(() => {
+      inFlight = undefined;
+    });
+  return inFlight;
+}
+
+export async function readiness(): Promise<Readiness> {
+  const backend = await checkBackend();
+  const circuit = circuitBreaker.getStatus();
+  const ready = backend.reachable && backend.apiKeyValid === true && circuit.state !== 'open';
+  return {
+    status: ready ? 'ready' : 'not_ready',
+    version: SERVER_VERSION,
+    timestamp: new Date().toISOString(),
+    backend,
+    circuit,
+  };
+}
+
+// GET /health (estado y métricas de caché, sin consultar el backend), /health/live y /health/ready
+export function createHealthRouter() {
+  const router = express.Router();
+
+  router.get('/', (req, res) => {
+    res.json({
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      cache: apiCache.getStats(),
+      backend: circuitBreaker.getStatus()
+    });
+  });
+
+  router.get('/live', (req, res) => {
+    res.json({
+      status: 'ok',
+      version: SERVER_VERSION,
+      uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    });
+  });
+
+  router.get('/ready', async (req, res) => {
+    const result = await readiness();
+    res.status(result.status === 'ready' ? 200 : 503).json(result);
+  });
+
+  return router;
+}
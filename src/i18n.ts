@@ -0,0 +1,72 @@
+import { DEFAULT_LANGUAGE as CONFIGURED_LANGUAGE } from './config.js';
+import { messages } from './messages.js';
+
+// Idiomas del servidor: textos de error, descripciones de herramientas y parámetros y prompts.
+// El registro de herramientas y prompts está escrito en español; el catálogo (messages.ts) tiene
+// los errores en los tres idiomas y las descripciones en inglés y alemán. Lo que falte en un
+// idioma se toma del inglés.
+
+export type Language = 'es' | 'en' | 'de';
+
+export const LANGUAGES: Language[] = ['es', 'en', 'de'];
+
+// Idioma en el que están escritos el registro de herramientas y los prompts
+export const SOURCE_LANGUAGE: Language = 'es';
+
+export const FALLBACK_LANGUAGE: Language = 'en';
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && (LANGUAGES as string[]).includes(value);
+}
+
+export const DEFAULT_LANGUAGE: Language = isLanguage(CONFIGURED_LANGUAGE) ? CONFIGURED_LANGUAGE : SOURCE_LANGUAGE;
+
+// Texto de la clave en el idioma pedido o en inglés, o undefined si no está en ninguno
+export function lookup(language: Language, key: string): string | undefined {
+  return messages[language][key] ?? messages[FALLBACK_LANGUAGE][key];
+}
+
+// Si el catálogo de `language` tiene la clave, sin contar el respaldo en inglés
+export function hasMessage(language: Language, key: string): boolean {
+  return messages[language][key] !== undefined;
+}
+
+// Sustituye los {parámetros} del texto; los que no tienen valor se dejan tal cual
+export function interpolate(text: string, params: Record<string, unknown>): string {
+  return text.replace(/\{(\w+)\}/g, (match, name) => (params[name] !== undefined ? String(params[name]) : match));
+}
+
+// Texto traducido con los {parámetros} sustituidos; si la clave no existe se devuelve la clave
+export function t(language: Language, key: string, params: Record<string, unknown> = {}): string {
+  return interpolate(lookup(language, key) ?? key, params);
+}
+
+// Idioma preferido de una cabecera Accept-Language (ej: "de-DE,de;q=0.9,en;q=0.8") entre los soportados
+export function negotiateLanguage(acceptLanguage: string | undefined, fallback: Language = DEFAULT_LANGUAGE): Language {
+  if (!acceptLanguage) {
+    return fallback;
+  }
+
+  const ranges = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [range, ...options] = part.trim().split(';');
+      const q = options.map(o => o.trim()).find(o => o.startsWith('q='));
+      return { language: range.trim().toLowerCase().split('-')[0], q: q ? Number(q.slice(2)) : 1, index };
+    })
+    .filter(({ q }) => Number.isFinite(q) && q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  return ranges.find(({ language }) => isLanguage(language))?.language as Language | undefined ?? fallback;
+}
+
+// Idioma de una petición: el argumento `idioma` si es válido, si no la cabecera Accept-Language
+export function requestLanguage(args: unknown, acceptLanguage?: string, fallback: Language = DEFAULT_LANGUAGE): Language {
+  const idioma = typeof args === 'object' && args !== null ? (args as Record<string, unknown>).idioma : undefined;
+  return isLanguage(idioma) ? idioma : negotiateLanguage(acceptLanguage, fallback);
+}
+
+// Claves de error del catálogo español que faltan en `language` (sin contar el respaldo en inglés)
+export function missingMessages(language: Language): string[] {
+  return Object.keys(messages[SOURCE_LANGUAGE]).filter(key => !hasMessage(language, key));
+}
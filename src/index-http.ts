@@ -1,463 +1,254 @@
+import { randomUUID } from 'crypto';
+import express from 'express';
+import cors from 'cors';
+import type { Request, Response } from 'express';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  Tool,
+  isInitializeRequest,
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
 } from '@modelcontextprotocol/sdk/types.js';
-import express from 'express';
-import cors from 'cors';
-import dotenv from 'dotenv';
-
-dotenv.config();
-
-const API_BASE_URL = process.env.API_BASE_URL || 'https://admin.la-palma24.net';
-const API_KEY = process.env.API_KEY || 'demo_key_12345';
-const PORT = process.env.PORT || 3000;
-
-// Cliente HTTP simple
-async function apiCall(endpoint: string, params: Record<string, any> = {}, method: 'GET' | 'POST' = 'GET') {
-  const url = new URL(`${API_BASE_URL}${endpoint}`);
-  
-  const headers: Record<string, string> = {
-    'X-API-Key': API_KEY,
-    'Content-Type': 'application/json',
-  };
-
-  let requestInit: RequestInit = {
-    method,
-    headers,
-  };
-
-  if (method === 'GET' && Object.keys(params).length > 0) {
-    Object.keys(params).forEach(key => {
-      if (params[key] !== undefined && params[key] !== null) {
-        url.searchParams.append(key, String(params[key]));
-      }
-    });
-  } else if (method === 'POST') {
-    requestInit.body = JSON.stringify(params);
-  }
-
-  const response = await fetch(url.toString(), requestInit);
-  
-  if (!response.ok) {
-    throw new Error(`API Error: ${response.status} ${response.statusText}`);
+import { AUTH_ENABLED, loadStaticClients, protectedResourceMetadata, PROTECTED_RESOURCE_PATH, requireAuth } from './auth.js';
+import { createCacheRouter } from './cache-admin.js';
+import {
+  assertProductionConfig,
+  EVENT_STORE_MAX_EVENTS,
+  HTTP_MAX_SESSIONS,
+  HTTP_SESSION_IDLE_SECONDS,
+  NODE_ENV,
+} from './config.js';
+import { MemoryEventStore } from './event-store.js';
+import { createHealthRouter } from './health.js';
+import { Language, negotiateLanguage } from './i18n.js';
+import { createLogger, requestContext } from './logger.js';
+import { CollectedMetric, createMetricsRouter, metrics } from './metrics.js';
+import { isOriginAllowed, originGuard } from './origin.js';
+import { applyTrustProxy, rateLimit } from './rate-limit.js';
+import { createToolsRouter } from './rest.js';
+import { createMcpServer, SERVER_VERSION } from './server.js';
+import { localizedTools, tools } from './tools.js';
+import { createUsageRouter, trackUsage } from './usage.js';
+
+const log = createLogger('http');
+
+try {
+  const warning = assertProductionConfig();
+  loadStaticClients();
+  if (warning) {
+    log.warn(warning);
   }
-  
-  return await response.json();
+} catch (error) {
+  log.error('Configuración no válida', { error });
+  process.exit(1);
 }
 
-// Definición de herramientas MCP
-const tools: Tool[] = [
-  {
-    name: 'buscar_disponibilidad',
-    description: 'Busca propiedades vacacionales disponibles en La Palma para unas fechas específicas. Permite filtrar por municipio, barrio y número de personas.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fecha_llegada: {
-          type: 'string',
-          description: 'Fecha de llegada en formato YYYY-MM-DD (ej: 2024-06-15)',
-          pattern: '^\\d{4}-\\d{2}-\\d{2}$'
-        },
-        fecha_salida: {
-          type: 'string',
-          description: 'Fecha de salida en formato YYYY-MM-DD (ej: 2024-06-22)',
-          pattern: '^\\d{4}-\\d{2}-\\d{2}$'
-        },
-        num_personas: {
-          type: 'number',
-          description: 'Número de huéspedes (default: 2)',
-          minimum: 1
-        },
-        municipio: {
-          type: 'string',
-          description: 'Filtrar por municipio (ej: Santa Cruz de La Palma, Los Llanos de Aridane)'
-        },
-        barrio: {
-          type: 'string',
-          description: 'Filtrar por barrio/zona (ej: Centro, San Telmo, El Charco)'
-        }
-      },
-      required: ['fecha_llegada', 'fecha_salida']
-    }
-  },
-  {
-    name: 'obtener_detalles_propiedad',
-    description: 'Obtiene información completa de una propiedad específica: características, amenidades, ubicación, precios, fotos, descripciones en el idioma solicitado.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id_casa: {
-          type: 'string',
-          description: 'ID de la propiedad a consultar'
-        },
-        idioma: {
-          type: 'string',
-          description: 'Idioma para descripciones: es (español), en (inglés), de (alemán)',
-          enum: ['es', 'en', 'de'],
-          default: 'es'
-        }
-      },
-      required: ['id_casa']
-    }
-  },
-  {
-    name: 'calcular_precio_estancia',
-    description: 'Calcula el precio total de una estancia incluyendo tarifas por temporada, descuentos aplicables, número de noches y personas.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id_casa: {
-          type: 'string',
-          description: 'ID de la propiedad'
-        },
-        fecha_llegada: {
-          type: 'string',
-          description: 'Fecha de llegada en formato YYYY-MM-DD',
-          pattern: '^\\d{4}-\\d{2}-\\d{2}$'
-        },
-        fecha_salida: {
-          type: 'string',
-          description: 'Fecha de salida en formato YYYY-MM-DD',
-          pattern: '^\\d{4}-\\d{2}-\\d{2}$'
-        },
-        num_personas: {
-          type: 'number',
-          description: 'Número de huéspedes (default: 2)',
-          minimum: 1
-        }
-      },
-      required: ['id_casa', 'fecha_llegada', 'fecha_salida']
-    }
-  },
-  {
-    name: 'listar_propiedades',
-    description: 'Lista todas las propiedades vacacionales disponibles con filtros opcionales por ubicación, capacidad y características. Incluye paginación.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        municipio: {
-          type: 'string',
-          description: 'Filtrar por municipio'
-        },
-        barrio: {
-          type: 'string',
-          description: 'Filtrar por barrio/zona'
-        },
-        dormitorios: {
-          type: 'number',
-          description: 'Número de dormitorios',
-          minimum: 1
-        },
-        personas_max: {
-          type: 'number',
-          description: 'Capacidad mínima de personas',
-          minimum: 1
-        },
-        limit: {
-          type: 'number',
-          description: 'Número máximo de resultados (default: 50)',
-          minimum: 1,
-          maximum: 100,
-          default: 50
-        },
-        offset: {
-          type: 'number',
-          description: 'Offset para paginación (default: 0)',
-          minimum: 0,
-          default: 0
-        }
-      }
-    }
-  },
-  {
-    name: 'listar_municipios',
-    description: 'Obtiene la lista completa de municipios disponibles en La Palma donde hay propiedades. Útil para saber qué ubicaciones se pueden filtrar.',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'listar_barrios',
-    description: 'Obtiene la lista de barrios/zonas disponibles, opcionalmente filtrados por municipio. Útil para búsquedas más específicas de ubicación.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        municipio: {
-          type: 'string',
-          description: 'Filtrar barrios por municipio (ej: Santa Cruz de La Palma)'
-        }
-      }
-    }
-  }
-];
-
-// Ejecutar herramienta
-async function executeTool(name: string, args: any) {
-  try {
-    let result;
-
-    switch (name) {
-      case 'buscar_disponibilidad':
-        result = await apiCall('/api/disponibilidad', args, 'POST');
-        break;
-
-      case 'obtener_detalles_propiedad':
-        const { id_casa, idioma = 'es' } = args;
-        result = await apiCall(`/api/propiedad/${id_casa}`, { idioma }, 'GET');
-        break;
-
-      case 'calcular_precio_estancia':
-        result = await apiCall('/api/calcular-precio', args, 'POST');
-        break;
-
-      case 'listar_propiedades':
-        result = await apiCall('/api/propiedades', args, 'GET');
-        break;
-
-      case 'listar_municipios':
-        result = await apiCall('/api/municipios', {}, 'GET');
-        break;
+const PORT = process.env.PORT || 3000;
 
-      case 'listar_barrios':
-        result = await apiCall('/api/barrios', args, 'GET');
-        break;
+// Sesiones Streamable HTTP: un transporte y un servidor MCP por sesión
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  lastSeen: number;
+  // Cliente autenticado que abrió la sesión; solo él puede usarla
+  clientId?: string;
+}
 
-      default:
-        throw new Error(`Herramienta desconocida: ${name}`);
-    }
+const sessions = new Map<string, HttpSession>();
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
-  } catch (error: any) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: false,
-            error: error.message,
-            details: error.toString()
-          }, null, 2),
-        },
-      ],
-      isError: true,
-    };
-  }
-}
+metrics.register(new CollectedMetric(
+  'lapalma24_http_sessions', 'Sesiones Streamable HTTP activas', 'gauge', () => sessions.size
+));
 
-// Modo HTTP directo - Claude conecta así
+// Modo HTTP directo - Claude conecta así (MCP Streamable HTTP)
 const app = express();
+applyTrustProxy(app);
+app.use(requestContext());
 
 app.use(cors({
-  origin: '*',
-  methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  origin: (origin, callback) => callback(null, isOriginAllowed(origin)),
+  methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+  allowedHeaders: [
+    'Content-Type', 'Authorization', 'X-API-Key', 'X-Request-Id', 'Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID',
+  ],
+  exposedHeaders: [
+    'Mcp-Session-Id', 'X-Request-Id', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After', 'WWW-Authenticate',
+  ],
   credentials: false,
 }));
 app.use(express.json());
 
-// Endpoint raíz - MCP sobre HTTP
-app.post('/', async (req, res) => {
-  const message = req.body;
+// Cuerpo que no es JSON válido: error de parseo JSON-RPC
+app.use((error: any, req: Request, res: Response, next: express.NextFunction) => {
+  if (error?.type === 'entity.parse.failed') {
+    return res.status(400).json(jsonRpcError(-32700, 'Parse error'));
+  }
+  next(error);
+});
 
-  console.log(`[HTTP-MCP] Recibido: ${message.method || 'sin método'}`);
+function isStreamRequest(req: Request): boolean {
+  return Boolean(req.headers.accept?.includes('text/event-stream'));
+}
 
-  // Validar JSON-RPC 2.0
-  if (!message.jsonrpc || message.jsonrpc !== '2.0') {
-    return res.status(400).json({
-      jsonrpc: '2.0',
-      id: message.id,
-      error: {
-        code: -32600,
-        message: 'Invalid Request: jsonrpc must be "2.0"'
-      }
-    });
+function jsonRpcError(code: number, message: string) {
+  return { jsonrpc: '2.0', id: null, error: { code, message } };
+}
+
+// Sesión indicada en la cabecera Mcp-Session-Id; responde 400/404 si falta o no existe
+function findSession(req: Request, res: Response): HttpSession | undefined {
+  const sessionId = req.headers['mcp-session-id'];
+  if (typeof sessionId !== 'string') {
+    res.status(400).json(jsonRpcError(-32000, 'Bad Request: Mcp-Session-Id header is required'));
+    return undefined;
   }
 
-  try {
-    // Initialize
-    if (message.method === 'initialize') {
-      const response = {
-        jsonrpc: '2.0',
-        id: message.id,
-        result: {
-          protocolVersion: '2024-11-05',
-          capabilities: {
-            tools: {},
-          },
-          serverInfo: {
-            name: process.env.MCP_SERVER_NAME || 'lapalma24-propiedades',
-            version: process.env.MCP_SERVER_VERSION || '1.0.0',
-          },
-        }
-      };
-
-      console.log(`[HTTP-MCP] Initialize OK`);
-      return res.json(response);
+  const session = sessions.get(sessionId);
+  if (!session || session.clientId !== req.auth?.clientId) {
+    if (session) {
+      log.warn('Sesión usada por otro cliente', { sessionId, owner: session.clientId });
     }
+    res.status(404).json(jsonRpcError(-32001, 'Session not found'));
+    return undefined;
+  }
 
-    // Notifications (no requieren respuesta)
-    if (message.method && message.method.startsWith('notifications/')) {
-      console.log(`[HTTP-MCP] Notificación: ${message.method}`);
-      // IMPORTANTE: Notificaciones deben devolver 202 Accepted
-      return res.status(202).end();
-    }
+  session.lastSeen = Date.now();
+  return session;
+}
 
-    // Tools list
-    if (message.method === 'tools/list') {
-      const response = {
-        jsonrpc: '2.0',
-        id: message.id,
-        result: { tools }
-      };
+// Crea transporte y servidor para una petición initialize sin sesión, en el idioma de su Accept-Language
+async function createSession(language: Language, clientId?: string): Promise<StreamableHTTPServerTransport> {
+  const server = createMcpServer(language);
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore: new MemoryEventStore(EVENT_STORE_MAX_EVENTS),
+    onsessioninitialized: sessionId => {
+      sessions.set(sessionId, { transport, server, lastSeen: Date.now(), clientId });
+      log.info('Sesión iniciada', { sessionId, activeSessions: sessions.size });
+    },
+  });
 
-      console.log(`[HTTP-MCP] Tools list: ${tools.length} herramientas`);
-      return res.json(response);
+  transport.onclose = () => {
+    if (transport.sessionId && sessions.delete(transport.sessionId)) {
+      log.info('Sesión cerrada', { sessionId: transport.sessionId });
     }
+  };
 
-    // Tools call
-    if (message.method === 'tools/call') {
-      const { name, arguments: args } = message.params;
+  await server.connect(transport);
+  return transport;
+}
 
-      console.log(`[HTTP-MCP] Ejecutando: ${name}`);
+// Cierre de sesiones inactivas
+const sweep = setInterval(() => {
+  const cutoff = Date.now() - HTTP_SESSION_IDLE_SECONDS * 1000;
+  for (const [sessionId, session] of sessions) {
+    if (session.lastSeen < cutoff) {
+      log.info('Sesión caducada por inactividad', { sessionId });
+      session.server.close().catch(() => undefined);
+    }
+  }
+}, Math.min(HTTP_SESSION_IDLE_SECONDS * 1000, 60_000));
+sweep.unref();
 
-      const result = await executeTool(name, args);
+const auth = requireAuth();
 
-      const response = {
-        jsonrpc: '2.0',
-        id: message.id,
-        result
-      };
+// Metadatos OAuth del recurso protegido, para que el cliente encuentre el servidor de autorización
+app.get(PROTECTED_RESOURCE_PATH, protectedResourceMetadata());
 
-      return res.json(response);
+// Endpoint raíz - MCP sobre HTTP: mensajes JSON-RPC (sueltos o en lote) del cliente
+app.post('/', originGuard(), auth, rateLimit('jsonrpc'), trackUsage(), async (req, res) => {
+  try {
+    if (req.headers['mcp-session-id'] !== undefined) {
+      const session = findSession(req, res);
+      if (session) {
+        await session.transport.handleRequest(req, res, req.body);
+      }
+      return;
     }
 
-    // Prompts list (vacío)
-    if (message.method === 'prompts/list') {
-      const response = {
-        jsonrpc: '2.0',
-        id: message.id,
-        result: { prompts: [] }
-      };
-
-      return res.json(response);
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+    if (!messages.some(message => isInitializeRequest(message))) {
+      return res.status(400).json(jsonRpcError(-32000, 'Bad Request: Mcp-Session-Id header is required'));
     }
 
-    // Resources list (vacío)
-    if (message.method === 'resources/list') {
-      const response = {
-        jsonrpc: '2.0',
-        id: message.id,
-        result: { resources: [] }
-      };
-
-      return res.json(response);
+    if (sessions.size >= HTTP_MAX_SESSIONS) {
+      log.error('Límite de sesiones alcanzado', { maxSessions: HTTP_MAX_SESSIONS });
+      return res.status(503).json(jsonRpcError(-32000, 'Too many active sessions, try again later'));
     }
 
-    // Método no encontrado
-    console.error(`[HTTP-MCP] Método desconocido: ${message.method}`);
+    const transport = await createSession(negotiateLanguage(req.headers['accept-language']), req.auth?.clientId);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    log.error('Error atendiendo la petición MCP', { error });
 
-    return res.json({
-      jsonrpc: '2.0',
-      id: message.id,
-      error: {
-        code: -32601,
-        message: `Method not found: ${message.method}`,
-      }
-    });
-
-  } catch (error: any) {
-    console.error(`[HTTP-MCP] Error:`, error);
-
-    return res.status(500).json({
-      jsonrpc: '2.0',
-      id: message.id,
-      error: {
-        code: -32603,
-        message: 'Internal error',
-        data: error.message
-      }
-    });
+    if (!res.headersSent) {
+      res.status(500).json(jsonRpcError(-32603, 'Internal error'));
+    }
   }
 });
 
-// Endpoint GET raíz - información
-app.get('/', (req, res) => {
+// Endpoint GET raíz - stream SSE de la sesión (con reanudación vía Last-Event-ID) o información (pública)
+app.get('/', originGuard(), (req, res, next) => (isStreamRequest(req) ? auth(req, res, next) : next()), async (req, res) => {
+  if (isStreamRequest(req)) {
+    const session = findSession(req, res);
+    if (session) {
+      await session.transport.handleRequest(req, res);
+    }
+    return;
+  }
+
   res.json({
     name: 'MCP Server - La Palma 24 Propiedades Vacacionales',
-    version: '1.0.0',
+    version: SERVER_VERSION,
     protocol: 'mcp',
-    transport: 'http',
-    protocolVersion: '2024-11-05',
+    transport: 'streamable-http',
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
     endpoints: {
       mcp: '/',
-      health: '/health'
+      health: '/health',
+      live: '/health/live',
+      ready: '/health/ready'
     },
-    tools: tools.map(t => ({
-      name: t.name,
-      description: t.description
+    tools: localizedTools(negotiateLanguage(req.headers['accept-language'])).map(tool => ({
+      name: tool.name,
+      description: tool.description
     }))
   });
 });
 
-// Health check
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+// Endpoint DELETE raíz - el cliente termina su sesión
+app.delete('/', originGuard(), auth, async (req, res) => {
+  const session = findSession(req, res);
+  if (session) {
+    await session.transport.handleRequest(req, res);
+  }
 });
 
-// Endpoint POST para ejecutar herramientas vía HTTP directo (sin MCP)
-app.post('/tools/:toolName', async (req, res) => {
-  const { toolName } = req.params;
-  const args = req.body;
+// Health check: estado general, liveness y readiness (comprueba el backend)
+app.use('/health', createHealthRouter());
 
-  try {
-    const tool = tools.find(t => t.name === toolName);
-    if (!tool) {
-      return res.status(404).json({
-        success: false,
-        error: `Herramienta no encontrada: ${toolName}`,
-        available: tools.map(t => t.name)
-      });
-    }
+// Administración de la caché, consumo por cliente y métricas Prometheus
+app.use('/cache', createCacheRouter());
+app.use('/usage', createUsageRouter());
+app.use('/metrics', createMetricsRouter());
 
-    const result = await executeTool(toolName, args);
-
-    // Si es error, devolver el contenido del error
-    if (result.isError) {
-      return res.status(500).json(JSON.parse(result.content[0].text));
-    }
+// Herramientas vía HTTP directo (sin MCP)
+app.use('/tools', createToolsRouter());
 
-    // Devolver el resultado parseado
-    res.json(JSON.parse(result.content[0].text));
-
-  } catch (error: any) {
-    res.status(500).json({
-      success: false,
-      error: error.message,
-      details: error.toString()
-    });
+// Express 5 pasa al callback los errores de arranque (puerto ocupado...)
+app.listen(PORT, (error) => {
+  if (error) {
+    log.error('No se pudo arrancar el servidor', { error, port: Number(PORT) });
+    process.exit(1);
   }
-});
-
-app.listen(PORT, () => {
-  console.log(`✅ Servidor MCP HTTP ejecutándose en puerto ${PORT}`);
-  console.log(`🌐 URL: http://localhost:${PORT}`);
-  console.log(`📡 MCP endpoint: http://localhost:${PORT}/`);
-  console.log(`🔧 Health check: http://localhost:${PORT}/health`);
-  console.log(`\n🛠️  Herramientas disponibles:`);
-  tools.forEach(tool => {
-    console.log(`   - ${tool.name}: ${tool.description}`);
+  log.info('Servidor MCP HTTP ejecutándose', {
+    port: Number(PORT),
+    url: `http://localhost:${PORT}/`,
+    protocol: `MCP Streamable HTTP (${LATEST_PROTOCOL_VERSION})`,
+    auth: AUTH_ENABLED,
+    tools: tools.map(tool => tool.name),
   });
-  console.log(`\nℹ️  Protocolo: MCP sobre HTTP (NO SSE)`);
-  console.log(`ℹ️  Para Claude: usa https://mcp.la-palma24.net/`);
+  if (!AUTH_ENABLED && NODE_ENV === 'production') {
+    log.warn('Sin autenticación: configura AUTH_CLIENTS_FILE u OAUTH_ISSUER');
+  }
 });
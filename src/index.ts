@@ -1,602 +1,247 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  Tool,
-} from '@modelcontextprotocol/sdk/types.js';
+import { JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
 import express from 'express';
 import cors from 'cors';
-import dotenv from 'dotenv';
-
-dotenv.config();
+import { loadStaticClients, protectedResourceMetadata, PROTECTED_RESOURCE_PATH, requireAuth } from './auth.js';
+import { createCacheRouter } from './cache-admin.js';
+import {
+  assertProductionConfig,
+  EVENT_STORE_MAX_EVENTS,
+  SHUTDOWN_TIMEOUT_SECONDS,
+  SSE_MAX_SESSIONS,
+  SSE_MAX_SESSIONS_PER_IP,
+  SSE_RECONNECT_SECONDS,
+  SSE_SESSION_IDLE_SECONDS,
+  SSE_SESSION_MAX_SECONDS,
+} from './config.js';
+import { createHealthRouter } from './health.js';
+import { negotiateLanguage } from './i18n.js';
+import { createLogger, requestContext } from './logger.js';
+import { CollectedMetric, createMetricsRouter, metrics } from './metrics.js';
+import { isOriginAllowed } from './origin.js';
+import { applyTrustProxy, rateLimit } from './rate-limit.js';
+import { createToolsRouter } from './rest.js';
+import { createMcpServer, SERVER_VERSION } from './server.js';
+import { SseSession, SseSessionLimitError, SseSessionStore } from './sse-sessions.js';
+import { localizedTools, tools } from './tools.js';
+import { createUsageRouter, trackUsage } from './usage.js';
 
-const API_BASE_URL = process.env.API_BASE_URL || 'https://admin.la-palma24.net';
-const API_KEY = process.env.API_KEY || 'demo_key_12345';
 const PORT = process.env.PORT || 3000;
 
-// Cliente HTTP simple
-async function apiCall(endpoint: string, params: Record<string, any> = {}, method: 'GET' | 'POST' = 'GET') {
-  const url = new URL(`${API_BASE_URL}${endpoint}`);
-  
-  const headers: Record<string, string> = {
-    'X-API-Key': API_KEY,
-    'Content-Type': 'application/json',
-  };
-
-  let requestInit: RequestInit = {
-    method,
-    headers,
-  };
-
-  if (method === 'GET' && Object.keys(params).length > 0) {
-    Object.keys(params).forEach(key => {
-      if (params[key] !== undefined && params[key] !== null) {
-        url.searchParams.append(key, String(params[key]));
-      }
-    });
-  } else if (method === 'POST') {
-    requestInit.body = JSON.stringify(params);
-  }
-
-  const response = await fetch(url.toString(), requestInit);
-  
-  if (!response.ok) {
-    throw new Error(`API Error: ${response.status} ${response.statusText}`);
-  }
-  
-  return await response.json();
-}
-
-// Definición de herramientas MCP
-const tools: Tool[] = [
-  {
-    name: 'buscar_disponibilidad',
-    description: 'Busca propiedades vacacionales disponibles en La Palma para unas fechas específicas. Permite filtrar por municipio, barrio y número de personas.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        fecha_llegada: {
-          type: 'string',
-          description: 'Fecha de llegada en formato YYYY-MM-DD (ej: 2024-06-15)',
-          pattern: '^\\d{4}-\\d{2}-\\d{2}$'
-        },
-        fecha_salida: {
-          type: 'string',
-          description: 'Fecha de salida en formato YYYY-MM-DD (ej: 2024-06-22)',
-          pattern: '^\\d{4}-\\d{2}-\\d{2}$'
-        },
-        num_personas: {
-          type: 'number',
-          description: 'Número de huéspedes (default: 2)',
-          minimum: 1
-        },
-        municipio: {
-          type: 'string',
-          description: 'Filtrar por municipio (ej: Santa Cruz de La Palma, Los Llanos de Aridane)'
-        },
-        barrio: {
-          type: 'string',
-          description: 'Filtrar por barrio/zona (ej: Centro, San Telmo, El Charco)'
-        }
-      },
-      required: ['fecha_llegada', 'fecha_salida']
-    }
-  },
-  {
-    name: 'obtener_detalles_propiedad',
-    description: 'Obtiene información completa de una propiedad específica: características, amenidades, ubicación, precios, fotos, descripciones en el idioma solicitado.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id_casa: {
-          type: 'string',
-          description: 'ID de la propiedad a consultar'
-        },
-        idioma: {
-          type: 'string',
-          description: 'Idioma para descripciones: es (español), en (inglés), de (alemán)',
-          enum: ['es', 'en', 'de'],
-          default: 'es'
-        }
-      },
-      required: ['id_casa']
-    }
-  },
-  {
-    name: 'calcular_precio_estancia',
-    description: 'Calcula el precio total de una estancia incluyendo tarifas por temporada, descuentos aplicables, número de noches y personas.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id_casa: {
-          type: 'string',
-          description: 'ID de la propiedad'
-        },
-        fecha_llegada: {
-          type: 'string',
-          description: 'Fecha de llegada en formato YYYY-MM-DD',
-          pattern: '^\\d{4}-\\d{2}-\\d{2}$'
-        },
-        fecha_salida: {
-          type: 'string',
-          description: 'Fecha de salida en formato YYYY-MM-DD',
-          pattern: '^\\d{4}-\\d{2}-\\d{2}$'
-        },
-        num_personas: {
-          type: 'number',
-          description: 'Número de huéspedes (default: 2)',
-          minimum: 1
-        }
-      },
-      required: ['id_casa', 'fecha_llegada', 'fecha_salida']
-    }
-  },
-  {
-    name: 'listar_propiedades',
-    description: 'Lista todas las propiedades vacacionales disponibles con filtros opcionales por ubicación, capacidad y características. Incluye paginación.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        municipio: {
-          type: 'string',
-          description: 'Filtrar por municipio'
-        },
-        barrio: {
-          type: 'string',
-          description: 'Filtrar por barrio/zona'
-        },
-        dormitorios: {
-          type: 'number',
-          description: 'Número de dormitorios',
-          minimum: 1
-        },
-        personas_max: {
-          type: 'number',
-          description: 'Capacidad mínima de personas',
-          minimum: 1
-        },
-        limit: {
-          type: 'number',
-          description: 'Número máximo de resultados (default: 50)',
-          minimum: 1,
-          maximum: 100,
-          default: 50
-        },
-        offset: {
-          type: 'number',
-          description: 'Offset para paginación (default: 0)',
-          minimum: 0,
-          default: 0
-        }
-      }
-    }
-  },
-  {
-    name: 'listar_municipios',
-    description: 'Obtiene la lista completa de municipios disponibles en La Palma donde hay propiedades. Útil para saber qué ubicaciones se pueden filtrar.',
-    inputSchema: {
-      type: 'object',
-      properties: {}
-    }
-  },
-  {
-    name: 'listar_barrios',
-    description: 'Obtiene la lista de barrios/zonas disponibles, opcionalmente filtrados por municipio. Útil para búsquedas más específicas de ubicación.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        municipio: {
-          type: 'string',
-          description: 'Filtrar barrios por municipio (ej: Santa Cruz de La Palma)'
-        }
-      }
-    }
-  }
-];
-
-// Crear servidor MCP
-const server = new Server(
-  {
-    name: process.env.MCP_SERVER_NAME || 'lapalma24-propiedades',
-    version: process.env.MCP_SERVER_VERSION || '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-// Handler para listar herramientas
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
+// Modo de ejecución
+const mode = process.argv[2];
 
-// Handler para ejecutar herramientas
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+if (mode === 'sse') {
+  const log = createLogger('sse');
 
   try {
-    let result;
-
-    switch (name) {
-      case 'buscar_disponibilidad':
-        result = await apiCall('/api/disponibilidad', args as any, 'POST');
-        break;
-
-      case 'obtener_detalles_propiedad':
-        const { id_casa, idioma = 'es' } = args as any;
-        result = await apiCall(`/api/propiedad/${id_casa}`, { idioma }, 'GET');
-        break;
-
-      case 'calcular_precio_estancia':
-        result = await apiCall('/api/calcular-precio', args as any, 'POST');
-        break;
-
-      case 'listar_propiedades':
-        result = await apiCall('/api/propiedades', args as any, 'GET');
-        break;
-
-      case 'listar_municipios':
-        result = await apiCall('/api/municipios', {}, 'GET');
-        break;
-
-      case 'listar_barrios':
-        result = await apiCall('/api/barrios', args as any, 'GET');
-        break;
-
-      default:
-        throw new Error(`Herramienta desconocida: ${name}`);
+    const warning = assertProductionConfig();
+    loadStaticClients();
+    if (warning) {
+      log.warn(warning);
     }
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
-  } catch (error: any) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: false,
-            error: error.message,
-            details: error.toString()
-          }, null, 2),
-        },
-      ],
-      isError: true,
-    };
+  } catch (error) {
+    log.error('Configuración no válida', { error });
+    process.exit(1);
   }
-});
 
-// Modo de ejecución
-const mode = process.argv[2];
-
-if (mode === 'sse') {
   // Servidor SSE con Express
   const app = express();
+  applyTrustProxy(app);
+  app.use(requestContext());
   
   app.use(cors({
-    origin: '*',
+    origin: (origin, callback) => callback(null, isOriginAllowed(origin)),
     methods: ['GET', 'POST', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'X-Session-Id'],
-    exposedHeaders: ['X-Session-Id'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-Id', 'X-Session-Id', 'Last-Event-ID'],
+    exposedHeaders: [
+      'X-Session-Id', 'X-Request-Id', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After', 'WWW-Authenticate',
+    ],
   }));
   app.use(express.json());
 
+  const auth = requireAuth();
+
+  // Metadatos OAuth del recurso protegido
+  app.get(PROTECTED_RESOURCE_PATH, protectedResourceMetadata());
+
   // Endpoint de información
   app.get('/', (req, res) => {
     res.json({
       name: 'MCP Server - La Palma 24 Propiedades Vacacionales',
-      version: '1.0.0',
+      version: SERVER_VERSION,
       protocol: 'mcp',
       transport: 'sse',
       endpoints: {
         sse: '/sse',
-        health: '/health'
+        health: '/health',
+        live: '/health/live',
+        ready: '/health/ready'
       },
-      tools: tools.map(t => ({
-        name: t.name,
-        description: t.description
+      tools: localizedTools(negotiateLanguage(req.headers['accept-language'])).map(tool => ({
+        name: tool.name,
+        description: tool.description
       }))
     });
   });
 
-  // Health check
-  app.get('/health', (req, res) => {
-    res.json({ status: 'ok', timestamp: new Date().toISOString() });
-  });
+  // Health check: estado general, liveness y readiness (comprueba el backend)
+  app.use('/health', createHealthRouter());
+
+  // Administración de la caché, consumo por cliente y métricas Prometheus
+  app.use('/cache', createCacheRouter());
+  app.use('/usage', createUsageRouter());
+  app.use('/metrics', createMetricsRouter());
+
+  // Herramientas vía HTTP directo (sin MCP)
+  app.use('/tools', createToolsRouter());
 
   // OPTIONS para CORS preflight en /message
   app.options('/message', (req, res) => {
     res.status(204).end();
   });
 
-  // Almacén de sesiones SSE
-  const sessions = new Map<string, any>();
-
-  // Endpoint SSE para recibir mensajes del servidor MCP
-  app.get('/sse', (req, res) => {
-    const sessionId = req.query.sessionId as string || Math.random().toString(36).substring(7);
-    
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'X-Session-Id': sessionId,
-      'X-Accel-Buffering': 'no',
-    });
+  // Sesiones SSE: id aleatorio ligado a la IP y al cliente, con límites y caducidad
+  const sessions = new SseSessionStore({
+    maxSessions: SSE_MAX_SESSIONS,
+    maxPerIp: SSE_MAX_SESSIONS_PER_IP,
+    idleMs: SSE_SESSION_IDLE_SECONDS * 1000,
+    maxAgeMs: SSE_SESSION_MAX_SECONDS * 1000,
+    reconnectMs: SSE_RECONNECT_SECONDS * 1000,
+    maxEvents: EVENT_STORE_MAX_EVENTS,
+    heartbeatMs: 30_000,
+  });
 
-    // Guardar la respuesta para esta sesión
-    sessions.set(sessionId, { res, connected: Date.now() });
-
-    // Evento endpoint - indica al cliente dónde enviar mensajes
-    res.write(`event: endpoint\n`);
-    res.write(`data: /message?sessionId=${sessionId}\n\n`);
-
-    // Evento connected - confirmación de conexión
-    res.write(`event: connected\n`);
-    res.write(`data: ${JSON.stringify({ 
-      status: 'connected', 
-      server: process.env.MCP_SERVER_NAME || 'lapalma24-mcp',
-      sessionId: sessionId,
-      timestamp: new Date().toISOString()
-    })}\n\n`);
-
-    // Heartbeat cada 30 segundos con eventos ping
-    const heartbeat = setInterval(() => {
-      try {
-        res.write(`event: ping\n`);
-        res.write(`data: ${JSON.stringify({ timestamp: new Date().toISOString() })}\n\n`);
-      } catch (error) {
-        clearInterval(heartbeat);
-      }
-    }, 30000);
+  metrics.register(new CollectedMetric(
+    'lapalma24_sse_sessions', 'Sesiones SSE activas', 'gauge', () => sessions.size
+  ));
+
+  const sweep = setInterval(
+    () => sessions.sweep(),
+    Math.min(SSE_SESSION_IDLE_SECONDS * 1000, SSE_RECONNECT_SECONDS * 1000, 60_000)
+  );
+  sweep.unref();
+
+  // Apagado en curso: no se aceptan streams ni mensajes nuevos
+  let draining = false;
+  // Endpoint SSE para recibir mensajes del servidor MCP. Con Last-Event-ID se reanuda la sesión
+  // de ese evento (misma IP y cliente) y se reenvían los mensajes que el cliente no recibió
+  app.get('/sse', auth, async (req, res) => {
+    if (draining) {
+      return res.status(503).json({ error: 'Server is shutting down' });
+    }
 
-    req.on('close', () => {
-      clearInterval(heartbeat);
-      sessions.delete(sessionId);
-      res.end();
-    });
+    const lastEventId = req.headers['last-event-id'];
+    if (typeof lastEventId === 'string' && await sessions.resume(req, res, lastEventId)) {
+      return;
+    }
+
+    let session: SseSession | undefined;
+    try {
+      session = sessions.open(req, res, negotiateLanguage(req.headers['accept-language']));
+      // Un servidor MCP por sesión, en el idioma del cliente, como en Streamable HTTP
+      await createMcpServer(session.language).connect(session.transport);
+    } catch (error) {
+      if (error instanceof SseSessionLimitError) {
+        log.warn('Límite de sesiones SSE alcanzado', { scope: error.scope, ip: req.ip });
+        return res.status(error.scope === 'ip' ? 429 : 503).json({ error: error.message });
+      }
+      log.error('No se pudo iniciar la sesión SSE', { error });
+      // Con el stream ya abierto no cabe un 500: se cierra la sesión avisando al cliente
+      if (res.headersSent) {
+        if (session) {
+          sessions.close(session, 'error');
+        }
+        return;
+      }
+      res.status(500).json({ error: 'Internal error' });
+    }
   });
 
-  // Endpoint para recibir mensajes JSON-RPC del cliente
-  app.post('/message', async (req, res) => {
+  // Endpoint para recibir mensajes JSON-RPC del cliente: se validan y pasan al servidor MCP de la
+  // sesión, que responde por el stream SSE
+  app.post('/message', auth, rateLimit('jsonrpc'), trackUsage(), (req, res) => {
+    if (draining) {
+      return res.status(503).json({ error: 'Server is shutting down' });
+    }
+
     const sessionId = req.query.sessionId as string || req.headers['x-session-id'] as string;
-    
+
     if (!sessionId) {
       return res.status(400).json({ error: 'Missing sessionId' });
     }
 
-    const session = sessions.get(sessionId);
+    // Solo la conexión (IP y cliente) que abrió la sesión puede enviar mensajes a ella
+    const session = sessions.find(sessionId, req);
     if (!session) {
       return res.status(404).json({ error: 'Session not found' });
     }
 
-    const sseResponse = session.res;
+    const message = JSONRPCMessageSchema.safeParse(req.body);
+    if (!message.success) {
+      return res.status(400).json({ error: 'Invalid JSON-RPC message' });
+    }
 
-    try {
-      const message = req.body;
-      
-      // Validar formato JSON-RPC
-      if (!message.jsonrpc || message.jsonrpc !== '2.0') {
-        return res.status(400).json({ error: 'Invalid JSON-RPC version' });
-      }
+    session.transport.receive(message.data, { authInfo: req.auth, requestInfo: { headers: req.headers } });
 
-      console.log(`[${sessionId}] Recibido: ${message.method}`);
-      
-      // Procesar mensaje según el método
-      if (message.method === 'tools/list') {
-        const response = {
-          jsonrpc: '2.0',
-          id: message.id,
-          result: { tools }
-        };
-        
-        sseResponse.write(`event: message\n`);
-        sseResponse.write(`data: ${JSON.stringify(response)}\n\n`);
-        
-      } else if (message.method === 'tools/call') {
-        const { name, arguments: args } = message.params;
-        
-        let result;
-        try {
-          switch (name) {
-            case 'buscar_disponibilidad':
-              result = await apiCall('/api/disponibilidad', args as any, 'POST');
-              break;
-            case 'obtener_detalles_propiedad':
-              const { id_casa, idioma = 'es' } = args as any;
-              result = await apiCall(`/api/propiedad/${id_casa}`, { idioma }, 'GET');
-              break;
-            case 'calcular_precio_estancia':
-              result = await apiCall('/api/calcular-precio', args as any, 'POST');
-              break;
-            case 'listar_propiedades':
-              result = await apiCall('/api/propiedades', args as any, 'GET');
-              break;
-            case 'listar_municipios':
-              result = await apiCall('/api/municipios', {}, 'GET');
-              break;
-            case 'listar_barrios':
-              result = await apiCall('/api/barrios', args as any, 'GET');
-              break;
-            default:
-              throw new Error(`Herramienta desconocida: ${name}`);
-          }
-
-          const response = {
-            jsonrpc: '2.0',
-            id: message.id,
-            result: {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(result, null, 2),
-                },
-              ],
-            }
-          };
-
-          sseResponse.write(`event: message\n`);
-          sseResponse.write(`data: ${JSON.stringify(response)}\n\n`);
-
-        } catch (error: any) {
-          const errorResponse = {
-            jsonrpc: '2.0',
-            id: message.id,
-            error: {
-              code: -32603,
-              message: error.message,
-            }
-          };
-
-          sseResponse.write(`event: message\n`);
-          sseResponse.write(`data: ${JSON.stringify(errorResponse)}\n\n`);
-        }
-      } else if (message.method === 'initialize') {
-        const response = {
-          jsonrpc: '2.0',
-          id: message.id,
-          result: {
-            protocolVersion: '2024-11-05',
-            capabilities: {
-              tools: {},
-            },
-            serverInfo: {
-              name: process.env.MCP_SERVER_NAME || 'lapalma24-propiedades',
-              version: process.env.MCP_SERVER_VERSION || '1.0.0',
-            },
-          }
-        };
-
-        sseResponse.write(`event: message\n`);
-        sseResponse.write(`data: ${JSON.stringify(response)}\n\n`);
-        
-        console.log(`[${sessionId}] Inicializado correctamente`);
-        
-      } else if (message.method === 'notifications/initialized') {
-        // Notificación de que el cliente ha completado la inicialización
-        // No requiere respuesta, pero podemos loguearlo
-        console.log(`[${sessionId}] Cliente notificó inicialización completa`);
-        
-      } else if (message.method && message.method.startsWith('notifications/')) {
-        // Otras notificaciones - no requieren respuesta
-        console.log(`[${sessionId}] Notificación recibida: ${message.method}`);
-        
-      } else if (message.method) {
-        // Método desconocido - solo responder si tiene ID
-        if (message.id !== undefined) {
-          const errorResponse = {
-            jsonrpc: '2.0',
-            id: message.id,
-            error: {
-              code: -32601,
-              message: `Method not found: ${message.method}`,
-            }
-          };
-
-          sseResponse.write(`event: message\n`);
-          sseResponse.write(`data: ${JSON.stringify(errorResponse)}\n\n`);
-        }
-        
-        console.error(`[${sessionId}] Método desconocido: ${message.method}`);
-      }
-
-      // Responder OK al cliente HTTP (202 = Accepted para procesamiento asíncrono)
-      res.status(202).json({ status: 'accepted' });
+    // 202 = Accepted: la respuesta llega por el stream
+    res.status(202).json({ status: 'accepted' });
+  });
 
-    } catch (error: any) {
-      res.status(500).json({ error: error.message });
+  // Express 5 pasa al callback los errores de arranque (puerto ocupado...)
+  const httpServer = app.listen(PORT, (error) => {
+    if (error) {
+      log.error('No se pudo arrancar el servidor', { error, port: Number(PORT) });
+      process.exit(1);
     }
+    log.info('Servidor MCP con SSE ejecutándose', {
+      port: Number(PORT),
+      url: `http://localhost:${PORT}/sse`,
+      tools: tools.map(tool => tool.name),
+    });
   });
 
-  // Endpoint POST para ejecutar herramientas vía HTTP
-  app.post('/tools/:toolName', async (req, res) => {
-    const { toolName } = req.params;
-    const args = req.body;
+  // Apagado ordenado: deja de aceptar conexiones, avisa a los streams abiertos, espera a las
+  // peticiones en curso (hasta SHUTDOWN_TIMEOUT_SECONDS) y cierra las sesiones
+  async function shutdown(signal: string) {
+    if (draining) {
+      return;
+    }
+    draining = true;
+    log.info('Apagando el servidor', { signal, activeSessions: sessions.size, inFlight: sessions.inFlight });
 
-    try {
-      const tool = tools.find(t => t.name === toolName);
-      if (!tool) {
-        return res.status(404).json({
-          success: false,
-          error: `Herramienta no encontrada: ${toolName}`,
-          available: tools.map(t => t.name)
-        });
-      }
+    const deadline = Date.now() + SHUTDOWN_TIMEOUT_SECONDS * 1000;
+    setTimeout(() => {
+      log.warn('Apagado forzado: peticiones sin terminar', { inFlight: sessions.inFlight });
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_SECONDS * 1000 + 1000).unref();
 
-      // Simular la llamada del handler
-      const request = {
-        params: {
-          name: toolName,
-          arguments: args
-        }
-      };
-
-      let result;
-      switch (toolName) {
-        case 'buscar_disponibilidad':
-          result = await apiCall('/api/disponibilidad', args, 'POST');
-          break;
-        case 'obtener_detalles_propiedad':
-          const { id_casa, idioma = 'es' } = args;
-          result = await apiCall(`/api/propiedad/${id_casa}`, { idioma }, 'GET');
-          break;
-        case 'calcular_precio_estancia':
-          result = await apiCall('/api/calcular-precio', args, 'POST');
-          break;
-        case 'listar_propiedades':
-          result = await apiCall('/api/propiedades', args, 'GET');
-          break;
-        case 'listar_municipios':
-          result = await apiCall('/api/municipios', {}, 'GET');
-          break;
-        case 'listar_barrios':
-          result = await apiCall('/api/barrios', args, 'GET');
-          break;
-        default:
-          throw new Error(`Herramienta desconocida: ${toolName}`);
-      }
+    clearInterval(sweep);
+    httpServer.close();
+    sessions.broadcast('shutdown', { reason: 'server_shutdown', timestamp: new Date().toISOString() });
 
-      res.json(result);
-    } catch (error: any) {
-      res.status(500).json({
-        success: false,
-        error: error.message,
-        details: error.toString()
-      });
+    while (sessions.inFlight > 0 && Date.now() < deadline) {
+      await new Promise(r => setTimeout(r, 50));
     }
-  });
+    sessions.closeAll('server_shutdown');
+    process.exit(0);
+  }
 
-  app.listen(PORT, () => {
-    console.log(`✅ Servidor MCP con SSE ejecutándose en puerto ${PORT}`);
-    console.log(`🌐 URL: http://localhost:${PORT}`);
-    console.log(`📡 SSE endpoint: http://localhost:${PORT}/sse`);
-    console.log(`🔧 Health check: http://localhost:${PORT}/health`);
-    console.log(`\n🛠️  Herramientas disponibles:`);
-    tools.forEach(tool => {
-      console.log(`   - ${tool.name}: ${tool.description}`);
-    });
-  });
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+  process.once('SIGINT', () => void shutdown('SIGINT'));
 
 } else {
   // Modo stdio (para uso local con MCP inspector)
+  const log = createLogger('stdio');
+
   async function main() {
     const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error('Servidor MCP iniciado en modo stdio');
+    await createMcpServer().connect(transport);
+    log.info('Servidor MCP iniciado en modo stdio');
   }
 
   main().catch((error) => {
-    console.error('Error fatal:', error);
+    log.error('Error fatal', { error });
     process.exit(1);
   });
 }
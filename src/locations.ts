@@ -0,0 +1,193 @@
+import { apiCall } from './api.js';
+import { Language, t } from './i18n.js';
+import { createLogger } from './logger.js';
+import { BarriosResponse, MunicipiosResponse, ResolvedLocation } from './models.js';
+import { normalizeName } from './places.js';
+import { ToolArgs } from './tool-definition.js';
+import { ToolValidationError, ValidationIssue } from './validation.js';
+
+// Resolución de municipio y barrio: el backend solo filtra por el nombre exacto, así que los
+// nombres escritos se buscan aquí en /api/municipios y /api/barrios (sin tildes ni mayúsculas,
+// con alias y tolerando erratas u otro orden de palabras) y se envía el nombre canónico.
+
+// Otros nombres de cada municipio y barrio; solo se usan si el backend tiene el nombre canónico
+const MUNICIPIO_ALIASES: Record<string, string[]> = {
+  'Santa Cruz de La Palma': ['S/C de La Palma', 'SC de La Palma', 'capital'],
+  'Los Llanos de Aridane': ['Aridane', 'Ciudad de Los Llanos'],
+  'Villa de Mazo': ['Mazo'],
+  'San Andrés y Sauces': ['Los Sauces', 'San Andrés'],
+  'Fuencaliente': ['Fuencaliente de La Palma', 'Los Canarios'],
+  'Garafía': ['Santo Domingo', 'Santo Domingo de Garafía'],
+  'Breña Baja': ['San José'],
+  'Breña Alta': ['San Pedro'],
+  'Tazacorte': ['Villa de Tazacorte'],
+};
+
+const BARRIO_ALIASES: Record<string, string[]> = {
+  'Puerto de Tazacorte': ['Tazacorte Puerto', 'Puerto Tazacorte', 'El Puerto de Tazacorte'],
+  'Los Cancajos': ['Cancajos', 'Playa de Los Cancajos'],
+  'Puerto Naos': ['Playa de Puerto Naos'],
+  'Centro': ['Casco', 'Casco histórico', 'Centro histórico'],
+};
+
+// Palabras que no distinguen un nombre de otro
+const STOPWORDS = new Set(['de', 'del', 'la', 'las', 'el', 'los', 'y']);
+
+// Puntuación mínima para dar un nombre por bueno, y diferencia mínima con el segundo
+const MATCH_SCORE = 0.8;
+const AMBIGUITY_MARGIN = 0.05;
+const SUGGESTION_SCORE = 0.5;
+const MAX_SUGGESTIONS = 3;
+
+interface Candidate {
+  nombre: string;
+  // Texto de la sugerencia (el barrio lleva su municipio)
+  label: string;
+}
+
+function tokens(value: string): string[] {
+  return normalizeName(value).replace(/[^a-z0-9 ]/g, ' ').split(' ').filter(t => t && !STOPWORDS.has(t));
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  return a === b ? 1 : 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+// Parecido entre 0 y 1: texto completo o palabra a palabra (en cualquier orden, admitiendo
+// abreviaturas y erratas), con una pequeña penalización por las palabras del nombre no escritas
+function score(query: string, name: string): number {
+  const queryTokens = tokens(query);
+  const nameTokens = tokens(name);
+  const whole = similarity(queryTokens.join(' '), nameTokens.join(' '));
+  if (queryTokens.length === 0 || nameTokens.length === 0) {
+    return whole;
+  }
+
+  const used = new Set<string>();
+  const coverage = queryTokens.reduce((sum, q) => {
+    let best = 0;
+    for (const n of nameTokens) {
+      const s = q.length >= 3 && n.startsWith(q) ? Math.max(0.95, similarity(q, n)) : similarity(q, n);
+      if (s >= MATCH_SCORE) {
+        used.add(n);
+      }
+      best = Math.max(best, s);
+    }
+    return sum + best;
+  }, 0) / queryTokens.length;
+
+  return Math.max(whole, coverage * (0.85 + 0.15 * (used.size / nameTokens.length)));
+}
+
+function ranked(query: string, candidates: Candidate[], aliases: Record<string, string[]>) {
+  return candidates
+    .map(candidate => ({
+      candidate,
+      score: Math.max(score(query, candidate.nombre), ...(aliases[candidate.nombre] ?? []).map(alias => score(query, alias))),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Nombre canónico del candidato que corresponde a `query`, o un error con sugerencias si no hay
+// ninguno claro
+function resolveName(
+  field: string,
+  query: string,
+  candidates: Candidate[],
+  aliases: Record<string, string[]>,
+  language: Language
+): string | ValidationIssue {
+  const exact = candidates.find(c => normalizeName(c.nombre) === normalizeName(query));
+  if (exact) {
+    return exact.nombre;
+  }
+
+  const matches = ranked(query, candidates, aliases);
+  const [best, second] = matches;
+  if (best && best.score >= MATCH_SCORE && (!second || best.score - second.score >= AMBIGUITY_MARGIN)) {
+    return best.candidate.nombre;
+  }
+
+  const suggestions = matches.filter(m => m.score >= SUGGESTION_SCORE).slice(0, MAX_SUGGESTIONS).map(m => m.candidate.label);
+  if (best && best.score >= MATCH_SCORE) {
+    return { field, message: t(language, 'issue.ambiguousName', { name: query, suggestions: suggestions.join(', ') }) };
+  }
+  return {
+    field,
+    message: suggestions.length > 0
+      ? t(language, 'issue.unknownName', { field, name: query, suggestions: suggestions.join(', ') })
+      : t(language, 'issue.unknownNameSeeList', { field, name: query, tool: `listar_${field === 'municipio' ? 'municipios' : 'barrios'}` }),
+  };
+}
+
+function uniqueByName(candidates: Candidate[]): Candidate[] {
+  return candidates.filter((candidate, i) => candidates.findIndex(c => c.nombre === candidate.nombre) === i);
+}
+
+// Sustituye municipio y barrio por sus nombres canónicos. Lanza ToolValidationError si alguno
+// es desconocido o ambiguo; si el backend no devuelve las listas se usan tal cual.
+export async function resolveLocation(
+  toolName: string,
+  args: ToolArgs,
+  language: Language
+): Promise<{ args: ToolArgs; ubicacion?: ResolvedLocation }> {
+  if (typeof args.municipio !== 'string' && typeof args.barrio !== 'string') {
+    return { args };
+  }
+
+  let municipios: MunicipiosResponse;
+  let barrios: BarriosResponse | undefined;
+  try {
+    municipios = await apiCall('/api/municipios') as MunicipiosResponse;
+    if (typeof args.barrio === 'string') {
+      barrios = await apiCall('/api/barrios') as BarriosResponse;
+    }
+  } catch (error) {
+    createLogger('backend').error('No se pudieron resolver municipio/barrio', { error });
+    return { args };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const ubicacion: ResolvedLocation = {};
+
+  if (typeof args.municipio === 'string') {
+    const candidates = municipios.municipios.map(m => ({ nombre: m.nombre, label: m.nombre }));
+    const resolved = resolveName('municipio', args.municipio, candidates, MUNICIPIO_ALIASES, language);
+    if (typeof resolved === 'string') {
+      ubicacion.municipio = resolved;
+    } else {
+      issues.push(resolved);
+    }
+  }
+
+  if (barrios && typeof args.barrio === 'string') {
+    const candidates = uniqueByName(
+      barrios.barrios
+        .filter(b => !ubicacion.municipio || b.municipio === ubicacion.municipio)
+        .map(b => ({ nombre: b.nombre, label: `${b.nombre} (${b.municipio})` }))
+    );
+    const resolved = resolveName('barrio', args.barrio, candidates, BARRIO_ALIASES, language);
+    if (typeof resolved === 'string') {
+      ubicacion.barrio = resolved;
+    } else {
+      issues.push(resolved);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ToolValidationError(toolName, issues);
+  }
+  return { args: { ...args, ...ubicacion }, ubicacion };
+}
@@ -0,0 +1,125 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { LOG_FORMAT, LOG_LEVEL } from './config.js';
+
+// Logs estructurados (una línea JSON por evento, o texto legible con LOG_FORMAT=text) con el
+// contexto de la petición en curso: id de petición, sesión y cliente. Se escriben en stderr para
+// no mezclarse con el protocolo en modo stdio.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const minLevel = LEVELS[LOG_LEVEL as LogLevel] ?? LEVELS.info;
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+export interface RequestContext {
+  requestId: string;
+  sessionId?: string;
+  clientId?: string;
+}
+
+const contextStorage = new AsyncLocalStorage<RequestContext>();
+
+export function currentContext(): RequestContext | undefined {
+  return contextStorage.getStore();
+}
+
+// Ejecuta `fn` con el contexto actual ampliado con `fields` (o uno nuevo si no hay ninguno)
+export function runWithContext<T>(fields: Partial<RequestContext>, fn: () => T): T {
+  const current = contextStorage.getStore();
+  const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+  return contextStorage.run({ requestId: current?.requestId ?? randomUUID(), ...current, ...defined }, fn);
+}
+
+// Completa el contexto de la petición en curso (ej. el cliente, una vez autenticado)
+export function annotateContext(fields: Partial<Omit<RequestContext, 'requestId'>>): void {
+  const current = contextStorage.getStore();
+  if (current) {
+    Object.assign(current, fields);
+  }
+}
+
+// Los errores se registran por su mensaje
+function errorMessage(key: string, value: unknown): unknown {
+  return value instanceof Error ? value.message : value;
+}
+
+function write(level: LogLevel, component: string, message: string, fields?: Record<string, unknown>): void {
+  if (LEVELS[level] < minLevel) {
+    return;
+  }
+
+  const entry: Record<string, unknown> = {
+    time: new Date().toISOString(),
+    level,
+    component,
+    msg: message,
+    ...contextStorage.getStore(),
+    ...fields,
+  };
+
+  let line: string;
+  if (LOG_FORMAT === 'text') {
+    const { time, level: _level, component: _component, msg: _msg, ...rest } = entry;
+    const extra = Object.entries(rest)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value, errorMessage)}`);
+    line = [time, level.toUpperCase(), `[${component}]`, message, ...extra].join(' ');
+  } else {
+    line = JSON.stringify(entry, errorMessage);
+  }
+  process.stderr.write(`${line}\n`);
+}
+
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+// Logger de un componente (backend, http, sse, auth...)
+export function createLogger(component: string): Logger {
+  return {
+    debug: (message, fields) => write('debug', component, message, fields),
+    info: (message, fields) => write('info', component, message, fields),
+    warn: (message, fields) => write('warn', component, message, fields),
+    error: (message, fields) => write('error', component, message, fields),
+  };
+}
+
+const httpLog = createLogger('http');
+
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+function sessionOf(req: Request): string | undefined {
+  const header = req.headers['mcp-session-id'];
+  const query = req.query.sessionId;
+  return typeof header === 'string' ? header : typeof query === 'string' ? query : undefined;
+}
+
+// Asigna a cada petición un id (el de X-Request-Id si es válido), lo devuelve en la respuesta,
+// lo deja en el contexto de los logs y registra la petición al terminar
+export function requestContext(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers['x-request-id'];
+    const requestId = typeof header === 'string' && VALID_REQUEST_ID.test(header) ? header : randomUUID();
+    const started = performance.now();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    const context: RequestContext = { requestId, sessionId: sessionOf(req) };
+    // Los eventos de la respuesta no heredan el contexto: se restablece para el log final
+    res.on('close', () => contextStorage.run(context, () => {
+      httpLog.info('Petición atendida', {
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Math.round(performance.now() - started),
+      });
+    }));
+    contextStorage.run(context, next);
+  };
+}
@@ -0,0 +1,511 @@
+import type { Language } from './i18n.js';
+
+// Catálogo de textos por idioma. Claves:
+//   error.*                            mensajes de error (en los tres idiomas)
+//   issue.*                            problemas de validación de un campo (en los tres idiomas)
+//   booking.*                          textos de las solicitudes de reserva (en los tres idiomas)
+//   render.*                           textos de los resultados en Markdown y compactos (en los tres idiomas);
+//                                      .one/.other son las formas en singular y plural
+//   tool.<herramienta>.description     descripción de una herramienta
+//   param.<parámetro>                  descripción de un parámetro, común a todas las herramientas
+//   tool.<herramienta>.param.<nombre>  descripción propia de un parámetro en una herramienta
+//   prompt.<prompt>.title/.description y prompt.arg.<argumento> / prompt.<prompt>.arg.<argumento>
+// Las descripciones en español están en el registro (tools.ts, prompts.ts) y no se repiten aquí.
+// {nombre} se sustituye por el valor correspondiente; en los parámetros, por los del esquema (ej: {maximum}).
+
+export const messages: Record<Language, Record<string, string>> = {
+  es: {
+    'error.unknownTool': 'Herramienta desconocida: {name}',
+    'error.toolNotFound': 'Herramienta no encontrada: {name}',
+    'error.invalidArguments': 'Argumentos inválidos',
+    'error.unexpectedResponse': 'Respuesta inesperada del backend',
+    'error.unknownPrompt': 'Prompt desconocido: {name}',
+    'error.missingPromptArguments': 'Faltan argumentos obligatorios para {name}: {arguments}',
+    'error.unsupportedLanguage': 'Idioma no soportado: {language} (usa {languages})',
+    'error.resourceNotFound': 'Recurso no encontrado: {uri}',
+    'error.insufficientScope': 'Permisos insuficientes para {name}: se necesita el scope {scope}',
+    'error.backendUnavailable': 'Backend no disponible temporalmente. Reintenta en {seconds}s',
+    'error.notFound': 'No encontrado en el backend',
+    'error.propertyNotFound': 'Propiedad no encontrada',
+    'error.backendRejected': 'El backend ha rechazado la petición (HTTP {status})',
+    'error.backendRateLimited': 'El backend está recibiendo demasiadas peticiones. Reintenta más tarde',
+    'error.backendError': 'Error del backend (HTTP {status})',
+    'error.backendUnreachable': 'No se pudo conectar con el backend',
+
+    // Problemas de validación de un campo
+    'issue.type': 'debe ser de tipo {type}',
+    'issue.or': 'o',
+    'issue.enum': 'debe ser uno de: {values}',
+    'issue.minLength': 'debe tener al menos {min} caracteres',
+    'issue.maxLength': 'debe tener como máximo {max} caracteres',
+    'issue.pattern': 'no cumple el formato {pattern}',
+    'issue.invalidDate': 'no es una fecha válida: {value}',
+    'issue.minimum': 'debe ser mayor o igual que {min}',
+    'issue.maximum': 'debe ser menor o igual que {max}',
+    'issue.minItems': 'debe tener al menos {min} elementos',
+    'issue.maxItems': 'debe tener como máximo {max} elementos',
+    'issue.required': 'es obligatorio',
+    'issue.notAllowed': 'parámetro no admitido',
+    'issue.pastDate': 'no puede ser una fecha pasada',
+    'issue.pastMonth': 'no puede ser un mes pasado',
+    'issue.after': 'debe ser posterior a {field}',
+    'issue.maxStay': 'la estancia no puede superar {max} noches',
+    'issue.maxStayRequested': 'la estancia no puede superar {max} noches ({nights} solicitadas)',
+    'issue.maxWindow': 'la ventana no puede superar {max} días ({days} solicitados)',
+    'issue.windowShorterThanStay': 'la ventana es más corta que la estancia mínima ({min} noches)',
+    'issue.exclusive': 'usa {first} o {second}, no ambos',
+    'issue.otherDateRequired': 'es obligatoria si se indica la otra fecha',
+    'issue.otherCoordinateRequired': 'es obligatoria si se indica la otra coordenada',
+    'issue.calendarPeriod': 'indica mes o fecha_desde y fecha_hasta',
+    'issue.requiresReference': 'requiere cerca_de o latitud/longitud',
+    'issue.distanceRequiresReference': 'distancia requiere cerca_de o latitud/longitud',
+    'issue.unknownPlace': 'lugar desconocido: {place}. ¿Quizás {suggestions}?',
+    'issue.unknownPlaceUseCoordinates': 'lugar desconocido: {place}. Usa latitud/longitud para otros lugares',
+    'issue.ambiguousName': 'nombre ambiguo: {name}. ¿Quieres decir {suggestions}?',
+    'issue.unknownName': '{field} desconocido: {name}. ¿Quizás {suggestions}?',
+    'issue.unknownNameSeeList': '{field} desconocido: {name}. Consulta {tool}',
+    'issue.cursorMismatch': 'no es válido para esta búsqueda; repite la búsqueda sin cursor',
+    'issue.cursorInvalid': 'no es válido; usa el next_cursor de la respuesta anterior',
+    'issue.tokenInvalid': 'no es válido para estos datos de reserva',
+    'issue.tokenExpired': 'ha caducado, vuelve a solicitar la reserva sin token',
+    'issue.tokenUsed': 'ya se ha usado',
+
+    // Solicitudes de reserva
+    'booking.unavailable': 'La propiedad no está disponible para esas fechas',
+    'booking.confirmWithToken': 'Muestra el presupuesto al usuario y, si lo confirma, repite la llamada con los mismos datos y token_confirmacion',
+    'booking.priceChanged': 'El precio ha cambiado (antes {price} {currency}); confirma de nuevo con el usuario y usa el nuevo token',
+    'booking.sent': 'Solicitud enviada; el propietario confirmará la reserva por email',
+    'booking.notConfirmed': 'El usuario no ha confirmado la solicitud; no se ha enviado nada',
+    'booking.summary': 'Solicitud de reserva de {id}',
+    'booking.summaryStay': '{arrival} → {departure} ({nights} noches, {guests} personas)',
+    'booking.summaryPrice': 'Precio total: {price} {currency}',
+    'booking.summaryGuest': 'A nombre de {name} <{email}>',
+    'booking.summaryPhone': 'tel. {phone}',
+    'booking.summaryNotes': 'Notas: {notes}',
+    'booking.confirmQuestion': '¿Confirmas el envío de la solicitud?',
+    'booking.confirmField': 'Enviar la solicitud de reserva',
+
+    // Resultados en Markdown y compactos
+    'render.available.one': '{count} propiedad disponible',
+    'render.available.other': '{count} propiedades disponibles',
+    'render.listed': 'Propiedades {from}–{to} de {total}',
+    'render.nextPage': 'Página siguiente: cursor `{cursor}`',
+    'render.truncated': 'Listado incompleto: se alcanzó el límite de páginas consultadas.',
+    'render.noResults': 'Sin resultados.',
+    'render.night': 'noche',
+    'render.nights.one': '{count} noche',
+    'render.nights.other': '{count} noches',
+    'render.guests.one': '{count} persona',
+    'render.guests.other': '{count} personas',
+    'render.bedrooms.one': '{count} dormitorio',
+    'render.bedrooms.other': '{count} dormitorios',
+    'render.bathrooms.one': '{count} baño',
+    'render.bathrooms.other': '{count} baños',
+    'render.property': 'Propiedad',
+    'render.location': 'Ubicación',
+    'render.capacity': 'Capacidad',
+    'render.perNight': 'Precio/noche',
+    'render.total': 'Total',
+    'render.arrival': 'Llegada',
+    'render.departure': 'Salida',
+    'render.subtotal': 'Subtotal',
+    'render.discount': 'Descuento',
+    'render.cleaning': 'Limpieza',
+    'render.tax': '{name} incluido ({rate} %)',
+    'render.deposit': 'Fianza (reembolsable, no incluida)',
+    'render.exchangeRate': 'Tipo de cambio: {rate} ({date})',
+    'render.amenities': 'Amenidades',
+    'render.photos': 'Fotos',
+    'render.isAvailable': 'Disponible',
+    'render.notAvailable': 'No disponible',
+    'render.flexible': '{shown} mejores combinaciones ({queried} de {possible} fechas consultadas)',
+  },
+
+  en: {
+    'error.unknownTool': 'Unknown tool: {name}',
+    'error.toolNotFound': 'Tool not found: {name}',
+    'error.invalidArguments': 'Invalid arguments',
+    'error.unexpectedResponse': 'Unexpected response from the backend',
+    'error.unknownPrompt': 'Unknown prompt: {name}',
+    'error.missingPromptArguments': 'Missing required arguments for {name}: {arguments}',
+    'error.unsupportedLanguage': 'Unsupported language: {language} (use {languages})',
+    'error.resourceNotFound': 'Resource not found: {uri}',
+    'error.insufficientScope': 'Insufficient permissions for {name}: scope {scope} is required',
+    'error.backendUnavailable': 'Backend temporarily unavailable. Retry in {seconds}s',
+    'error.notFound': 'Not found in the backend',
+    'error.propertyNotFound': 'Property not found',
+    'error.backendRejected': 'The backend rejected the request (HTTP {status})',
+    'error.backendRateLimited': 'The backend is receiving too many requests. Retry later',
+    'error.backendError': 'Backend error (HTTP {status})',
+    'error.backendUnreachable': 'Could not connect to the backend',
+
+    // Problemas de validación de un campo
+    'issue.type': 'must be of type {type}',
+    'issue.or': 'or',
+    'issue.enum': 'must be one of: {values}',
+    'issue.minLength': 'must be at least {min} characters long',
+    'issue.maxLength': 'must be at most {max} characters long',
+    'issue.pattern': 'does not match the format {pattern}',
+    'issue.invalidDate': 'is not a valid date: {value}',
+    'issue.minimum': 'must be greater than or equal to {min}',
+    'issue.maximum': 'must be less than or equal to {max}',
+    'issue.minItems': 'must have at least {min} items',
+    'issue.maxItems': 'must have at most {max} items',
+    'issue.required': 'is required',
+    'issue.notAllowed': 'parameter not allowed',
+    'issue.pastDate': 'cannot be a past date',
+    'issue.pastMonth': 'cannot be a past month',
+    'issue.after': 'must be after {field}',
+    'issue.maxStay': 'the stay cannot exceed {max} nights',
+    'issue.maxStayRequested': 'the stay cannot exceed {max} nights ({nights} requested)',
+    'issue.maxWindow': 'the window cannot exceed {max} days ({days} requested)',
+    'issue.windowShorterThanStay': 'the window is shorter than the minimum stay ({min} nights)',
+    'issue.exclusive': 'use {first} or {second}, not both',
+    'issue.otherDateRequired': 'is required when the other date is given',
+    'issue.otherCoordinateRequired': 'is required when the other coordinate is given',
+    'issue.calendarPeriod': 'give mes or fecha_desde and fecha_hasta',
+    'issue.requiresReference': 'requires cerca_de or latitud/longitud',
+    'issue.distanceRequiresReference': 'distancia requires cerca_de or latitud/longitud',
+    'issue.unknownPlace': 'unknown place: {place}. Did you mean {suggestions}?',
+    'issue.unknownPlaceUseCoordinates': 'unknown place: {place}. Use latitud/longitud for other places',
+    'issue.ambiguousName': 'ambiguous name: {name}. Did you mean {suggestions}?',
+    'issue.unknownName': 'unknown {field}: {name}. Did you mean {suggestions}?',
+    'issue.unknownNameSeeList': 'unknown {field}: {name}. See {tool}',
+    'issue.cursorMismatch': 'is not valid for this search; repeat the search without a cursor',
+    'issue.cursorInvalid': 'is not valid; use next_cursor from the previous response',
+    'issue.tokenInvalid': 'is not valid for these booking details',
+    'issue.tokenExpired': 'has expired; request the booking again without a token',
+    'issue.tokenUsed': 'has already been used',
+
+    // Solicitudes de reserva
+    'booking.unavailable': 'The property is not available for those dates',
+    'booking.confirmWithToken': 'Show the quote to the user and, if they confirm it, repeat the call with the same details and token_confirmacion',
+    'booking.priceChanged': 'The price has changed (previously {price} {currency}); confirm again with the user and use the new token',
+    'booking.sent': 'Request sent; the owner will confirm the booking by email',
+    'booking.notConfirmed': 'The user did not confirm the request; nothing has been sent',
+    'booking.summary': 'Booking request for {id}',
+    'booking.summaryStay': '{arrival} → {departure} ({nights} nights, {guests} guests)',
+    'booking.summaryPrice': 'Total price: {price} {currency}',
+    'booking.summaryGuest': 'In the name of {name} <{email}>',
+    'booking.summaryPhone': 'tel. {phone}',
+    'booking.summaryNotes': 'Notes: {notes}',
+    'booking.confirmQuestion': 'Do you confirm sending the request?',
+    'booking.confirmField': 'Send the booking request',
+
+    'render.available.one': '{count} property available',
+    'render.available.other': '{count} properties available',
+    'render.listed': 'Properties {from}–{to} of {total}',
+    'render.nextPage': 'Next page: cursor `{cursor}`',
+    'render.truncated': 'Incomplete listing: the page limit was reached.',
+    'render.noResults': 'No results.',
+    'render.night': 'night',
+    'render.nights.one': '{count} night',
+    'render.nights.other': '{count} nights',
+    'render.guests.one': '{count} guest',
+    'render.guests.other': '{count} guests',
+    'render.bedrooms.one': '{count} bedroom',
+    'render.bedrooms.other': '{count} bedrooms',
+    'render.bathrooms.one': '{count} bathroom',
+    'render.bathrooms.other': '{count} bathrooms',
+    'render.property': 'Property',
+    'render.location': 'Location',
+    'render.capacity': 'Capacity',
+    'render.perNight': 'Per night',
+    'render.total': 'Total',
+    'render.arrival': 'Arrival',
+    'render.departure': 'Departure',
+    'render.subtotal': 'Subtotal',
+    'render.discount': 'Discount',
+    'render.cleaning': 'Cleaning',
+    'render.tax': 'Incl. {name} ({rate}%)',
+    'render.deposit': 'Deposit (refundable, not included)',
+    'render.exchangeRate': 'Exchange rate: {rate} (as of {date})',
+    'render.amenities': 'Amenities',
+    'render.photos': 'Photos',
+    'render.isAvailable': 'Available',
+    'render.notAvailable': 'Not available',
+    'render.flexible': '{shown} best combinations ({queried} of {possible} date options checked)',
+
+    // Herramientas
+    'tool.buscar_disponibilidad.description': 'Search for vacation rentals in La Palma available for specific dates. Filter by municipality, neighborhood, number of guests, amenities, type, bathrooms, nightly price and proximity to a place, and sort the results.',
+    'tool.buscar_fechas_flexibles.description': 'Find the best date and property combinations within a date window (e.g. "a week in March"). Checks availability and price for every possible arrival and returns the results sorted by total price.',
+    'tool.obtener_detalles_propiedad.description': 'Get complete information about a specific property: features, amenities, location, prices, photos and descriptions in the requested language.',
+    'tool.obtener_calendario.description': 'Return a property\'s night-by-night calendar for a month or a date range: availability, nightly price, minimum stay and allowed arrival and departure days. Optionally groups free nights into bookable stays.',
+    'tool.calcular_precio_estancia.description': 'Calculate the total price of a stay including seasonal rates, applicable discounts, number of nights and guests, with a breakdown of accommodation, discounts, cleaning, IGIC tax and deposit. Amounts can be converted to another currency.',
+    'tool.comparar_propiedades.description': 'Compare several properties side by side: capacity, bedrooms, location, amenities, nightly price and, with dates, total price and discounts. Flags properties that do not exist or are unavailable.',
+    'tool.solicitar_reserva.description': 'Send a booking request to the owner. Re-checks availability and price and asks the user to confirm before sending it: through elicitation if the client supports it or, otherwise, by returning a quote with a token_confirmacion that must be sent back with the same details once the user accepts it.',
+    'tool.listar_propiedades.description': 'List all vacation rentals with optional filters by location, proximity, capacity, amenities, type, bathrooms and nightly price, and configurable sorting. Paginated with a cursor (next_cursor) or up to max_resultados properties in a single call.',
+    'tool.listar_municipios.description': 'Get the complete list of municipalities in La Palma with properties. Useful to know which locations can be filtered.',
+    'tool.listar_barrios.description': 'Get the list of available neighborhoods/areas, optionally filtered by municipality. Useful for more specific location searches.',
+
+    // Parámetros comunes
+    'param.fecha_llegada': 'Arrival date in YYYY-MM-DD format (e.g. 2024-06-15)',
+    'param.fecha_salida': 'Departure date in YYYY-MM-DD format (e.g. 2024-06-22)',
+    'param.num_personas': 'Number of guests (default: 2)',
+    'param.municipio': 'Filter by municipality (e.g. Santa Cruz de La Palma, Los Llanos de Aridane; approximate names such as "Los Llanos" are accepted)',
+    'param.barrio': 'Filter by neighborhood/area (e.g. Centro, San Telmo, El Charco)',
+    'param.amenidades': 'Required amenities (all of them): piscina (pool), wifi, mascotas (pets allowed), vista_mar (sea view), aire_acondicionado (air conditioning), parking, accesible (wheelchair access)',
+    'param.tipo': 'Property type (e.g. casa, apartamento, finca, bungalow, villa)',
+    'param.banos_min': 'Minimum number of bathrooms',
+    'param.precio_min': 'Minimum price per night, in the currency given in moneda (euros by default)',
+    'param.precio_max': 'Maximum price per night, in the currency given in moneda (euros by default)',
+    'param.moneda': 'Currency of the amounts (ISO 4217 code); converted from euros with the server\'s exchange-rate table',
+    'param.ordenar_por': 'Sort order: precio (cheapest first), precio_desc, capacidad (largest first) or distancia (requires cerca_de or latitud/longitud)',
+    'param.cerca_de': 'Reference place in La Palma: beach, town, airport, port, trail or viewpoint (e.g. Playa de Puerto Naos, Aeropuerto, Roque de los Muchachos, Los Tilos)',
+    'param.latitud': 'Latitude of the reference point (alternative to cerca_de, together with longitud)',
+    'param.longitud': 'Longitude of the reference point (alternative to cerca_de, together with latitud)',
+    'param.radio_km': 'Maximum distance in km from the reference point; without a radius results are only sorted by distance',
+    'param.formato': 'Format of the result text: json (default), markdown (tables and property cards) or compact (one line per result)',
+    'param.idioma': 'Language of the markdown or compact text: es (Spanish), en (English), de (German)',
+    'param.id_casa': 'Property ID',
+    'param.fecha_desde': 'First possible arrival day, YYYY-MM-DD format',
+    'param.fecha_hasta': 'Last possible departure day, YYYY-MM-DD format',
+    'param.noches': 'Exact length of stay in nights (default: 7)',
+    'param.noches_min': 'Minimum length in nights (alternative to noches)',
+    'param.noches_max': 'Maximum length in nights (alternative to noches)',
+    'param.max_resultados': 'Maximum number of combinations returned (default: 10)',
+    'param.mes': 'Month in YYYY-MM format (e.g. 2024-08); alternative to fecha_desde/fecha_hasta',
+    'param.incluir_huecos': 'Add the free gaps as stays (arrival, departure, nights) that meet the property\'s rules',
+    'param.ids_casa': 'IDs of the properties to compare (2 to 6)',
+    'param.nombre': 'Full name of the main guest',
+    'param.email': 'Guest contact email',
+    'param.telefono': 'Contact phone number with international prefix (e.g. +34 600 000 000)',
+    'param.notas': 'Comments for the owner (arrival time, special requests...)',
+    'param.token_confirmacion': 'Token returned by the first call; send it only once the user has accepted the quote',
+    'param.dormitorios': 'Number of bedrooms',
+    'param.personas_max': 'Minimum guest capacity',
+    'param.limit': 'Maximum number of results per page (default: 50)',
+    'param.offset': 'Pagination offset (default: 0). Prefer cursor',
+    'param.cursor': 'Cursor of the next page (next_cursor from the previous response, with the same filters)',
+
+    // Parámetros con otro sentido en una herramienta
+    'tool.obtener_detalles_propiedad.param.id_casa': 'ID of the property to look up',
+    'tool.obtener_detalles_propiedad.param.idioma': 'Language of the descriptions: es (Spanish), en (English), de (German)',
+    'tool.obtener_calendario.param.fecha_desde': 'First night of the range, YYYY-MM-DD format',
+    'tool.obtener_calendario.param.fecha_hasta': 'Day after the last night of the range (like a departure date), YYYY-MM-DD format',
+    'tool.obtener_calendario.param.noches_min': 'With incluir_huecos: drop gaps with fewer nights',
+    'tool.calcular_precio_estancia.param.fecha_llegada': 'Arrival date in YYYY-MM-DD format',
+    'tool.calcular_precio_estancia.param.fecha_salida': 'Departure date in YYYY-MM-DD format',
+    'tool.comparar_propiedades.param.fecha_llegada': 'Arrival date in YYYY-MM-DD format (optional, together with fecha_salida)',
+    'tool.comparar_propiedades.param.fecha_salida': 'Departure date in YYYY-MM-DD format (optional, together with fecha_llegada)',
+    'tool.comparar_propiedades.param.idioma': 'Language of the property cards: es (Spanish), en (English), de (German)',
+    'tool.solicitar_reserva.param.fecha_llegada': 'Arrival date in YYYY-MM-DD format',
+    'tool.solicitar_reserva.param.fecha_salida': 'Departure date in YYYY-MM-DD format',
+    'tool.listar_propiedades.param.max_resultados': 'Return up to this many properties by paging through the backend (maximum: {maximum})',
+    'tool.listar_barrios.param.municipio': 'Filter neighborhoods by municipality (e.g. Santa Cruz de La Palma)',
+
+    // Prompts
+    'prompt.planificar_estancia.title': 'Plan a stay in La Palma',
+    'prompt.planificar_estancia.description': 'Guide to find and price accommodation in La Palma by dates, group size, preferred area and budget.',
+    'prompt.comparar_propiedades.title': 'Compare properties',
+    'prompt.comparar_propiedades.description': 'Compare several properties by capacity, location, amenities and price for given dates.',
+    'prompt.casa_familiar_playa.title': 'Family house near the beach',
+    'prompt.casa_familiar_playa.description': 'Find a family-friendly house near the beach (Puerto Naos, Tazacorte, Los Cancajos...) for given dates.',
+    'prompt.arg.fecha_llegada': 'Arrival date (YYYY-MM-DD)',
+    'prompt.arg.fecha_salida': 'Departure date (YYYY-MM-DD)',
+    'prompt.arg.num_personas': 'Number of guests',
+    'prompt.arg.zona': 'Preferred municipality or area (optional)',
+    'prompt.arg.presupuesto': 'Maximum total budget in euros (optional)',
+    'prompt.arg.idioma': 'Conversation language: es (Spanish), en (English), de (German). Default: es',
+    'prompt.arg.ids': 'Comma-separated property IDs',
+    'prompt.arg.ninos': 'Number of children and their ages (optional)',
+    'prompt.comparar_propiedades.arg.fecha_llegada': 'Arrival date (YYYY-MM-DD, optional)',
+    'prompt.comparar_propiedades.arg.fecha_salida': 'Departure date (YYYY-MM-DD, optional)',
+    'prompt.comparar_propiedades.arg.num_personas': 'Number of guests (optional)',
+    'prompt.casa_familiar_playa.arg.num_personas': 'Number of guests, including children',
+  },
+
+  de: {
+    'error.unknownTool': 'Unbekanntes Werkzeug: {name}',
+    'error.toolNotFound': 'Werkzeug nicht gefunden: {name}',
+    'error.invalidArguments': 'Ungültige Argumente',
+    'error.unexpectedResponse': 'Unerwartete Antwort vom Backend',
+    'error.unknownPrompt': 'Unbekannter Prompt: {name}',
+    'error.missingPromptArguments': 'Fehlende Pflichtargumente für {name}: {arguments}',
+    'error.unsupportedLanguage': 'Nicht unterstützte Sprache: {language} (verwende {languages})',
+    'error.resourceNotFound': 'Ressource nicht gefunden: {uri}',
+    'error.insufficientScope': 'Unzureichende Berechtigungen für {name}: Scope {scope} erforderlich',
+    'error.backendUnavailable': 'Backend vorübergehend nicht verfügbar. Erneut versuchen in {seconds}s',
+    'error.notFound': 'Im Backend nicht gefunden',
+    'error.propertyNotFound': 'Unterkunft nicht gefunden',
+    'error.backendRejected': 'Das Backend hat die Anfrage abgelehnt (HTTP {status})',
+    'error.backendRateLimited': 'Das Backend erhält zu viele Anfragen. Später erneut versuchen',
+    'error.backendError': 'Backend-Fehler (HTTP {status})',
+    'error.backendUnreachable': 'Keine Verbindung zum Backend',
+
+    // Problemas de validación de un campo
+    'issue.type': 'muss vom Typ {type} sein',
+    'issue.or': 'oder',
+    'issue.enum': 'muss einer der folgenden Werte sein: {values}',
+    'issue.minLength': 'muss mindestens {min} Zeichen lang sein',
+    'issue.maxLength': 'darf höchstens {max} Zeichen lang sein',
+    'issue.pattern': 'entspricht nicht dem Format {pattern}',
+    'issue.invalidDate': 'ist kein gültiges Datum: {value}',
+    'issue.minimum': 'muss größer oder gleich {min} sein',
+    'issue.maximum': 'muss kleiner oder gleich {max} sein',
+    'issue.minItems': 'muss mindestens {min} Elemente enthalten',
+    'issue.maxItems': 'darf höchstens {max} Elemente enthalten',
+    'issue.required': 'ist erforderlich',
+    'issue.notAllowed': 'Parameter nicht zulässig',
+    'issue.pastDate': 'darf nicht in der Vergangenheit liegen',
+    'issue.pastMonth': 'darf kein vergangener Monat sein',
+    'issue.after': 'muss nach {field} liegen',
+    'issue.maxStay': 'der Aufenthalt darf höchstens {max} Nächte dauern',
+    'issue.maxStayRequested': 'der Aufenthalt darf höchstens {max} Nächte dauern ({nights} angefragt)',
+    'issue.maxWindow': 'der Zeitraum darf höchstens {max} Tage umfassen ({days} angefragt)',
+    'issue.windowShorterThanStay': 'der Zeitraum ist kürzer als der Mindestaufenthalt ({min} Nächte)',
+    'issue.exclusive': 'verwende {first} oder {second}, nicht beides',
+    'issue.otherDateRequired': 'ist erforderlich, wenn das andere Datum angegeben ist',
+    'issue.otherCoordinateRequired': 'ist erforderlich, wenn die andere Koordinate angegeben ist',
+    'issue.calendarPeriod': 'gib mes oder fecha_desde und fecha_hasta an',
+    'issue.requiresReference': 'erfordert cerca_de oder latitud/longitud',
+    'issue.distanceRequiresReference': 'distancia erfordert cerca_de oder latitud/longitud',
+    'issue.unknownPlace': 'unbekannter Ort: {place}. Meintest du {suggestions}?',
+    'issue.unknownPlaceUseCoordinates': 'unbekannter Ort: {place}. Verwende latitud/longitud für andere Orte',
+    'issue.ambiguousName': 'mehrdeutiger Name: {name}. Meintest du {suggestions}?',
+    'issue.unknownName': 'unbekannter Wert für {field}: {name}. Meintest du {suggestions}?',
+    'issue.unknownNameSeeList': 'unbekannter Wert für {field}: {name}. Siehe {tool}',
+    'issue.cursorMismatch': 'ist für diese Suche ungültig; wiederhole die Suche ohne Cursor',
+    'issue.cursorInvalid': 'ist ungültig; verwende next_cursor aus der vorherigen Antwort',
+    'issue.tokenInvalid': 'ist für diese Buchungsdaten ungültig',
+    'issue.tokenExpired': 'ist abgelaufen; fordere die Buchung ohne Token erneut an',
+    'issue.tokenUsed': 'wurde bereits verwendet',
+
+    // Solicitudes de reserva
+    'booking.unavailable': 'Die Unterkunft ist für diese Daten nicht verfügbar',
+    'booking.confirmWithToken': 'Zeige dem Nutzer das Angebot und wiederhole den Aufruf nach seiner Bestätigung mit denselben Daten und token_confirmacion',
+    'booking.priceChanged': 'Der Preis hat sich geändert (vorher {price} {currency}); bestätige erneut mit dem Nutzer und verwende den neuen Token',
+    'booking.sent': 'Anfrage gesendet; der Eigentümer bestätigt die Buchung per E-Mail',
+    'booking.notConfirmed': 'Der Nutzer hat die Anfrage nicht bestätigt; es wurde nichts gesendet',
+    'booking.summary': 'Buchungsanfrage für {id}',
+    'booking.summaryStay': '{arrival} → {departure} ({nights} Nächte, {guests} Personen)',
+    'booking.summaryPrice': 'Gesamtpreis: {price} {currency}',
+    'booking.summaryGuest': 'Auf den Namen {name} <{email}>',
+    'booking.summaryPhone': 'Tel. {phone}',
+    'booking.summaryNotes': 'Anmerkungen: {notes}',
+    'booking.confirmQuestion': 'Bestätigst du das Senden der Anfrage?',
+    'booking.confirmField': 'Buchungsanfrage senden',
+
+    'render.available.one': '{count} Unterkunft verfügbar',
+    'render.available.other': '{count} Unterkünfte verfügbar',
+    'render.listed': 'Unterkünfte {from}–{to} von {total}',
+    'render.nextPage': 'Nächste Seite: Cursor `{cursor}`',
+    'render.truncated': 'Unvollständige Liste: das Seitenlimit wurde erreicht.',
+    'render.noResults': 'Keine Ergebnisse.',
+    'render.night': 'Nacht',
+    'render.nights.one': '{count} Nacht',
+    'render.nights.other': '{count} Nächte',
+    'render.guests.one': '{count} Person',
+    'render.guests.other': '{count} Personen',
+    'render.bedrooms.one': '{count} Schlafzimmer',
+    'render.bedrooms.other': '{count} Schlafzimmer',
+    'render.bathrooms.one': '{count} Bad',
+    'render.bathrooms.other': '{count} Bäder',
+    'render.property': 'Unterkunft',
+    'render.location': 'Lage',
+    'render.capacity': 'Kapazität',
+    'render.perNight': 'Pro Nacht',
+    'render.total': 'Gesamt',
+    'render.arrival': 'Anreise',
+    'render.departure': 'Abreise',
+    'render.subtotal': 'Zwischensumme',
+    'render.discount': 'Rabatt',
+    'render.cleaning': 'Endreinigung',
+    'render.tax': 'Inkl. {name} ({rate} %)',
+    'render.deposit': 'Kaution (erstattungsfähig, nicht enthalten)',
+    'render.exchangeRate': 'Wechselkurs: {rate} (Stand {date})',
+    'render.amenities': 'Ausstattung',
+    'render.photos': 'Fotos',
+    'render.isAvailable': 'Verfügbar',
+    'render.notAvailable': 'Nicht verfügbar',
+    'render.flexible': '{shown} beste Kombinationen ({queried} von {possible} Terminen geprüft)',
+
+    // Herramientas
+    'tool.buscar_disponibilidad.description': 'Sucht Ferienunterkünfte auf La Palma, die zu bestimmten Reisedaten frei sind. Filter nach Gemeinde, Ortsteil, Personenzahl, Ausstattung, Typ, Bädern, Preis pro Nacht und Nähe zu einem Ort, mit sortierbaren Ergebnissen.',
+    'tool.buscar_fechas_flexibles.description': 'Findet die besten Kombinationen aus Reisedaten und Unterkünften innerhalb eines Zeitraums (z. B. "eine Woche im März"). Prüft Verfügbarkeit und Preis für jede mögliche Anreise und sortiert die Ergebnisse nach Gesamtpreis.',
+    'tool.obtener_detalles_propiedad.description': 'Liefert alle Informationen zu einer Unterkunft: Merkmale, Ausstattung, Lage, Preise, Fotos und Beschreibungen in der gewünschten Sprache.',
+    'tool.obtener_calendario.description': 'Liefert den Kalender einer Unterkunft Nacht für Nacht für einen Monat oder Zeitraum: Verfügbarkeit, Preis pro Nacht, Mindestaufenthalt und erlaubte An- und Abreisetage. Fasst freie Nächte auf Wunsch zu buchbaren Aufenthalten zusammen.',
+    'tool.calcular_precio_estancia.description': 'Berechnet den Gesamtpreis eines Aufenthalts mit Saisonpreisen, anwendbaren Rabatten, Anzahl der Nächte und Personen, aufgeschlüsselt nach Unterkunft, Rabatten, Endreinigung, IGIC-Steuer und Kaution. Beträge können in eine andere Währung umgerechnet werden.',
+    'tool.comparar_propiedades.description': 'Vergleicht mehrere Unterkünfte nebeneinander: Kapazität, Schlafzimmer, Lage, Ausstattung, Preis pro Nacht und, mit Reisedaten, Gesamtpreis und Rabatte. Markiert nicht existierende oder nicht verfügbare Unterkünfte.',
+    'tool.solicitar_reserva.description': 'Sendet eine Buchungsanfrage an den Eigentümer. Prüft Verfügbarkeit und Preis erneut und bittet den Nutzer vor dem Senden um Bestätigung: per Elicitation, wenn der Client sie unterstützt, sonst mit einem Angebot samt token_confirmacion, das nach Zustimmung des Nutzers mit denselben Daten zurückgeschickt werden muss.',
+    'tool.listar_propiedades.description': 'Listet alle Ferienunterkünfte mit optionalen Filtern nach Lage, Nähe, Kapazität, Ausstattung, Typ, Bädern und Preis pro Nacht sowie einstellbarer Sortierung. Seitenweise mit Cursor (next_cursor) oder bis zu max_resultados Unterkünfte in einem Aufruf.',
+    'tool.listar_municipios.description': 'Liefert die vollständige Liste der Gemeinden auf La Palma mit Unterkünften. Nützlich, um zu wissen, nach welchen Orten gefiltert werden kann.',
+    'tool.listar_barrios.description': 'Liefert die Liste der Ortsteile/Gebiete, optional nach Gemeinde gefiltert. Nützlich für genauere Ortssuchen.',
+
+    // Parámetros comunes
+    'param.fecha_llegada': 'Anreisedatum im Format YYYY-MM-DD (z. B. 2024-06-15)',
+    'param.fecha_salida': 'Abreisedatum im Format YYYY-MM-DD (z. B. 2024-06-22)',
+    'param.num_personas': 'Anzahl der Personen (Standard: 2)',
+    'param.municipio': 'Nach Gemeinde filtern (z. B. Santa Cruz de La Palma, Los Llanos de Aridane; ungefähre Namen wie "Los Llanos" werden erkannt)',
+    'param.barrio': 'Nach Ortsteil/Gebiet filtern (z. B. Centro, San Telmo, El Charco)',
+    'param.amenidades': 'Erforderliche Ausstattung (alle): piscina (Pool), wifi, mascotas (Haustiere erlaubt), vista_mar (Meerblick), aire_acondicionado (Klimaanlage), parking, accesible (rollstuhlgerecht)',
+    'param.tipo': 'Art der Unterkunft (z. B. casa, apartamento, finca, bungalow, villa)',
+    'param.banos_min': 'Mindestanzahl an Bädern',
+    'param.precio_min': 'Mindestpreis pro Nacht, in der unter moneda angegebenen Währung (standardmäßig Euro)',
+    'param.precio_max': 'Höchstpreis pro Nacht, in der unter moneda angegebenen Währung (standardmäßig Euro)',
+    'param.moneda': 'Währung der Beträge (ISO-4217-Code); wird mit der Wechselkurstabelle des Servers aus Euro umgerechnet',
+    'param.ordenar_por': 'Sortierung: precio (günstigste zuerst), precio_desc, capacidad (größte zuerst) oder distancia (erfordert cerca_de oder latitud/longitud)',
+    'param.cerca_de': 'Bezugsort auf La Palma: Strand, Ort, Flughafen, Hafen, Wanderweg oder Aussichtspunkt (z. B. Playa de Puerto Naos, Aeropuerto, Roque de los Muchachos, Los Tilos)',
+    'param.latitud': 'Breitengrad des Bezugspunkts (Alternative zu cerca_de, zusammen mit longitud)',
+    'param.longitud': 'Längengrad des Bezugspunkts (Alternative zu cerca_de, zusammen mit latitud)',
+    'param.radio_km': 'Maximale Entfernung zum Bezugspunkt in km; ohne Radius wird nur nach Entfernung sortiert',
+    'param.formato': 'Format des Ergebnistexts: json (Standard), markdown (Tabellen und Steckbriefe) oder compact (eine Zeile pro Ergebnis)',
+    'param.idioma': 'Sprache des Markdown- oder Kompakttexts: es (Spanisch), en (Englisch), de (Deutsch)',
+    'param.id_casa': 'ID der Unterkunft',
+    'param.fecha_desde': 'Frühestmöglicher Anreisetag, Format YYYY-MM-DD',
+    'param.fecha_hasta': 'Spätestmöglicher Abreisetag, Format YYYY-MM-DD',
+    'param.noches': 'Genaue Aufenthaltsdauer in Nächten (Standard: 7)',
+    'param.noches_min': 'Mindestdauer in Nächten (Alternative zu noches)',
+    'param.noches_max': 'Höchstdauer in Nächten (Alternative zu noches)',
+    'param.max_resultados': 'Maximale Anzahl zurückgegebener Kombinationen (Standard: 10)',
+    'param.mes': 'Monat im Format YYYY-MM (z. B. 2024-08); Alternative zu fecha_desde/fecha_hasta',
+    'param.incluir_huecos': 'Freie Lücken als Aufenthalte (Anreise, Abreise, Nächte) hinzufügen, die die Regeln der Unterkunft erfüllen',
+    'param.ids_casa': 'IDs der zu vergleichenden Unterkünfte (2 bis 6)',
+    'param.nombre': 'Vollständiger Name des Hauptgasts',
+    'param.email': 'Kontakt-E-Mail des Gasts',
+    'param.telefono': 'Kontakttelefon mit internationaler Vorwahl (z. B. +34 600 000 000)',
+    'param.notas': 'Anmerkungen für den Eigentümer (Ankunftszeit, besondere Wünsche...)',
+    'param.token_confirmacion': 'Vom ersten Aufruf zurückgegebenes Token; erst senden, wenn der Nutzer das Angebot angenommen hat',
+    'param.dormitorios': 'Anzahl der Schlafzimmer',
+    'param.personas_max': 'Mindestkapazität an Personen',
+    'param.limit': 'Maximale Anzahl an Ergebnissen pro Seite (Standard: 50)',
+    'param.offset': 'Offset für die Seitenaufteilung (Standard: 0). Besser cursor verwenden',
+    'param.cursor': 'Cursor der nächsten Seite (next_cursor der vorherigen Antwort, mit denselben Filtern)',
+
+    // Parámetros con otro sentido en una herramienta
+    'tool.obtener_detalles_propiedad.param.id_casa': 'ID der abzufragenden Unterkunft',
+    'tool.obtener_detalles_propiedad.param.idioma': 'Sprache der Beschreibungen: es (Spanisch), en (Englisch), de (Deutsch)',
+    'tool.obtener_calendario.param.fecha_desde': 'Erste Nacht des Zeitraums, Format YYYY-MM-DD',
+    'tool.obtener_calendario.param.fecha_hasta': 'Tag nach der letzten Nacht des Zeitraums (wie ein Abreisedatum), Format YYYY-MM-DD',
+    'tool.obtener_calendario.param.noches_min': 'Mit incluir_huecos: Lücken mit weniger Nächten verwerfen',
+    'tool.calcular_precio_estancia.param.fecha_llegada': 'Anreisedatum im Format YYYY-MM-DD',
+    'tool.calcular_precio_estancia.param.fecha_salida': 'Abreisedatum im Format YYYY-MM-DD',
+    'tool.comparar_propiedades.param.fecha_llegada': 'Anreisedatum im Format YYYY-MM-DD (optional, zusammen mit fecha_salida)',
+    'tool.comparar_propiedades.param.fecha_salida': 'Abreisedatum im Format YYYY-MM-DD (optional, zusammen mit fecha_llegada)',
+    'tool.comparar_propiedades.param.idioma': 'Sprache der Steckbriefe: es (Spanisch), en (Englisch), de (Deutsch)',
+    'tool.solicitar_reserva.param.fecha_llegada': 'Anreisedatum im Format YYYY-MM-DD',
+    'tool.solicitar_reserva.param.fecha_salida': 'Abreisedatum im Format YYYY-MM-DD',
+    'tool.listar_propiedades.param.max_resultados': 'Bis zu so viele Unterkünfte liefern, indem mehrere Seiten des Backends abgefragt werden (Maximum: {maximum})',
+    'tool.listar_barrios.param.municipio': 'Ortsteile nach Gemeinde filtern (z. B. Santa Cruz de La Palma)',
+
+    // Prompts
+    'prompt.planificar_estancia.title': 'Aufenthalt auf La Palma planen',
+    'prompt.planificar_estancia.description': 'Anleitung, um eine Unterkunft auf La Palma nach Reisedaten, Gruppengröße, bevorzugter Gegend und Budget zu finden und zu kalkulieren.',
+    'prompt.comparar_propiedades.title': 'Unterkünfte vergleichen',
+    'prompt.comparar_propiedades.description': 'Vergleicht mehrere Unterkünfte nach Kapazität, Lage, Ausstattung und Preis für bestimmte Reisedaten.',
+    'prompt.casa_familiar_playa.title': 'Familienhaus in Strandnähe',
+    'prompt.casa_familiar_playa.description': 'Sucht ein familienfreundliches Haus in Strandnähe (Puerto Naos, Tazacorte, Los Cancajos...) für bestimmte Reisedaten.',
+    'prompt.arg.fecha_llegada': 'Anreisedatum (YYYY-MM-DD)',
+    'prompt.arg.fecha_salida': 'Abreisedatum (YYYY-MM-DD)',
+    'prompt.arg.num_personas': 'Anzahl der Personen',
+    'prompt.arg.zona': 'Bevorzugte Gemeinde oder Gegend (optional)',
+    'prompt.arg.presupuesto': 'Maximales Gesamtbudget in Euro (optional)',
+    'prompt.arg.idioma': 'Sprache der Unterhaltung: es (Spanisch), en (Englisch), de (Deutsch). Standard: es',
+    'prompt.arg.ids': 'Kommagetrennte IDs der Unterkünfte',
+    'prompt.arg.ninos': 'Anzahl und Alter der Kinder (optional)',
+    'prompt.comparar_propiedades.arg.fecha_llegada': 'Anreisedatum (YYYY-MM-DD, optional)',
+    'prompt.comparar_propiedades.arg.fecha_salida': 'Abreisedatum (YYYY-MM-DD, optional)',
+    'prompt.comparar_propiedades.arg.num_personas': 'Anzahl der Personen (optional)',
+    'prompt.casa_familiar_playa.arg.num_personas': 'Anzahl der Personen, einschließlich Kinder',
+  },
+};
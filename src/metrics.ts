@@ -0,0 +1,166 @@
+import express from 'express';
+import { safeEqual } from './auth.js';
+import { METRICS_ENABLED, METRICS_TOKEN } from './config.js';
+
+// Métricas en formato de texto de Prometheus (0.0.4): contadores, gauges e histogramas con
+// etiquetas. Los valores que ya llevan otros módulos (caché, circuito, sesiones) se leen al exportar.
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  return entries.length > 0 ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}` : '';
+}
+
+// Clave estable de un conjunto de etiquetas (mismo orden que labelNames)
+function labelKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map(name => labels[name] ?? ''));
+}
+
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly labelNames: string[] = []) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(this.labelNames, labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(this.labelNames, labels))?.value ?? 0;
+  }
+
+  render(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+// Valor que lleva otro módulo, leído al exportar (contador o gauge)
+export class CollectedMetric implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge',
+    private readonly collect: () => number | [Labels, number][]
+  ) {}
+
+  render(): string[] {
+    const value = this.collect();
+    const samples = typeof value === 'number' ? [[{}, value] as [Labels, number]] : value;
+    return samples.map(([labels, sample]) => `${this.name}${formatLabels(labels)} ${sample}`);
+  }
+}
+
+// Latencias por defecto, en segundos: de 5 ms a 30 s
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly labelNames: string[] = [],
+    private readonly buckets = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(this.labelNames, labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, entry);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry!.counts[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  render(): string[] {
+    return [...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...this.buckets.map((bound, index) => `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${sum}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`,
+    ]);
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    this.metrics = this.metrics.filter(existing => existing.name !== metric.name);
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return this.metrics
+      .flatMap(metric => [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render()])
+      .join('\n') + '\n';
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+// Métricas propias del servidor; los módulos que las alimentan las importan de aquí
+
+export const toolCalls = metrics.register(new Counter(
+  'lapalma24_tool_calls_total', 'Llamadas a herramientas por resultado (ok, invalid, error)', ['tool', 'outcome']
+));
+export const toolDuration = metrics.register(new Histogram(
+  'lapalma24_tool_duration_seconds', 'Duración de las llamadas a herramientas', ['tool', 'outcome']
+));
+export const backendRequests = metrics.register(new Counter(
+  'lapalma24_backend_requests_total', 'Peticiones al backend por código de estado (error = sin respuesta)', ['method', 'endpoint', 'status']
+));
+export const backendDuration = metrics.register(new Histogram(
+  'lapalma24_backend_request_duration_seconds', 'Duración de cada intento de petición al backend', ['method', 'endpoint']
+));
+export const rateLimitDecisions = metrics.register(new Counter(
+  'lapalma24_rate_limit_requests_total', 'Peticiones evaluadas por el límite de peticiones (allowed, limited)', ['outcome']
+));
+
+// Endpoint del backend sin identificadores, para no crear una serie por propiedad
+export function endpointLabel(endpoint: string): string {
+  const segments = endpoint.split('/');
+  return segments.length > 3 ? `${segments.slice(0, 3).join('/')}/:id` : endpoint;
+}
+
+// GET /metrics (deshabilitado con METRICS_ENABLED=false; con METRICS_TOKEN exige Bearer)
+export function createMetricsRouter() {
+  const router = express.Router();
+
+  router.get('/', (req, res) => {
+    if (!METRICS_ENABLED) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+    if (METRICS_TOKEN && !safeEqual(req.headers.authorization ?? '', `Bearer ${METRICS_TOKEN}`)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+    res.type('text/plain; version=0.0.4').send(metrics.render());
+  });
+
+  return router;
+}
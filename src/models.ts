@@ -0,0 +1,705 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+// Modelos de las respuestas de las herramientas: tipos TypeScript y su outputSchema (JSON Schema).
+// Las respuestas se validan contra el esquema antes de devolverlas; los campos extra se permiten.
+
+export type OutputSchema = NonNullable<Tool['outputSchema']>;
+
+const DATE = { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' };
+const MONEY = { type: 'number', minimum: 0 };
+const COUNT = { type: 'integer', minimum: 0 };
+
+// ---- Municipios y barrios ----
+
+export interface Municipio {
+  nombre: string;
+  total_propiedades: number;
+}
+
+export interface MunicipiosResponse {
+  success: boolean;
+  municipios: Municipio[];
+}
+
+export interface Barrio {
+  nombre: string;
+  municipio: string;
+  total_propiedades: number;
+}
+
+export interface BarriosResponse {
+  success: boolean;
+  barrios: Barrio[];
+  ubicacion?: ResolvedLocation;
+}
+
+// Nombres canónicos de municipio y barrio usados en la consulta, tras resolver los escritos
+export interface ResolvedLocation {
+  municipio?: string;
+  barrio?: string;
+}
+
+const locationProperties = {
+  ubicacion: {
+    type: 'object',
+    description: 'Municipio y barrio usados en la consulta (nombres canónicos)',
+    properties: {
+      municipio: { type: 'string' },
+      barrio: { type: 'string' },
+    },
+  },
+};
+
+// ---- Monedas ----
+
+// Tipo de cambio aplicado cuando se piden los importes en otra moneda (argumento `moneda`)
+export interface ExchangeRate {
+  base: string;
+  moneda: string;
+  // Unidades de `moneda` por unidad de `base`
+  tasa: number;
+  // Fecha de la tabla de tipos de cambio
+  fecha: string;
+}
+
+const currencyProperties = {
+  moneda: { type: 'string', description: 'Moneda de los importes (código ISO 4217)' },
+  tipo_cambio: {
+    type: 'object',
+    description: 'Tipo de cambio aplicado a los importes, si no están en euros',
+    properties: {
+      base: { type: 'string' },
+      moneda: { type: 'string' },
+      tasa: { type: 'number', exclusiveMinimum: 0 },
+      fecha: DATE,
+    },
+    required: ['base', 'moneda', 'tasa', 'fecha'],
+  },
+};
+
+export const municipiosOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    municipios: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          nombre: { type: 'string' },
+          total_propiedades: COUNT,
+        },
+        required: ['nombre', 'total_propiedades'],
+      },
+    },
+  },
+  required: ['success', 'municipios'],
+};
+
+export const barriosOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    barrios: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          nombre: { type: 'string' },
+          municipio: { type: 'string' },
+          total_propiedades: COUNT,
+        },
+        required: ['nombre', 'municipio', 'total_propiedades'],
+      },
+    },
+    ...locationProperties,
+  },
+  required: ['success', 'barrios'],
+};
+
+// ---- Propiedades ----
+
+export interface PropertySummary {
+  id_casa: string;
+  nombre: string;
+  municipio: string;
+  barrio?: string;
+  tipo?: string;
+  personas_max: number;
+  dormitorios: number;
+  banos?: number;
+  precio_noche: number;
+  url?: string;
+  latitud?: number;
+  longitud?: number;
+  amenidades?: string[];
+  // Distancia en línea recta al punto de referencia, en búsquedas por proximidad
+  distancia_km?: number;
+}
+
+// Punto de referencia de una búsqueda por proximidad
+export interface ReferencePoint {
+  nombre?: string;
+  latitud: number;
+  longitud: number;
+  radio_km?: number;
+}
+
+export interface AvailableProperty extends PropertySummary {
+  // Precio total de la estancia consultada, si el backend lo calcula
+  precio_total?: number;
+}
+
+export interface AvailabilityResponse {
+  success: boolean;
+  fecha_llegada: string;
+  fecha_salida: string;
+  noches: number;
+  total: number;
+  propiedades: AvailableProperty[];
+  referencia?: ReferencePoint;
+  // Propiedades descartadas por no tener coordenadas
+  sin_ubicacion?: number;
+  // Propiedades descartadas por no poder consultar su ficha para el filtro de amenidades
+  sin_comprobar?: number;
+  ubicacion?: ResolvedLocation;
+  moneda?: string;
+  tipo_cambio?: ExchangeRate;
+}
+
+export interface PropertyListResponse {
+  success: boolean;
+  total: number;
+  limit?: number;
+  offset?: number;
+  propiedades: PropertySummary[];
+  next_cursor?: string | null;
+  // Se alcanzó el límite de páginas antes de recorrer todo el listado
+  incompleto?: boolean;
+  paginas_consultadas?: number;
+  referencia?: ReferencePoint;
+  sin_ubicacion?: number;
+  sin_comprobar?: number;
+  ubicacion?: ResolvedLocation;
+  moneda?: string;
+  tipo_cambio?: ExchangeRate;
+}
+
+export interface PropertyDetails extends PropertySummary {
+  limpieza?: number;
+  idioma?: string;
+  descripcion?: string;
+  fotos?: string[];
+}
+
+export interface PropertyDetailsResponse {
+  success: boolean;
+  propiedad: PropertyDetails;
+}
+
+const propertySummaryProperties = {
+  id_casa: { type: 'string' },
+  nombre: { type: 'string' },
+  municipio: { type: 'string' },
+  barrio: { type: 'string' },
+  tipo: { type: 'string' },
+  personas_max: COUNT,
+  dormitorios: COUNT,
+  banos: COUNT,
+  precio_noche: MONEY,
+  url: { type: 'string' },
+  latitud: { type: 'number', minimum: -90, maximum: 90 },
+  longitud: { type: 'number', minimum: -180, maximum: 180 },
+  amenidades: { type: 'array', items: { type: 'string' } },
+  distancia_km: { type: 'number', minimum: 0, description: 'Distancia en línea recta al punto de referencia' },
+};
+
+const propertySummaryRequired = ['id_casa', 'nombre', 'municipio', 'personas_max', 'dormitorios', 'precio_noche'];
+
+const proximityProperties = {
+  referencia: {
+    type: 'object',
+    description: 'Punto de referencia de la búsqueda por proximidad',
+    properties: {
+      nombre: { type: 'string' },
+      latitud: { type: 'number' },
+      longitud: { type: 'number' },
+      radio_km: { type: 'number', minimum: 0 },
+    },
+    required: ['latitud', 'longitud'],
+  },
+  sin_ubicacion: { ...COUNT, description: 'Propiedades descartadas por no tener coordenadas' },
+};
+
+const amenityProperties = {
+  sin_comprobar: { ...COUNT, description: 'Propiedades descartadas sin comprobar sus amenidades: límite de fichas consultadas o ficha no disponible' },
+};
+
+export const availabilityOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    fecha_llegada: DATE,
+    fecha_salida: DATE,
+    noches: COUNT,
+    total: COUNT,
+    propiedades: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...propertySummaryProperties,
+          precio_total: { ...MONEY, description: 'Precio total de la estancia' },
+        },
+        required: propertySummaryRequired,
+      },
+    },
+    ...proximityProperties,
+    ...amenityProperties,
+    ...locationProperties,
+    ...currencyProperties,
+  },
+  required: ['success', 'propiedades'],
+};
+
+export const propertyListOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    total: { ...COUNT, description: 'Total de propiedades que cumplen los filtros' },
+    limit: COUNT,
+    offset: COUNT,
+    propiedades: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: propertySummaryProperties,
+        required: propertySummaryRequired,
+      },
+    },
+    next_cursor: { type: ['string', 'null'], description: 'Cursor de la página siguiente; null si no hay más' },
+    incompleto: { type: 'boolean', description: 'El listado se cortó al llegar al límite de páginas consultadas' },
+    paginas_consultadas: COUNT,
+    ...proximityProperties,
+    ...amenityProperties,
+    ...locationProperties,
+    ...currencyProperties,
+  },
+  required: ['success', 'propiedades'],
+};
+
+export const propertyDetailsOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    propiedad: {
+      type: 'object',
+      properties: {
+        ...propertySummaryProperties,
+        limpieza: MONEY,
+        idioma: { type: 'string', enum: ['es', 'en', 'de'] },
+        descripcion: { type: 'string' },
+        fotos: { type: 'array', items: { type: 'string' } },
+      },
+      required: propertySummaryRequired,
+    },
+  },
+  required: ['success', 'propiedad'],
+};
+
+// ---- Precios ----
+
+export interface PriceLine {
+  concepto: string;
+  importe: number;
+}
+
+export interface TaxLine extends PriceLine {
+  porcentaje: number;
+  base: number;
+  // El impuesto ya está dentro del total
+  incluido: boolean;
+}
+
+// Desglose normalizado de un presupuesto: alojamiento − descuentos + tarifas = total (impuestos incluidos)
+export interface PriceBreakdown {
+  alojamiento: number;
+  precio_noche: number;
+  descuentos: PriceLine[];
+  tarifas: PriceLine[];
+  impuestos: TaxLine[];
+  total: number;
+  // Fianza reembolsable; no forma parte del total
+  fianza?: number;
+}
+
+export interface PriceQuote {
+  success: boolean;
+  id_casa: string;
+  fecha_llegada: string;
+  fecha_salida: string;
+  noches: number;
+  num_personas?: number;
+  disponible?: boolean;
+  precio_noche?: number;
+  subtotal?: number;
+  descuento?: number;
+  limpieza?: number;
+  fianza?: number;
+  precio_total: number;
+  moneda: string;
+  desglose?: PriceBreakdown;
+  tipo_cambio?: ExchangeRate;
+}
+
+const priceLineSchema = {
+  type: 'object',
+  properties: {
+    concepto: { type: 'string' },
+    importe: MONEY,
+  },
+  required: ['concepto', 'importe'],
+};
+
+const priceBreakdownSchema = {
+  type: 'object',
+  description: 'Desglose: alojamiento − descuentos + tarifas = total; los impuestos están incluidos',
+  properties: {
+    alojamiento: { ...MONEY, description: 'Precio de las noches antes de descuentos' },
+    precio_noche: { ...MONEY, description: 'Precio medio por noche' },
+    descuentos: { type: 'array', items: priceLineSchema },
+    tarifas: { type: 'array', description: 'Tarifas añadidas al alojamiento (limpieza...)', items: priceLineSchema },
+    impuestos: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          ...priceLineSchema.properties,
+          porcentaje: { type: 'number', minimum: 0 },
+          base: MONEY,
+          incluido: { type: 'boolean', description: 'El impuesto ya está incluido en el total' },
+        },
+        required: ['concepto', 'importe', 'porcentaje', 'base', 'incluido'],
+      },
+    },
+    total: MONEY,
+    fianza: { ...MONEY, description: 'Fianza reembolsable; no se incluye en el total' },
+  },
+  required: ['alojamiento', 'precio_noche', 'descuentos', 'tarifas', 'impuestos', 'total'],
+};
+
+export const priceQuoteOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    id_casa: { type: 'string' },
+    fecha_llegada: DATE,
+    fecha_salida: DATE,
+    noches: COUNT,
+    num_personas: COUNT,
+    disponible: { type: 'boolean' },
+    precio_noche: MONEY,
+    subtotal: { ...MONEY, description: 'Noches × precio por noche, antes de descuentos' },
+    descuento: MONEY,
+    limpieza: { ...MONEY, description: 'Tarifa de limpieza' },
+    fianza: { ...MONEY, description: 'Fianza reembolsable; no se incluye en el total' },
+    precio_total: MONEY,
+    ...currencyProperties,
+    desglose: priceBreakdownSchema,
+  },
+  required: ['success', 'id_casa', 'noches', 'precio_total', 'moneda'],
+};
+
+// ---- Búsqueda flexible ----
+
+export interface FlexibleResult {
+  id_casa: string;
+  nombre?: string;
+  municipio?: string;
+  barrio?: string;
+  personas_max?: number;
+  fecha_llegada: string;
+  fecha_salida: string;
+  noches: number;
+  precio_total: number;
+  precio_noche_medio: number;
+  descuento?: number;
+  moneda: string;
+  url?: string;
+  distancia_km?: number;
+}
+
+export interface FlexibleSearchResponse {
+  success: boolean;
+  fecha_desde: string;
+  fecha_hasta: string;
+  noches: { min: number; max: number };
+  num_personas: number;
+  combinaciones_posibles: number;
+  combinaciones_consultadas: number;
+  consultas_fallidas: number;
+  total: number;
+  resultados: FlexibleResult[];
+  referencia?: ReferencePoint;
+  ubicacion?: ResolvedLocation;
+  moneda?: string;
+  tipo_cambio?: ExchangeRate;
+}
+
+export const flexibleSearchOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    fecha_desde: DATE,
+    fecha_hasta: DATE,
+    noches: {
+      type: 'object',
+      properties: { min: COUNT, max: COUNT },
+      required: ['min', 'max'],
+    },
+    num_personas: COUNT,
+    combinaciones_posibles: COUNT,
+    combinaciones_consultadas: COUNT,
+    consultas_fallidas: COUNT,
+    total: COUNT,
+    resultados: {
+      type: 'array',
+      description: 'Combinaciones ordenadas por precio total ascendente',
+      items: {
+        type: 'object',
+        properties: {
+          id_casa: { type: 'string' },
+          nombre: { type: 'string' },
+          municipio: { type: 'string' },
+          barrio: { type: 'string' },
+          personas_max: COUNT,
+          fecha_llegada: DATE,
+          fecha_salida: DATE,
+          noches: COUNT,
+          precio_total: MONEY,
+          precio_noche_medio: MONEY,
+          descuento: MONEY,
+          moneda: { type: 'string' },
+          url: { type: 'string' },
+          distancia_km: { type: 'number', minimum: 0 },
+        },
+        required: ['id_casa', 'fecha_llegada', 'fecha_salida', 'noches', 'precio_total', 'moneda'],
+      },
+    },
+    referencia: proximityProperties.referencia,
+    ...locationProperties,
+    ...currencyProperties,
+  },
+  required: ['success', 'resultados'],
+};
+
+// ---- Comparación ----
+
+// `encontrada`: ficha disponible pero sin fechas no se puede saber si está libre
+export type ComparisonStatus = 'disponible' | 'no_disponible' | 'encontrada' | 'no_encontrada' | 'error';
+
+export interface ComparedProperty {
+  id_casa: string;
+  estado: ComparisonStatus;
+  error?: string;
+  nombre?: string;
+  tipo?: string;
+  municipio?: string;
+  barrio?: string;
+  ubicacion?: { latitud: number; longitud: number };
+  personas_max?: number;
+  dormitorios?: number;
+  banos?: number;
+  capacidad_suficiente?: boolean;
+  amenidades?: string[];
+  precio_noche?: number;
+  limpieza?: number;
+  precio_total?: number;
+  descuento?: number;
+  moneda?: string;
+  url?: string;
+}
+
+export interface ComparisonResponse {
+  success: boolean;
+  fecha_llegada?: string;
+  fecha_salida?: string;
+  num_personas: number;
+  propiedades: ComparedProperty[];
+  amenidades_comunes: string[];
+  mas_barata: string | null;
+  no_encontradas: string[];
+  no_disponibles: string[];
+  moneda?: string;
+  tipo_cambio?: ExchangeRate;
+}
+
+export const comparisonOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    fecha_llegada: DATE,
+    fecha_salida: DATE,
+    num_personas: COUNT,
+    propiedades: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id_casa: { type: 'string' },
+          estado: { type: 'string', enum: ['disponible', 'no_disponible', 'encontrada', 'no_encontrada', 'error'] },
+          error: { type: 'string' },
+          nombre: { type: 'string' },
+          tipo: { type: 'string' },
+          municipio: { type: 'string' },
+          barrio: { type: 'string' },
+          ubicacion: {
+            type: 'object',
+            properties: { latitud: { type: 'number' }, longitud: { type: 'number' } },
+            required: ['latitud', 'longitud'],
+          },
+          personas_max: COUNT,
+          dormitorios: COUNT,
+          banos: COUNT,
+          capacidad_suficiente: { type: 'boolean' },
+          amenidades: { type: 'array', items: { type: 'string' } },
+          precio_noche: MONEY,
+          limpieza: MONEY,
+          precio_total: MONEY,
+          descuento: MONEY,
+          moneda: { type: 'string' },
+          url: { type: 'string' },
+        },
+        required: ['id_casa', 'estado'],
+      },
+    },
+    amenidades_comunes: { type: 'array', items: { type: 'string' } },
+    mas_barata: { type: ['string', 'null'], description: 'ID de la propiedad disponible más barata' },
+    no_encontradas: { type: 'array', items: { type: 'string' } },
+    no_disponibles: { type: 'array', items: { type: 'string' } },
+    ...currencyProperties,
+  },
+  required: ['success', 'propiedades', 'no_encontradas', 'no_disponibles'],
+};
+
+// ---- Solicitudes de reserva ----
+
+// `pendiente_confirmacion`: falta repetir la llamada con el token; `cancelada`: el usuario no confirmó
+export type BookingStatus = 'pendiente_confirmacion' | 'enviada' | 'cancelada';
+
+export interface BookingResponse {
+  success: boolean;
+  estado: BookingStatus;
+  id_casa: string;
+  fecha_llegada: string;
+  fecha_salida: string;
+  num_personas: number;
+  presupuesto: PriceQuote;
+  // Precio del token anterior cuando el presupuesto ha cambiado desde la primera llamada
+  precio_anterior?: number;
+  token_confirmacion?: string;
+  expira?: string;
+  id_reserva?: string;
+  estado_backend?: string;
+  mensaje: string;
+}
+
+export const bookingOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    estado: { type: 'string', enum: ['pendiente_confirmacion', 'enviada', 'cancelada'] },
+    id_casa: { type: 'string' },
+    fecha_llegada: DATE,
+    fecha_salida: DATE,
+    num_personas: COUNT,
+    presupuesto: priceQuoteOutputSchema,
+    precio_anterior: MONEY,
+    token_confirmacion: { type: 'string', description: 'Token para confirmar la solicitud en una segunda llamada' },
+    expira: { type: 'string', description: 'Caducidad del token (ISO 8601)' },
+    id_reserva: { type: 'string' },
+    estado_backend: { type: 'string' },
+    mensaje: { type: 'string' },
+  },
+  required: ['success', 'estado', 'id_casa', 'presupuesto', 'mensaje'],
+};
+
+// ---- Calendario ----
+
+// Cada día representa la noche que empieza ese día
+export interface CalendarDay {
+  fecha: string;
+  disponible: boolean;
+  precio_noche?: number;
+  estancia_minima: number;
+  // Reglas de cambio: se puede llegar / salir ese día
+  llegada: boolean;
+  salida: boolean;
+}
+
+// Hueco libre listo para reservar: la estancia más larga posible respetando las reglas
+export interface StayWindow {
+  fecha_llegada: string;
+  fecha_salida: string;
+  noches: number;
+  estancia_minima: number;
+  precio_noches?: number;
+}
+
+export interface CalendarResponse {
+  success: boolean;
+  id_casa: string;
+  fecha_desde: string;
+  fecha_hasta: string;
+  moneda: string;
+  estancia_minima: number;
+  noches_libres: number;
+  noches_ocupadas: number;
+  dias: CalendarDay[];
+  huecos?: StayWindow[];
+}
+
+export const calendarOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    id_casa: { type: 'string' },
+    fecha_desde: DATE,
+    fecha_hasta: { ...DATE, description: 'Día siguiente a la última noche del calendario' },
+    moneda: { type: 'string' },
+    estancia_minima: { ...COUNT, description: 'Estancia mínima general en noches' },
+    noches_libres: COUNT,
+    noches_ocupadas: COUNT,
+    dias: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          fecha: DATE,
+          disponible: { type: 'boolean' },
+          precio_noche: MONEY,
+          estancia_minima: { ...COUNT, description: 'Estancia mínima si se llega este día' },
+          llegada: { type: 'boolean', description: 'Se permite llegar este día' },
+          salida: { type: 'boolean', description: 'Se permite salir este día' },
+        },
+        required: ['fecha', 'disponible', 'estancia_minima', 'llegada', 'salida'],
+      },
+    },
+    huecos: {
+      type: 'array',
+      description: 'Estancias libres más largas posibles dentro del rango',
+      items: {
+        type: 'object',
+        properties: {
+          fecha_llegada: DATE,
+          fecha_salida: DATE,
+          noches: COUNT,
+          estancia_minima: COUNT,
+          precio_noches: { ...MONEY, description: 'Suma de los precios por noche, sin limpieza ni descuentos' },
+        },
+        required: ['fecha_llegada', 'fecha_salida', 'noches', 'estancia_minima'],
+      },
+    },
+  },
+  required: ['success', 'id_casa', 'fecha_desde', 'fecha_hasta', 'dias'],
+};
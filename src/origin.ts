@@ -0,0 +1,42 @@
+import type { NextFunction, Request, Response } from 'express';
+import { ALLOWED_ORIGINS } from './config.js';
+import { createLogger } from './logger.js';
+
+// Validación de la cabecera Origin (protección frente a DNS rebinding).
+// Las peticiones sin Origin (clientes no navegador) se aceptan siempre.
+
+const LOCALHOST_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+const allowedOrigins = ALLOWED_ORIGINS.split(',')
+  .map(origin => origin.trim().replace(/\/$/, ''))
+  .filter(Boolean);
+
+export function isOriginAllowed(origin: string | undefined): boolean {
+  if (!origin) {
+    return true;
+  }
+  if (allowedOrigins.includes('*') || allowedOrigins.includes(origin)) {
+    return true;
+  }
+  return allowedOrigins.length === 0 && LOCALHOST_ORIGIN.test(origin);
+}
+
+// Rechaza con 403 (error JSON-RPC) las peticiones de orígenes no permitidos
+export function originGuard() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.headers.origin;
+    if (isOriginAllowed(origin)) {
+      return next();
+    }
+
+    createLogger('http').warn('Origen rechazado', { origin });
+    res.status(403).json({
+      jsonrpc: '2.0',
+      id: null,
+      error: {
+        code: -32000,
+        message: `Forbidden: origin not allowed (${origin})`,
+      },
+    });
+  };
+}
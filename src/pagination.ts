@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+import { Language, t } from './i18n.js';
+import { ToolArgs } from './tool-definition.js';
+import { ToolValidationError, ValidationIssue } from './validation.js';
+
+// Cursores opacos para listar_propiedades: posición en los resultados y huella de la búsqueda.
+// Un cursor solo vale para la misma búsqueda; cambiar los filtros exige empezar de nuevo.
+
+// Argumentos de paginación que no entiende el backend
+export const PAGINATION_ARGS = ['cursor', 'max_resultados'];
+
+// Argumentos que cambian de una página a otra sin cambiar la búsqueda
+const PAGE_ARGS = ['cursor', 'offset', 'limit', 'max_resultados', 'formato', 'idioma'];
+
+export interface CursorArgs extends ToolArgs {
+  cursor?: string;
+  offset?: number;
+}
+
+function queryHash(args: ToolArgs): string {
+  const query = Object.keys(args)
+    .filter(key => !PAGE_ARGS.includes(key) && args[key] !== undefined)
+    .sort()
+    .map(key => [key, args[key]]);
+  return createHash('sha256').update(JSON.stringify(query)).digest('base64url').slice(0, 16);
+}
+
+export function encodeCursor(offset: number, args: ToolArgs): string {
+  return Buffer.from(JSON.stringify({ o: offset, q: queryHash(args) })).toString('base64url');
+}
+
+// Posición del cursor, o null si no es un cursor válido (para estos argumentos, si se indican)
+function decodeCursor(cursor: string, args?: ToolArgs): number | null {
+  try {
+    const { o, q } = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    return Number.isInteger(o) && o >= 0 && typeof q === 'string' && (!args || q === queryHash(args)) ? o : null;
+  } catch {
+    return null;
+  }
+}
+
+// Primera posición de la página: cursor, offset o el principio. El cursor se comprueba aquí y no
+// en cursorArgs porque municipio y barrio ya llegan con su nombre canónico.
+export function pageStart(args: CursorArgs, language: Language): number {
+  if (args.cursor === undefined) {
+    return args.offset ?? 0;
+  }
+  const start = decodeCursor(args.cursor, args);
+  if (start === null) {
+    throw new ToolValidationError('listar_propiedades', [
+      { field: 'cursor', message: t(language, 'issue.cursorMismatch') },
+    ]);
+  }
+  return start;
+}
+
+// Regla: cursor u offset, no ambos, y un cursor bien formado
+export function cursorArgs(args: ToolArgs, language: Language): ValidationIssue[] {
+  if (args.cursor === undefined) {
+    return [];
+  }
+  if (args.offset !== undefined) {
+    return [{ field: 'cursor', message: t(language, 'issue.exclusive', { first: 'cursor', second: 'offset' }) }];
+  }
+  if (typeof args.cursor === 'string' && decodeCursor(args.cursor) === null) {
+    return [{ field: 'cursor', message: t(language, 'issue.cursorInvalid') }];
+  }
+  return [];
+}
@@ -0,0 +1,97 @@
+// Lugares de interés de La Palma para búsquedas por proximidad (coordenadas aproximadas, WGS84)
+
+export type PlaceType = 'playa' | 'aeropuerto' | 'puerto' | 'naturaleza' | 'mirador' | 'sendero' | 'volcan' | 'pueblo';
+
+export interface Place {
+  nombre: string;
+  tipo: PlaceType;
+  municipio: string;
+  latitud: number;
+  longitud: number;
+  // Otras formas de referirse al lugar (en cualquier idioma)
+  alias?: string[];
+}
+
+export const places: Place[] = [
+  // Transporte
+  { nombre: 'Aeropuerto de La Palma', tipo: 'aeropuerto', municipio: 'Villa de Mazo', latitud: 28.6265, longitud: -17.7556, alias: ['aeropuerto', 'airport', 'flughafen', 'SPC'] },
+  { nombre: 'Puerto de Santa Cruz de La Palma', tipo: 'puerto', municipio: 'Santa Cruz de La Palma', latitud: 28.6770, longitud: -17.7640, alias: ['puerto', 'ferry', 'port', 'hafen'] },
+
+  // Playas
+  { nombre: 'Playa de Puerto Naos', tipo: 'playa', municipio: 'Los Llanos de Aridane', latitud: 28.5853, longitud: -17.9125, alias: ['Puerto Naos', 'Puerto Naos beach'] },
+  { nombre: 'Playa de Los Cancajos', tipo: 'playa', municipio: 'Breña Baja', latitud: 28.6500, longitud: -17.7620, alias: ['Los Cancajos', 'Cancajos'] },
+  { nombre: 'Playa de Tazacorte', tipo: 'playa', municipio: 'Tazacorte', latitud: 28.6418, longitud: -17.9428, alias: ['Puerto de Tazacorte', 'Tazacorte beach'] },
+  { nombre: 'Playa de Santa Cruz de La Palma', tipo: 'playa', municipio: 'Santa Cruz de La Palma', latitud: 28.6800, longitud: -17.7640, alias: ['Playa de Bajamar'] },
+  { nombre: 'Playa de Charco Verde', tipo: 'playa', municipio: 'Los Llanos de Aridane', latitud: 28.5750, longitud: -17.8920, alias: ['Charco Verde'] },
+  { nombre: 'Playa del Remo', tipo: 'playa', municipio: 'Los Llanos de Aridane', latitud: 28.5550, longitud: -17.8850, alias: ['El Remo'] },
+  { nombre: 'Playa de Nogales', tipo: 'playa', municipio: 'Puntallana', latitud: 28.7300, longitud: -17.7430, alias: ['Nogales'] },
+  { nombre: 'Playa de La Zamora', tipo: 'playa', municipio: 'Fuencaliente', latitud: 28.4980, longitud: -17.8650, alias: ['La Zamora'] },
+  { nombre: 'Charco Azul', tipo: 'playa', municipio: 'San Andrés y Sauces', latitud: 28.8070, longitud: -17.7610, alias: ['piscinas de Charco Azul'] },
+
+  // Naturaleza, miradores y volcanes
+  { nombre: 'Roque de los Muchachos', tipo: 'mirador', municipio: 'Garafía', latitud: 28.7540, longitud: -17.8850, alias: ['Observatorio del Roque de los Muchachos', 'observatorio', 'observatory', 'Sternwarte'] },
+  { nombre: 'Caldera de Taburiente', tipo: 'naturaleza', municipio: 'El Paso', latitud: 28.6590, longitud: -17.8500, alias: ['Centro de Visitantes de la Caldera', 'Parque Nacional', 'national park', 'Nationalpark'] },
+  { nombre: 'Mirador de La Cumbrecita', tipo: 'mirador', municipio: 'El Paso', latitud: 28.6870, longitud: -17.8530, alias: ['La Cumbrecita', 'Cumbrecita'] },
+  { nombre: 'Bosque de Los Tilos', tipo: 'naturaleza', municipio: 'San Andrés y Sauces', latitud: 28.7920, longitud: -17.8040, alias: ['Los Tilos'] },
+  { nombre: 'Volcán de San Antonio', tipo: 'volcan', municipio: 'Fuencaliente', latitud: 28.4920, longitud: -17.8480, alias: ['San Antonio'] },
+  { nombre: 'Volcán Tajogaite', tipo: 'volcan', municipio: 'El Paso', latitud: 28.6130, longitud: -17.8660, alias: ['Tajogaite', 'volcán de Cumbre Vieja', 'Cumbre Vieja'] },
+  { nombre: 'Salinas de Fuencaliente', tipo: 'naturaleza', municipio: 'Fuencaliente', latitud: 28.4580, longitud: -17.8400, alias: ['Faro de Fuencaliente', 'salinas', 'Salinas'] },
+
+  // Senderos
+  { nombre: 'Refugio de El Pilar', tipo: 'sendero', municipio: 'El Paso', latitud: 28.6080, longitud: -17.8330, alias: ['El Pilar', 'Ruta de los Volcanes', 'Ruta de la Crestería'] },
+  { nombre: 'Los Brecitos', tipo: 'sendero', municipio: 'Los Llanos de Aridane', latitud: 28.6900, longitud: -17.8980, alias: ['Brecitos'] },
+  { nombre: 'Casa del Monte', tipo: 'sendero', municipio: 'San Andrés y Sauces', latitud: 28.7750, longitud: -17.8050, alias: ['Marcos y Cordero', 'Marcos y Corderos'] },
+  { nombre: 'Cubo de La Galga', tipo: 'sendero', municipio: 'Puntallana', latitud: 28.7630, longitud: -17.7720, alias: ['La Galga'] },
+
+  // Pueblos
+  { nombre: 'Santa Cruz de La Palma', tipo: 'pueblo', municipio: 'Santa Cruz de La Palma', latitud: 28.6835, longitud: -17.7642, alias: ['Santa Cruz'] },
+  { nombre: 'Los Llanos de Aridane', tipo: 'pueblo', municipio: 'Los Llanos de Aridane', latitud: 28.6585, longitud: -17.9182, alias: ['Los Llanos'] },
+  { nombre: 'El Paso', tipo: 'pueblo', municipio: 'El Paso', latitud: 28.6520, longitud: -17.8830 },
+  { nombre: 'Tazacorte', tipo: 'pueblo', municipio: 'Tazacorte', latitud: 28.6410, longitud: -17.9330 },
+  { nombre: 'Breña Baja', tipo: 'pueblo', municipio: 'Breña Baja', latitud: 28.6500, longitud: -17.7800, alias: ['San José'] },
+  { nombre: 'Breña Alta', tipo: 'pueblo', municipio: 'Breña Alta', latitud: 28.6670, longitud: -17.7830 },
+  { nombre: 'Villa de Mazo', tipo: 'pueblo', municipio: 'Villa de Mazo', latitud: 28.6090, longitud: -17.7790, alias: ['Mazo'] },
+  { nombre: 'Fuencaliente', tipo: 'pueblo', municipio: 'Fuencaliente', latitud: 28.4890, longitud: -17.8440, alias: ['Los Canarios'] },
+  { nombre: 'Tijarafe', tipo: 'pueblo', municipio: 'Tijarafe', latitud: 28.7080, longitud: -17.9580 },
+  { nombre: 'Puntagorda', tipo: 'pueblo', municipio: 'Puntagorda', latitud: 28.7740, longitud: -17.9770 },
+  { nombre: 'Garafía', tipo: 'pueblo', municipio: 'Garafía', latitud: 28.8220, longitud: -17.9470, alias: ['Santo Domingo de Garafía'] },
+  { nombre: 'Barlovento', tipo: 'pueblo', municipio: 'Barlovento', latitud: 28.8270, longitud: -17.8030 },
+  { nombre: 'San Andrés y Sauces', tipo: 'pueblo', municipio: 'San Andrés y Sauces', latitud: 28.8010, longitud: -17.7710, alias: ['Los Sauces'] },
+  { nombre: 'Puntallana', tipo: 'pueblo', municipio: 'Puntallana', latitud: 28.7400, longitud: -17.7400 },
+];
+
+// Minúsculas, sin tildes ni espacios repetidos
+export function normalizeName(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const placeIndex = new Map<string, Place>();
+for (const place of places) {
+  for (const name of [place.nombre, ...(place.alias ?? [])]) {
+    placeIndex.set(normalizeName(name), place);
+  }
+}
+
+// Busca un lugar por nombre o alias, sin distinguir mayúsculas ni tildes
+export function findPlace(name: string): Place | undefined {
+  return placeIndex.get(normalizeName(name));
+}
+
+// Lugares cuyo nombre o alias contiene alguna palabra del texto buscado (para sugerencias)
+export function suggestPlaces(name: string, limit = 3): string[] {
+  const words = normalizeName(name).split(' ').filter(w => w.length > 2);
+  return places
+    .map(place => ({
+      place,
+      score: words.filter(w => [place.nombre, ...(place.alias ?? [])].some(n => normalizeName(n).includes(w))).length,
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ place }) => place.nombre);
+}
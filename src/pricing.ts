@@ -0,0 +1,42 @@
+import { apiCall } from './api.js';
+import { backendArgs } from './backend-args.js';
+import { IGIC_RATE } from './config.js';
+import { PriceBreakdown, PriceQuote } from './models.js';
+import { resolveEndpoint, ToolArgs, ToolDefinition } from './tool-definition.js';
+
+// Presupuesto de una estancia con el desglose normalizado: alojamiento, descuentos, tarifas e impuestos.
+// Los precios del backend ya incluyen el IGIC (impuesto general indirecto canario); aquí se separa.
+
+function round(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Desglose a partir de los importes del presupuesto; la fianza se devuelve aparte y no suma al total
+export function priceBreakdown(quote: PriceQuote): PriceBreakdown {
+  const descuento = quote.descuento ?? 0;
+  const limpieza = quote.limpieza ?? 0;
+  // Sin subtotal ni precio por noche del backend, todo lo que no es limpieza ni descuento es alojamiento
+  const alojamiento = quote.subtotal
+    ?? (quote.precio_noche !== undefined ? quote.precio_noche * quote.noches : quote.precio_total - limpieza + descuento);
+  const base = round(quote.precio_total / (1 + IGIC_RATE / 100));
+
+  return {
+    alojamiento: round(alojamiento),
+    precio_noche: round(alojamiento / Math.max(1, quote.noches)),
+    descuentos: descuento > 0 ? [{ concepto: 'descuento', importe: round(descuento) }] : [],
+    tarifas: limpieza > 0 ? [{ concepto: 'limpieza', importe: round(limpieza) }] : [],
+    impuestos: [{ concepto: 'IGIC', porcentaje: IGIC_RATE, base, importe: round(quote.precio_total - base), incluido: true }],
+    total: quote.precio_total,
+    fianza: quote.fianza,
+  };
+}
+
+export async function quoteStay(args: ToolArgs, definition: ToolDefinition): Promise<PriceQuote> {
+  const quote = await apiCall(
+    resolveEndpoint(definition, args),
+    backendArgs(args),
+    definition.method,
+    { idempotent: definition.idempotent }
+  ) as PriceQuote;
+  return { ...quote, desglose: priceBreakdown(quote) };
+}
@@ -0,0 +1,231 @@
+import { GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_LANGUAGE, hasMessage, isLanguage, Language, LANGUAGES, lookup, SOURCE_LANGUAGE, t } from './i18n.js';
+
+// Prompts MCP para los flujos habituales de planificación de vacaciones, en es/en/de
+
+export class PromptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptError';
+  }
+}
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptDefinition extends Prompt {
+  // Texto del mensaje de usuario en cada idioma
+  templates: Record<Language, (args: PromptArgs) => string>;
+}
+
+const idiomaArgument = {
+  name: 'idioma',
+  description: 'Idioma de la conversación: es (español), en (inglés), de (alemán). Por defecto: es',
+  required: false,
+};
+
+// Línea opcional: sólo se incluye si el argumento tiene valor
+function optional(value: string | undefined, line: (value: string) => string): string {
+  return value ? `${line(value)}\n` : '';
+}
+
+const promptDefinitions: PromptDefinition[] = [
+  {
+    name: 'planificar_estancia',
+    title: 'Planificar una estancia en La Palma',
+    description: 'Guía para encontrar y presupuestar alojamiento en La Palma según fechas, tamaño del grupo, zona preferida y presupuesto.',
+    arguments: [
+      { name: 'fecha_llegada', description: 'Fecha de llegada (YYYY-MM-DD)', required: true },
+      { name: 'fecha_salida', description: 'Fecha de salida (YYYY-MM-DD)', required: true },
+      { name: 'num_personas', description: 'Número de huéspedes', required: true },
+      { name: 'zona', description: 'Municipio o zona preferida (opcional)', required: false },
+      { name: 'presupuesto', description: 'Presupuesto total máximo en euros (opcional)', required: false },
+      idiomaArgument,
+    ],
+    templates: {
+      es: a =>
+        `Quiero planificar una estancia en La Palma del ${a.fecha_llegada} al ${a.fecha_salida} para ${a.num_personas} personas.\n` +
+        optional(a.zona, v => `Zona preferida: ${v}.`) +
+        optional(a.presupuesto, v => `Presupuesto total máximo: ${v} €.`) +
+        `\nPasos:\n` +
+        `1. Si hay zona preferida, usa listar_municipios (y listar_barrios si hace falta) para obtener el nombre exacto del municipio o barrio.\n` +
+        `2. Usa buscar_disponibilidad con las fechas, num_personas y el filtro de zona.\n` +
+        `3. Para las mejores opciones (máximo 5), usa calcular_precio_estancia con las mismas fechas y personas` +
+        `${a.presupuesto ? ' y descarta las que superen el presupuesto' : ''}.\n` +
+        `4. Usa obtener_detalles_propiedad con idioma "es" en las 2 o 3 finalistas.\n` +
+        `5. Resume las opciones en una tabla con nombre, ubicación, capacidad, precio total y enlace, y recomienda una.`,
+      en: a =>
+        `I want to plan a stay in La Palma from ${a.fecha_llegada} to ${a.fecha_salida} for ${a.num_personas} guests.\n` +
+        optional(a.zona, v => `Preferred area: ${v}.`) +
+        optional(a.presupuesto, v => `Maximum total budget: €${v}.`) +
+        `\nSteps:\n` +
+        `1. If there is a preferred area, use listar_municipios (and listar_barrios if needed) to get the exact municipality or neighborhood name.\n` +
+        `2. Use buscar_disponibilidad with the dates, num_personas and the area filter.\n` +
+        `3. For the best options (at most 5), use calcular_precio_estancia with the same dates and guests` +
+        `${a.presupuesto ? ' and drop those over budget' : ''}.\n` +
+        `4. Use obtener_detalles_propiedad with idioma "en" on the 2 or 3 finalists.\n` +
+        `5. Summarize the options in a table with name, location, capacity, total price and link, and recommend one.`,
+      de: a =>
+        `Ich möchte einen Aufenthalt auf La Palma vom ${a.fecha_llegada} bis ${a.fecha_salida} für ${a.num_personas} Personen planen.\n` +
+        optional(a.zona, v => `Bevorzugte Gegend: ${v}.`) +
+        optional(a.presupuesto, v => `Maximales Gesamtbudget: ${v} €.`) +
+        `\nSchritte:\n` +
+        `1. Wenn es eine bevorzugte Gegend gibt, nutze listar_municipios (und bei Bedarf listar_barrios), um den genauen Namen der Gemeinde oder des Ortsteils zu ermitteln.\n` +
+        `2. Nutze buscar_disponibilidad mit den Daten, num_personas und dem Gegend-Filter.\n` +
+        `3. Für die besten Optionen (höchstens 5) nutze calcular_precio_estancia mit denselben Daten und Personen` +
+        `${a.presupuesto ? ' und verwirf die, die das Budget überschreiten' : ''}.\n` +
+        `4. Nutze obtener_detalles_propiedad mit idioma "de" für die 2 oder 3 Favoriten.\n` +
+        `5. Fasse die Optionen in einer Tabelle mit Name, Lage, Kapazität, Gesamtpreis und Link zusammen und empfiehl eine.`,
+    },
+  },
+  {
+    name: 'comparar_propiedades',
+    title: 'Comparar propiedades',
+    description: 'Compara varias propiedades por capacidad, ubicación, amenidades y precio para unas fechas.',
+    arguments: [
+      { name: 'ids', description: 'IDs de las propiedades separados por comas', required: true },
+      { name: 'fecha_llegada', description: 'Fecha de llegada (YYYY-MM-DD, opcional)', required: false },
+      { name: 'fecha_salida', description: 'Fecha de salida (YYYY-MM-DD, opcional)', required: false },
+      { name: 'num_personas', description: 'Número de huéspedes (opcional)', required: false },
+      idiomaArgument,
+    ],
+    templates: {
+      es: a =>
+        `Compara estas propiedades de La Palma: ${a.ids}.\n` +
+        optional(a.fecha_llegada && a.fecha_salida ? `${a.fecha_llegada} – ${a.fecha_salida}` : undefined, v => `Fechas: ${v}.`) +
+        optional(a.num_personas, v => `Huéspedes: ${v}.`) +
+        `\nPasos:\n` +
+        `1. Usa comparar_propiedades con estos IDs en ids_casa, idioma "es"` +
+        (a.fecha_llegada && a.fecha_salida ? `, las fechas${a.num_personas ? ' y el número de huéspedes' : ''}.\n` : `. Sin fechas, compara el precio por noche publicado.\n`) +
+        `2. Presenta una tabla con capacidad, dormitorios, ubicación, amenidades clave, precio por noche y total, y descuentos.\n` +
+        `3. Señala las propiedades que no existan o no estén disponibles y da una recomendación razonada.`,
+      en: a =>
+        `Compare these La Palma properties: ${a.ids}.\n` +
+        optional(a.fecha_llegada && a.fecha_salida ? `${a.fecha_llegada} – ${a.fecha_salida}` : undefined, v => `Dates: ${v}.`) +
+        optional(a.num_personas, v => `Guests: ${v}.`) +
+        `\nSteps:\n` +
+        `1. Use comparar_propiedades with these IDs in ids_casa, idioma "en"` +
+        (a.fecha_llegada && a.fecha_salida ? `, the dates${a.num_personas ? ' and the number of guests' : ''}.\n` : `. Without dates, compare the published nightly price.\n`) +
+        `2. Present a table with capacity, bedrooms, location, key amenities, nightly and total price, and discounts.\n` +
+        `3. Flag properties that do not exist or are unavailable and give a reasoned recommendation.`,
+      de: a =>
+        `Vergleiche diese Unterkünfte auf La Palma: ${a.ids}.\n` +
+        optional(a.fecha_llegada && a.fecha_salida ? `${a.fecha_llegada} – ${a.fecha_salida}` : undefined, v => `Reisedaten: ${v}.`) +
+        optional(a.num_personas, v => `Personen: ${v}.`) +
+        `\nSchritte:\n` +
+        `1. Nutze comparar_propiedades mit diesen IDs in ids_casa, idioma "de"` +
+        (a.fecha_llegada && a.fecha_salida ? `, den Reisedaten${a.num_personas ? ' und der Personenzahl' : ''}.\n` : `. Ohne Reisedaten vergleiche den veröffentlichten Preis pro Nacht.\n`) +
+        `2. Stelle eine Tabelle mit Kapazität, Schlafzimmern, Lage, wichtigsten Ausstattungsmerkmalen, Preis pro Nacht und Gesamtpreis sowie Rabatten dar.\n` +
+        `3. Markiere Unterkünfte, die nicht existieren oder nicht verfügbar sind, und gib eine begründete Empfehlung.`,
+    },
+  },
+  {
+    name: 'casa_familiar_playa',
+    title: 'Casa familiar cerca de la playa',
+    description: 'Busca una casa apta para familias cerca de la playa (Puerto Naos, Tazacorte, Los Cancajos...) para unas fechas.',
+    arguments: [
+      { name: 'fecha_llegada', description: 'Fecha de llegada (YYYY-MM-DD)', required: true },
+      { name: 'fecha_salida', description: 'Fecha de salida (YYYY-MM-DD)', required: true },
+      { name: 'num_personas', description: 'Número de huéspedes, incluidos niños', required: true },
+      { name: 'ninos', description: 'Número de niños y edades (opcional)', required: false },
+      idiomaArgument,
+    ],
+    templates: {
+      es: a =>
+        `Busco una casa para una familia de ${a.num_personas} personas cerca de la playa en La Palma, del ${a.fecha_llegada} al ${a.fecha_salida}.\n` +
+        optional(a.ninos, v => `Niños: ${v}.`) +
+        `\nPasos:\n` +
+        `1. Usa listar_barrios para localizar las zonas de playa (por ejemplo Puerto Naos, Puerto de Tazacorte, Los Cancajos).\n` +
+        `2. Usa buscar_disponibilidad con las fechas y num_personas, una vez por cada zona de playa (filtro barrio).\n` +
+        `3. Prioriza casas con al menos 2 dormitorios; usa obtener_detalles_propiedad con idioma "es" para comprobar amenidades familiares (piscina, terraza, parking, cunas).\n` +
+        `4. Usa calcular_precio_estancia en las 3 mejores y preséntalas con precio total, distancia a la playa y enlace.`,
+      en: a =>
+        `I'm looking for a house for a family of ${a.num_personas} near the beach in La Palma, from ${a.fecha_llegada} to ${a.fecha_salida}.\n` +
+        optional(a.ninos, v => `Children: ${v}.`) +
+        `\nSteps:\n` +
+        `1. Use listar_barrios to find the beach areas (for example Puerto Naos, Puerto de Tazacorte, Los Cancajos).\n` +
+        `2. Use buscar_disponibilidad with the dates and num_personas, once per beach area (barrio filter).\n` +
+        `3. Prefer houses with at least 2 bedrooms; use obtener_detalles_propiedad with idioma "en" to check family amenities (pool, terrace, parking, cots).\n` +
+        `4. Use calcular_precio_estancia on the top 3 and present them with total price, distance to the beach and link.`,
+      de: a =>
+        `Ich suche ein Haus für eine Familie mit ${a.num_personas} Personen in Strandnähe auf La Palma, vom ${a.fecha_llegada} bis ${a.fecha_salida}.\n` +
+        optional(a.ninos, v => `Kinder: ${v}.`) +
+        `\nSchritte:\n` +
+        `1. Nutze listar_barrios, um die Strandorte zu finden (zum Beispiel Puerto Naos, Puerto de Tazacorte, Los Cancajos).\n` +
+        `2. Nutze buscar_disponibilidad mit den Reisedaten und num_personas, einmal pro Strandort (Filter barrio).\n` +
+        `3. Bevorzuge Häuser mit mindestens 2 Schlafzimmern; prüfe mit obtener_detalles_propiedad und idioma "de" familienfreundliche Ausstattung (Pool, Terrasse, Parkplatz, Kinderbetten).\n` +
+        `4. Nutze calcular_precio_estancia für die 3 besten und stelle sie mit Gesamtpreis, Entfernung zum Strand und Link vor.`,
+    },
+  },
+];
+
+// Prompts tal como se anuncian en prompts/list
+export const prompts: Prompt[] = promptDefinitions.map(({ templates, ...prompt }) => prompt);
+
+// Título, descripción y argumentos de un prompt en otro idioma (lo que no esté traducido queda en español)
+function localizePrompt(prompt: Prompt, language: Language): Prompt {
+  if (language === SOURCE_LANGUAGE) {
+    return prompt;
+  }
+  const text = (key: string) => lookup(language, `prompt.${prompt.name}.${key}`);
+  return {
+    ...prompt,
+    title: text('title') ?? prompt.title,
+    description: text('description') ?? prompt.description,
+    arguments: prompt.arguments?.map(arg => ({
+      ...arg,
+      description: text(`arg.${arg.name}`) ?? lookup(language, `prompt.arg.${arg.name}`) ?? arg.description,
+    })),
+  };
+}
+
+export function localizedPrompts(language: Language): Prompt[] {
+  return prompts.map(prompt => localizePrompt(prompt, language));
+}
+
+// Claves del catálogo que faltan para anunciar los prompts en `language`
+export function missingPromptMessages(language: Language): string[] {
+  if (language === SOURCE_LANGUAGE) {
+    return [];
+  }
+  return prompts.flatMap(prompt => [
+    ...['title', 'description'].map(key => `prompt.${prompt.name}.${key}`).filter(key => !hasMessage(language, key)),
+    ...(prompt.arguments ?? [])
+      .filter(arg => !hasMessage(language, `prompt.${prompt.name}.arg.${arg.name}`) && !hasMessage(language, `prompt.arg.${arg.name}`))
+      .map(arg => `prompt.arg.${arg.name}`),
+  ]);
+}
+
+// Construye el prompt en el idioma pedido; lanza PromptError si no existe o faltan argumentos.
+// Los errores se dan en el idioma pedido si es válido y, si no, en `language`.
+export function getPrompt(name: string, args: PromptArgs = {}, language: Language = DEFAULT_LANGUAGE): GetPromptResult {
+  const errorLanguage = isLanguage(args.idioma) ? args.idioma : language;
+  const definition = promptDefinitions.find(p => p.name === name);
+  if (!definition) {
+    throw new PromptError(t(errorLanguage, 'error.unknownPrompt', { name }));
+  }
+
+  const missing = (definition.arguments || [])
+    .filter(arg => arg.required && !args[arg.name])
+    .map(arg => arg.name);
+  if (missing.length > 0) {
+    throw new PromptError(t(errorLanguage, 'error.missingPromptArguments', { name, arguments: missing.join(', ') }));
+  }
+
+  const idioma = (args.idioma || language) as Language;
+  if (!LANGUAGES.includes(idioma)) {
+    throw new PromptError(t(errorLanguage, 'error.unsupportedLanguage', { language: idioma, languages: LANGUAGES.join(', ') }));
+  }
+
+  return {
+    description: localizePrompt(definition, idioma).description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: definition.templates[idioma](args),
+        },
+      },
+    ],
+  };
+}
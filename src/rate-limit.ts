@@ -0,0 +1,172 @@
+import type { Express, NextFunction, Request, RequestHandler, Response } from 'express';
+import { clientRateLimit } from './auth.js';
+import { RATE_LIMIT_ENABLED, RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_SECONDS, TRUST_PROXY } from './config.js';
+import { createLogger } from './logger.js';
+import { CollectedMetric, metrics, rateLimitDecisions } from './metrics.js';
+import type { ToolArgs } from './tool-definition.js';
+import { findTool } from './tools.js';
+
+// Límite de peticiones por ventana fija, con peso por herramienta
+
+export const RATE_LIMIT_ERROR_CODE = -32000;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+interface Bucket {
+  used: number;
+  resetAt: number;
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private readonly max: number, private readonly windowMs: number) {
+    // Limpieza periódica de ventanas caducadas
+    setInterval(() => this.prune(), Math.min(windowMs, 60_000)).unref();
+  }
+
+  consume(key: string, weight = 1, limit = this.max): RateLimitResult {
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+    if (!bucket || bucket.resetAt <= now) {
+      bucket = { used: 0, resetAt: now + this.windowMs };
+      this.buckets.set(key, bucket);
+    }
+
+    const allowed = bucket.used + weight <= limit;
+    if (allowed) {
+      bucket.used += weight;
+    }
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.max(0, limit - bucket.used),
+      resetAt: bucket.resetAt,
+    };
+  }
+
+  prune(): void {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.resetAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+
+  get window(): number {
+    return this.windowMs;
+  }
+
+  // Cubos con ventana abierta (incluye los caducados hasta la próxima limpieza)
+  get size(): number {
+    return this.buckets.size;
+  }
+}
+
+export const rateLimiter = new RateLimiter(RATE_LIMIT_MAX, RATE_LIMIT_WINDOW_SECONDS * 1000);
+
+metrics.register(new CollectedMetric(
+  'lapalma24_rate_limit_buckets', 'Clientes con ventana del límite de peticiones abierta', 'gauge', () => rateLimiter.size
+));
+
+const log = createLogger('rate-limit');
+
+// Configura `trust proxy` para que req.ip refleje la IP real del cliente detrás de proxies de confianza
+export function applyTrustProxy(app: Express): void {
+  if (!TRUST_PROXY || TRUST_PROXY === 'false') {
+    return;
+  }
+  if (TRUST_PROXY === 'true') {
+    app.set('trust proxy', true);
+  } else if (/^\d+$/.test(TRUST_PROXY)) {
+    app.set('trust proxy', Number(TRUST_PROXY));
+  } else {
+    app.set('trust proxy', TRUST_PROXY.split(',').map(s => s.trim()));
+  }
+}
+
+// Cubo del cliente autenticado (con su rate_limit) o, sin autenticación, de la IP. Los límites
+// propios solo se conceden tras autenticar: una cabecera X-API-Key sin validar no los obtiene
+function clientKey(req: Request): { key: string; limit: number } {
+  if (req.auth) {
+    return { key: `client:${req.auth.clientId}`, limit: clientRateLimit(req.auth) ?? RATE_LIMIT_MAX };
+  }
+  return { key: `ip:${req.ip}`, limit: RATE_LIMIT_MAX };
+}
+
+// Peso de una llamada a la herramienta con estos argumentos (sin validar todavía)
+function toolWeight(name: string, args: unknown): number {
+  const weight = findTool(name)?.rateLimitWeight ?? 1;
+  if (typeof weight === 'number') {
+    return weight;
+  }
+  return weight(args !== null && typeof args === 'object' && !Array.isArray(args) ? args as ToolArgs : {});
+}
+
+function messageWeight(message: any): number {
+  if (message?.method === 'tools/call') {
+    return toolWeight(message.params?.name, message.params?.arguments);
+  }
+  return 1;
+}
+
+// Peso de la petición: herramienta de la ruta, o suma de los mensajes JSON-RPC del cuerpo
+export function requestWeight(req: Request): number {
+  const { toolName } = req.params;
+  if (typeof toolName === 'string') {
+    return toolWeight(toolName, req.body);
+  }
+  if (Array.isArray(req.body)) {
+    return req.body.reduce((total: number, message: any) => total + messageWeight(message), 0) || 1;
+  }
+  return messageWeight(req.body);
+}
+
+// Middleware de límite de peticiones; `format` decide si el error se devuelve como JSON-RPC o JSON simple
+export function rateLimit(format: 'jsonrpc' | 'rest'): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!RATE_LIMIT_ENABLED) {
+      return next();
+    }
+
+    const { key, limit } = clientKey(req);
+    const result = rateLimiter.consume(key, requestWeight(req), limit);
+    const resetSeconds = Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000));
+
+    res.setHeader('RateLimit-Policy', `${limit};w=${Math.round(rateLimiter.window / 1000)}`);
+    res.setHeader('RateLimit-Limit', String(result.limit));
+    res.setHeader('RateLimit-Remaining', String(result.remaining));
+    res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+    rateLimitDecisions.inc({ outcome: result.allowed ? 'allowed' : 'limited' });
+    if (result.allowed) {
+      return next();
+    }
+
+    log.warn('Límite de peticiones superado', { key, limit });
+    res.setHeader('Retry-After', String(resetSeconds));
+
+    const message = `Rate limit exceeded: ${limit} requests per ${Math.round(rateLimiter.window / 1000)}s. Retry in ${resetSeconds}s`;
+
+    if (format === 'rest') {
+      return res.status(429).json({ success: false, error: message, retryAfter: resetSeconds });
+    }
+
+    return res.status(429).json({
+      jsonrpc: '2.0',
+      id: Array.isArray(req.body) ? null : req.body?.id ?? null,
+      error: {
+        code: RATE_LIMIT_ERROR_CODE,
+        message,
+        data: { retryAfter: resetSeconds, limit },
+      },
+    });
+  };
+}
@@ -0,0 +1,370 @@
+import { DEFAULT_LANGUAGE, Language, requestLanguage, t } from './i18n.js';
+import {
+  AvailabilityResponse,
+  ExchangeRate,
+  FlexibleSearchResponse,
+  PriceQuote,
+  PropertyDetailsResponse,
+  PropertyListResponse,
+  PropertySummary,
+} from './models.js';
+
+// Presentación de resultados para el bloque de texto: JSON (por defecto), Markdown o compacto.
+// structuredContent sigue siendo siempre el JSON validado; esto solo cambia lo que lee el modelo.
+
+export type OutputFormat = 'json' | 'markdown' | 'compact';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'markdown', 'compact'];
+
+const LOCALES: Record<Language, string> = { es: 'es-ES', en: 'en-GB', de: 'de-DE' };
+
+interface Labels {
+  available: (count: number) => string;
+  listed: (from: number, to: number, total: number) => string;
+  nextPage: (cursor: string) => string;
+  truncated: string;
+  noResults: string;
+  night: string;
+  nights: (count: number) => string;
+  guests: (count: number) => string;
+  bedrooms: (count: number) => string;
+  bathrooms: (count: number) => string;
+  property: string;
+  location: string;
+  capacity: string;
+  perNight: string;
+  total: string;
+  arrival: string;
+  departure: string;
+  subtotal: string;
+  discount: string;
+  cleaning: string;
+  tax: (name: string, rate: string) => string;
+  deposit: string;
+  exchangeRate: (rate: string, date: string) => string;
+  amenities: string;
+  photos: string;
+  isAvailable: string;
+  notAvailable: string;
+  flexible: (shown: number, queried: number, possible: number) => string;
+}
+
+// Textos de la presentación en `language`, del catálogo de mensajes (render.*)
+function labels(language: Language): Labels {
+  const text = (key: string, params?: Record<string, unknown>) => t(language, `render.${key}`, params);
+  const counted = (key: string) => (count: number) => text(`${key}.${count === 1 ? 'one' : 'other'}`, { count });
+  return {
+    available: counted('available'),
+    listed: (from, to, total) => text('listed', { from, to, total }),
+    nextPage: cursor => text('nextPage', { cursor }),
+    truncated: text('truncated'),
+    noResults: text('noResults'),
+    night: text('night'),
+    nights: counted('nights'),
+    guests: counted('guests'),
+    bedrooms: counted('bedrooms'),
+    bathrooms: counted('bathrooms'),
+    property: text('property'),
+    location: text('location'),
+    capacity: text('capacity'),
+    perNight: text('perNight'),
+    total: text('total'),
+    arrival: text('arrival'),
+    departure: text('departure'),
+    subtotal: text('subtotal'),
+    discount: text('discount'),
+    cleaning: text('cleaning'),
+    tax: (name, rate) => text('tax', { name, rate }),
+    deposit: text('deposit'),
+    exchangeRate: (rate, date) => text('exchangeRate', { rate, date }),
+    amenities: text('amenities'),
+    photos: text('photos'),
+    isAvailable: text('isAvailable'),
+    notAvailable: text('notAvailable'),
+    flexible: (shown, queried, possible) => text('flexible', { shown, queried, possible }),
+  };
+}
+
+function money(amount: number | undefined, currency: string, language: Language): string {
+  if (amount === undefined) {
+    return '–';
+  }
+  try {
+    return new Intl.NumberFormat(LOCALES[language], {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount);
+  } catch {
+    // Código de moneda que Intl no reconoce (RangeError): el número con el código tal cual
+    const number = new Intl.NumberFormat(LOCALES[language], { maximumFractionDigits: 2 }).format(amount);
+    return currency ? `${number} ${currency}` : number;
+  }
+}
+
+// "1 EUR = 0,87 GBP" con la fecha de la tabla de tipos de cambio
+function exchangeRate(rate: ExchangeRate, l: Labels, language: Language): string {
+  const tasa = new Intl.NumberFormat(LOCALES[language], { maximumFractionDigits: 4 }).format(rate.tasa);
+  return l.exchangeRate(`1 ${rate.base} = ${tasa} ${rate.moneda}`, rate.fecha);
+}
+
+// Texto seguro dentro de una celda de tabla Markdown
+function cell(value: unknown): string {
+  return value === undefined || value === null ? '–' : String(value).replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function link(name: string, url?: string): string {
+  return url ? `[${cell(name)}](${url})` : cell(name);
+}
+
+// Barrio y municipio, y la distancia al punto de referencia en las búsquedas por proximidad
+function place(property: { barrio?: string; municipio?: string; distancia_km?: number }, language: Language): string {
+  const distance = property.distancia_km !== undefined
+    ? `(${new Intl.NumberFormat(LOCALES[language], { maximumFractionDigits: 1 }).format(property.distancia_km)} km)`
+    : undefined;
+  return [[property.barrio, property.municipio].filter(Boolean).join(', '), distance].filter(Boolean).join(' ');
+}
+
+// Tabla Markdown; las celdas ya vienen escapadas con cell()/link()
+function table(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`),
+  ].join('\n');
+}
+
+// Línea compacta de una propiedad: id · nombre · ubicación · capacidad · precio · enlace
+function compactProperty(property: PropertySummary, l: Labels, language: Language, extra: string[] = []): string {
+  return [
+    property.id_casa,
+    property.nombre,
+    place(property, language),
+    `${l.guests(property.personas_max)}/${l.bedrooms(property.dormitorios)}`,
+    ...extra,
+    property.url,
+  ].filter(Boolean).join(' · ');
+}
+
+function renderAvailability(result: AvailabilityResponse, format: OutputFormat, language: Language): string {
+  const l = labels(language);
+  const currency = result.moneda ?? 'EUR';
+  const header = `${l.available(result.propiedades.length)} · ${result.fecha_llegada} → ${result.fecha_salida} (${l.nights(result.noches)})`;
+
+  if (format === 'compact') {
+    return [
+      header,
+      ...result.propiedades.map(p =>
+        compactProperty(p, l, language, [`${money(p.precio_noche, currency, language)}/${l.night}`, `${l.total} ${money(p.precio_total, currency, language)}`])
+      ),
+    ].join('\n');
+  }
+
+  if (result.propiedades.length === 0) {
+    return `**${header}**\n\n${l.noResults}`;
+  }
+
+  return `**${header}**\n\n` + table(
+    [l.property, l.location, l.capacity, l.perNight, l.total],
+    result.propiedades.map(p => [
+      link(p.nombre, p.url),
+      cell(place(p, language)),
+      `${l.guests(p.personas_max)}, ${l.bedrooms(p.dormitorios)}`,
+      money(p.precio_noche, currency, language),
+      money(p.precio_total, currency, language),
+    ])
+  );
+}
+
+function renderPropertyList(result: PropertyListResponse, format: OutputFormat, language: Language): string {
+  const l = labels(language);
+  const currency = result.moneda ?? 'EUR';
+  const offset = result.offset ?? 0;
+  const header = result.propiedades.length === 0
+    ? l.noResults
+    : l.listed(offset + 1, offset + result.propiedades.length, result.total);
+  const footer: string[] = [];
+  if (result.incompleto) {
+    footer.push(l.truncated);
+  }
+  if (result.next_cursor) {
+    footer.push(l.nextPage(result.next_cursor));
+  }
+
+  if (format === 'compact') {
+    return [
+      header,
+      ...result.propiedades.map(p => compactProperty(p, l, language, [`${money(p.precio_noche, currency, language)}/${l.night}`])),
+      ...footer,
+    ].join('\n');
+  }
+
+  if (result.propiedades.length === 0) {
+    return l.noResults;
+  }
+
+  return `**${header}**\n\n` + table(
+    [l.property, l.location, l.capacity, l.perNight],
+    result.propiedades.map(p => [
+      link(p.nombre, p.url),
+      cell(place(p, language)),
+      `${l.guests(p.personas_max)}, ${l.bedrooms(p.dormitorios)}`,
+      money(p.precio_noche, currency, language),
+    ])
+  ) + footer.map(line => `\n\n${line}`).join('');
+}
+
+function renderDetails(result: PropertyDetailsResponse, format: OutputFormat, language: Language): string {
+  const l = labels(language);
+  const p = result.propiedad;
+  const capacity = [l.guests(p.personas_max), l.bedrooms(p.dormitorios), p.banos !== undefined ? l.bathrooms(p.banos) : undefined]
+    .filter(Boolean)
+    .join(', ');
+
+  if (format === 'compact') {
+    return [
+      compactProperty(p, l, language, [`${money(p.precio_noche, 'EUR', language)}/${l.night}`]),
+      p.amenidades?.length ? `${l.amenities}: ${p.amenidades.join(', ')}` : undefined,
+      p.descripcion,
+    ].filter(Boolean).join('\n');
+  }
+
+  return [
+    `### ${link(p.nombre, p.url)}`,
+    [p.tipo, place(p, language)].filter(Boolean).join(' · '),
+    '',
+    `- **${l.capacity}:** ${capacity}`,
+    `- **${l.perNight}:** ${money(p.precio_noche, 'EUR', language)}`,
+    p.limpieza !== undefined ? `- **${l.cleaning}:** ${money(p.limpieza, 'EUR', language)}` : undefined,
+    p.amenidades?.length ? `- **${l.amenities}:** ${p.amenidades.join(', ')}` : undefined,
+    p.fotos?.length ? `- **${l.photos}:** ${p.fotos.map((url, i) => `[${i + 1}](${url})`).join(' ')}` : undefined,
+    p.descripcion ? `\n${p.descripcion}` : undefined,
+  ].filter(line => line !== undefined).join('\n');
+}
+
+function renderQuote(result: PriceQuote, format: OutputFormat, language: Language): string {
+  const l = labels(language);
+  const m = (amount?: number) => money(amount, result.moneda, language);
+  const status = result.disponible === false ? l.notAvailable : l.isAvailable;
+  const taxes = (result.desglose?.impuestos ?? [])
+    .map(tax => `${l.tax(tax.concepto, new Intl.NumberFormat(LOCALES[language]).format(tax.porcentaje))}: ${m(tax.importe)}`);
+
+  if (format === 'compact') {
+    const breakdown = [
+      result.subtotal !== undefined ? `${l.subtotal} ${m(result.subtotal)}` : undefined,
+      result.descuento ? `${l.discount} −${m(result.descuento)}` : undefined,
+      result.limpieza !== undefined ? `${l.cleaning} +${m(result.limpieza)}` : undefined,
+    ].filter(Boolean).join(', ');
+    return [
+      result.id_casa,
+      `${result.fecha_llegada} → ${result.fecha_salida}`,
+      l.nights(result.noches),
+      `${l.total} ${m(result.precio_total)}${breakdown ? ` (${breakdown})` : ''}`,
+      ...taxes,
+      status,
+    ].join(' · ');
+  }
+
+  return [
+    `**${result.id_casa}** · ${result.fecha_llegada} → ${result.fecha_salida} · ${l.nights(result.noches)} · ${status}`,
+    '',
+    result.precio_noche !== undefined
+      ? `- ${l.nights(result.noches)} × ${m(result.precio_noche)} = ${m(result.subtotal ?? result.precio_noche * result.noches)}`
+      : undefined,
+    result.descuento ? `- ${l.discount}: −${m(result.descuento)}` : undefined,
+    result.limpieza !== undefined ? `- ${l.cleaning}: +${m(result.limpieza)}` : undefined,
+    `- **${l.total}: ${m(result.precio_total)}**`,
+    ...taxes.map(tax => `  - ${tax}`),
+    result.fianza !== undefined ? `- ${l.deposit}: ${m(result.fianza)}` : undefined,
+    result.tipo_cambio ? `\n_${exchangeRate(result.tipo_cambio, l, language)}_` : undefined,
+  ].filter(line => line !== undefined).join('\n');
+}
+
+function renderFlexible(result: FlexibleSearchResponse, format: OutputFormat, language: Language): string {
+  const l = labels(language);
+  const header = l.flexible(result.resultados.length, result.combinaciones_consultadas, result.combinaciones_posibles);
+
+  if (format === 'compact') {
+    return [
+      header,
+      ...result.resultados.map(r =>
+        [
+          `${r.fecha_llegada} → ${r.fecha_salida}`,
+          l.nights(r.noches),
+          r.id_casa,
+          r.nombre,
+          `${l.total} ${money(r.precio_total, r.moneda, language)}`,
+          r.url,
+        ].filter(Boolean).join(' · ')
+      ),
+    ].join('\n');
+  }
+
+  if (result.resultados.length === 0) {
+    return `**${header}**\n\n${l.noResults}`;
+  }
+
+  return `**${header}**\n\n` + table(
+    [l.arrival, l.departure, l.property, l.location, l.total, l.perNight],
+    result.resultados.map(r => [
+      r.fecha_llegada,
+      r.fecha_salida,
+      link(r.nombre ?? r.id_casa, r.url),
+      cell(place(r, language)),
+      money(r.precio_total, r.moneda, language),
+      money(r.precio_noche_medio, r.moneda, language),
+    ])
+  );
+}
+
+// Resultado de cada herramienta con presentación propia
+interface RenderedResults {
+  buscar_disponibilidad: AvailabilityResponse;
+  buscar_fechas_flexibles: FlexibleSearchResponse;
+  listar_propiedades: PropertyListResponse;
+  obtener_detalles_propiedad: PropertyDetailsResponse;
+  calcular_precio_estancia: PriceQuote;
+}
+
+type Renderer<T> = (result: T, format: OutputFormat, language: Language) => string;
+
+const RENDERERS: { [Tool in keyof RenderedResults]: Renderer<RenderedResults[Tool]> } = {
+  buscar_disponibilidad: renderAvailability,
+  buscar_fechas_flexibles: renderFlexible,
+  listar_propiedades: renderPropertyList,
+  obtener_detalles_propiedad: renderDetails,
+  calcular_precio_estancia: renderQuote,
+};
+
+function hasRenderer(toolName: string): toolName is keyof RenderedResults {
+  return Object.hasOwn(RENDERERS, toolName);
+}
+
+function render<Tool extends keyof RenderedResults>(
+  toolName: Tool,
+  result: RenderedResults[Tool],
+  format: OutputFormat,
+  language: Language
+): string {
+  const renderer: Renderer<RenderedResults[Tool]> = RENDERERS[toolName];
+  return renderer(result, format, language);
+}
+
+// Texto del resultado de una herramienta según el argumento `formato`, en el idioma del argumento
+// `idioma` o, sin él, en `language` (el de la sesión o DEFAULT_LANGUAGE)
+export function renderToolResult(
+  toolName: string,
+  result: unknown,
+  args: Record<string, any> = {},
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  const format: OutputFormat = OUTPUT_FORMATS.includes(args.formato) ? args.formato : 'json';
+
+  if (format === 'json' || !hasRenderer(toolName)) {
+    return JSON.stringify(result, null, 2);
+  }
+
+  // El resultado ya se ha validado con el outputSchema de la herramienta
+  return render(toolName, result as RenderedResults[typeof toolName], format, requestLanguage(args, undefined, language));
+}
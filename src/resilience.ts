@@ -0,0 +1,125 @@
+import { createLogger } from './logger.js';
+
+// Utilidades de resiliencia para el cliente del backend: backoff, Retry-After y circuit breaker
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryInSeconds: number;
+}
+
+const log = createLogger('backend');
+
+export class BackendUnavailableError extends Error {
+  constructor(public readonly retryInSeconds: number) {
+    super(`Backend no disponible temporalmente. Reintenta en ${retryInSeconds}s`);
+    this.name = 'BackendUnavailableError';
+  }
+}
+
+// Corta las llamadas al backend tras `threshold` fallos seguidos; pasado `resetMs` deja pasar una prueba
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(private readonly threshold: number, private readonly resetMs: number) {}
+
+  // Lanza BackendUnavailableError si el circuito está abierto
+  assertCanRequest(): void {
+    if (this.state === 'open') {
+      const elapsed = Date.now() - this.openedAt;
+      if (elapsed < this.resetMs) {
+        throw new BackendUnavailableError(Math.ceil((this.resetMs - elapsed) / 1000));
+      }
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open') {
+      if (this.probeInFlight) {
+        throw new BackendUnavailableError(1);
+      }
+      this.probeInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.probeInFlight = false;
+
+    if (this.state === 'half_open' || this.failures >= this.threshold) {
+      if (this.state !== 'open') {
+        log.error('Circuito del backend abierto', { consecutiveFailures: this.failures });
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    const retryMs = this.state === 'open' ? Math.max(0, this.resetMs - (Date.now() - this.openedAt)) : 0;
+    return {
+      state: this.state,
+      consecutiveFailures: this.failures,
+      openedAt: this.state === 'closed' ? null : new Date(this.openedAt).toISOString(),
+      retryInSeconds: Math.ceil(retryMs / 1000),
+    };
+  }
+}
+
+// Espera exponencial con jitter completo: aleatorio entre 0 y min(max, base * 2^intento)
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  return Math.round(Math.random() * Math.min(maxMs, baseMs * 2 ** attempt));
+}
+
+// Convierte la cabecera Retry-After (segundos o fecha HTTP) en milisegundos
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Ejecuta `task` sobre cada elemento con como mucho `limit` tareas en paralelo.
+// Devuelve los resultados en el orden de `items`, sin cortar por los fallos.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
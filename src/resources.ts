@@ -0,0 +1,142 @@
+import { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { ApiError, apiErrorMessage } from './api.js';
+import { DEFAULT_LANGUAGE, Language, t } from './i18n.js';
+import { ToolArgs } from './tool-definition.js';
+import { callTool } from './tools.js';
+import { ToolValidationError } from './validation.js';
+
+// Recursos MCP: municipios, barrios y fichas de propiedades, servidos por las mismas herramientas del registro
+
+export const RESOURCE_SCHEME = 'lapalma24';
+
+// Código JSON-RPC de la especificación MCP para recursos inexistentes
+export const RESOURCE_NOT_FOUND_CODE = -32002;
+
+export class ResourceNotFoundError extends Error {
+  constructor(public readonly uri: string) {
+    super(`Recurso no encontrado: ${uri}`);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+export const resources: Resource[] = [
+  {
+    uri: `${RESOURCE_SCHEME}://municipios`,
+    name: 'municipios',
+    title: 'Municipios de La Palma',
+    description: 'Lista de municipios de La Palma con propiedades vacacionales.',
+    mimeType: 'application/json',
+  },
+];
+
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://municipios/{municipio}/barrios`,
+    name: 'barrios',
+    title: 'Barrios de un municipio',
+    description: 'Barrios/zonas con propiedades en un municipio (nombre codificado como URI, ej: Santa%20Cruz%20de%20La%20Palma).',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}://propiedad/{id_casa}{?idioma}`,
+    name: 'propiedad',
+    title: 'Ficha de propiedad',
+    description: 'Ficha completa de una propiedad: características, amenidades, ubicación, precios y fotos. idioma: es, en o de.',
+    mimeType: 'application/json',
+  },
+];
+
+interface ResourceRoute {
+  // Host y segmentos de la ruta; los que empiezan por ':' son parámetros
+  host: string;
+  segments: string[];
+  tool: string;
+  args: (params: Record<string, string>, query: URLSearchParams) => ToolArgs;
+}
+
+const routes: ResourceRoute[] = [
+  {
+    host: 'municipios',
+    segments: [],
+    tool: 'listar_municipios',
+    args: () => ({}),
+  },
+  {
+    host: 'municipios',
+    segments: [':municipio', 'barrios'],
+    tool: 'listar_barrios',
+    args: ({ municipio }) => ({ municipio }),
+  },
+  {
+    host: 'propiedad',
+    segments: [':id_casa'],
+    tool: 'obtener_detalles_propiedad',
+    args: ({ id_casa }, query) => ({ id_casa, idioma: query.get('idioma') || 'es' }),
+  },
+];
+
+function matchRoute(uri: string): { route: ResourceRoute; params: Record<string, string>; query: URLSearchParams } | null {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== `${RESOURCE_SCHEME}:`) {
+    return null;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  for (const route of routes) {
+    if (route.host !== url.hostname || route.segments.length !== segments.length) {
+      continue;
+    }
+
+    const params: Record<string, string> = {};
+    const matches = route.segments.every((segment, index) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return segment === segments[index];
+    });
+
+    if (matches) {
+      return { route, params, query: url.searchParams };
+    }
+  }
+
+  return null;
+}
+
+// Lee un recurso; lanza ResourceNotFoundError si la URI no corresponde a ningún recurso
+export async function readResource(uri: string): Promise<ReadResourceResult> {
+  const match = matchRoute(uri);
+  if (!match) {
+    throw new ResourceNotFoundError(uri);
+  }
+
+  const result = await callTool(match.route.tool, match.route.args(match.params, match.query));
+
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
+
+// Traduce un error de lectura de recurso a error JSON-RPC
+export function resourceError(error: any, language: Language = DEFAULT_LANGUAGE): { code: number; message: string; data?: unknown } {
+  if (error instanceof ResourceNotFoundError) {
+    return { code: RESOURCE_NOT_FOUND_CODE, message: t(language, 'error.resourceNotFound', { uri: error.uri }), data: { uri: error.uri } };
+  }
+  if (error instanceof ToolValidationError) {
+    return { code: -32602, message: error.message, data: { errors: error.issues } };
+  }
+  return { code: -32603, message: error instanceof ApiError ? apiErrorMessage(error, language) : error.message };
+}
@@ -0,0 +1,72 @@
+import express from 'express';
+import { requireAuth } from './auth.js';
+import { requestLanguage, t } from './i18n.js';
+import { rateLimit } from './rate-limit.js';
+import { BackendUnavailableError } from './resilience.js';
+import { callTool, findTool, toolErrorMessage, tools, ToolScopeError } from './tools.js';
+import { trackUsage } from './usage.js';
+import { ResponseValidationError, ToolValidationError } from './validation.js';
+
+// API REST de las herramientas (POST /tools/:toolName, sin MCP), común a los servidores HTTP y SSE
+export function createToolsRouter() {
+  const router = express.Router();
+
+  router.post<{ toolName: string }>('/:toolName', requireAuth(), rateLimit('rest'), trackUsage(), async (req, res) => {
+    const { toolName } = req.params;
+    // Sin cuerpo JSON, Express 5 deja req.body sin definir
+    const args = req.body ?? {};
+    const language = requestLanguage(args, req.headers['accept-language']);
+
+    try {
+      if (!findTool(toolName)) {
+        return res.status(404).json({
+          success: false,
+          error: t(language, 'error.toolNotFound', { name: toolName }),
+          available: tools.map(tool => tool.name)
+        });
+      }
+
+      const result = await callTool(toolName, args, { scopes: req.auth?.scopes });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ToolScopeError) {
+        return res.status(403).json({
+          success: false,
+          error: t(language, 'error.insufficientScope', { name: toolName, scope: error.scope })
+        });
+      }
+
+      if (error instanceof ToolValidationError) {
+        return res.status(400).json({
+          success: false,
+          error: t(language, 'error.invalidArguments'),
+          errors: error.issues
+        });
+      }
+
+      if (error instanceof ResponseValidationError) {
+        return res.status(502).json({
+          success: false,
+          error: t(language, 'error.unexpectedResponse'),
+          errors: error.issues
+        });
+      }
+
+      // Circuito abierto: el cliente puede reintentar pasado Retry-After
+      if (error instanceof BackendUnavailableError) {
+        res.setHeader('Retry-After', String(error.retryInSeconds));
+        return res.status(503).json({
+          success: false,
+          error: t(language, 'error.backendUnavailable', { seconds: error.retryInSeconds })
+        });
+      }
+
+      res.status(500).json({
+        success: false,
+        error: toolErrorMessage(error, toolName, language)
+      });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,73 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { isDeepStrictEqual } from 'util';
+import { Language } from '../i18n.js';
+import { localizedTools, missingToolMessages, registryTools } from '../tools.js';
+
+// Genera la sección `tools` de server.json (esquemas de entrada y salida, anotaciones) tal como la anuncia tools/list,
+// con las descripciones en inglés del catálogo de mensajes. Incluye todo el registro, también las herramientas que
+// dependen de endpoints opcionales del backend (BACKEND_CAPABILITIES): lo que expone un despliegue configurado,
+// sin que el resultado cambie con la configuración local.
+// Con --check no escribe nada y termina con error si server.json está desactualizado.
+
+const SERVER_JSON_PATH = resolve(dirname(fileURLToPath(import.meta.url)), '../../server.json');
+
+const SERVER_JSON_LANGUAGE: Language = 'en';
+
+function buildServerJsonTools() {
+  const tools = localizedTools(SERVER_JSON_LANGUAGE, registryTools);
+  return tools.map(({ name, description, inputSchema, outputSchema, annotations }) => ({
+    name,
+    description,
+    inputSchema,
+    outputSchema,
+    annotations,
+  }));
+}
+
+function main() {
+  const check = process.argv.includes('--check');
+  const missing = missingToolMessages(SERVER_JSON_LANGUAGE);
+  if (missing.length > 0) {
+    console.error(`❌ Faltan traducciones (${SERVER_JSON_LANGUAGE}) en src/messages.ts:`);
+    missing.forEach(key => console.error(`   - ${key}`));
+    process.exit(1);
+  }
+
+  const serverJson = JSON.parse(readFileSync(SERVER_JSON_PATH, 'utf-8'));
+  const expected = buildServerJsonTools();
+
+  if (check) {
+    const current: any[] = Array.isArray(serverJson.tools) ? serverJson.tools : [];
+    const diverging = new Set<string>();
+
+    for (const tool of expected) {
+      const entry = current.find(t => t?.name === tool.name);
+      if (!entry || !isDeepStrictEqual(entry, tool)) {
+        diverging.add(tool.name);
+      }
+    }
+    for (const entry of current) {
+      if (!expected.some(t => t.name === entry?.name)) {
+        diverging.add(entry?.name ?? '(sin nombre)');
+      }
+    }
+
+    if (diverging.size > 0 || current.length !== expected.length) {
+      console.error('❌ server.json no coincide con el registro de herramientas:');
+      diverging.forEach(name => console.error(`   - ${name}`));
+      console.error('Ejecuta `npm run server-json` para regenerarlo.');
+      process.exit(1);
+    }
+
+    console.log(`✅ server.json sincronizado (${expected.length} herramientas)`);
+    return;
+  }
+
+  serverJson.tools = expected;
+  writeFileSync(SERVER_JSON_PATH, `${JSON.stringify(serverJson, null, 2)}\n`);
+  console.log(`✅ server.json actualizado (${expected.length} herramientas)`);
+}
+
+main();
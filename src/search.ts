@@ -0,0 +1,175 @@
+import { apiCall, ApiCallOptions } from './api.js';
+import { backendArgs } from './backend-args.js';
+import { LIST_MAX_PAGES, LIST_PAGE_SIZE } from './config.js';
+import { BACKEND_FILTERS, applyFilters, FilterArgs, localFilters, sortProperties } from './filters.js';
+import { applyProximity, ProximityArgs, referencePoint } from './geo.js';
+import { Language } from './i18n.js';
+import { AvailabilityResponse, AvailableProperty, PropertyListResponse, PropertySummary, ReferencePoint } from './models.js';
+import { CursorArgs, encodeCursor, pageStart } from './pagination.js';
+import { resolveEndpoint, ToolArgs, ToolDefinition } from './tool-definition.js';
+
+// Handler de buscar_disponibilidad y listar_propiedades: filtros del backend, filtros locales,
+// proximidad, orden y paginación. Sin nada que aplicar aquí es una llamada normal al backend.
+
+type SearchResponse = AvailabilityResponse | PropertyListResponse;
+
+export interface SearchArgs extends FilterArgs, ProximityArgs, CursorArgs {
+  limit?: number;
+  max_resultados?: number;
+}
+
+interface Request {
+  endpoint: string;
+  params: ToolArgs;
+  definition: ToolDefinition;
+  options: ApiCallOptions;
+}
+
+function pick(args: ToolArgs, fields: string[]): ToolArgs {
+  return Object.fromEntries(fields.filter(f => args[f] !== undefined).map(f => [f, args[f]]));
+}
+
+// Filtros locales, proximidad y orden sobre una lista de propiedades
+async function refine(items: AvailableProperty[], args: SearchArgs, reference?: ReferencePoint) {
+  const filtered = await applyFilters(items, args);
+  let refined = filtered.items;
+  let sinUbicacion: number | undefined;
+  if (reference) {
+    ({ items: refined, sinUbicacion } = applyProximity(refined, reference));
+  }
+  if (args.ordenar_por !== undefined) {
+    refined = sortProperties(refined, args.ordenar_por);
+  }
+  return { items: refined, sinUbicacion, sinComprobar: filtered.unchecked };
+}
+
+// Recorre /api/propiedades desde `from` hasta reunir `wanted` propiedades, agotar el listado o
+// llegar a LIST_MAX_PAGES. Las propiedades repetidas (se mueven de página si cambia el listado)
+// se cuentan una vez.
+async function fetchPages(request: Request, from: number, wanted: number) {
+  const seen = new Map<string, PropertySummary>();
+  let offset = from;
+  let total = Infinity;
+  let pages = 0;
+
+  while (seen.size < wanted && offset < total && pages < LIST_MAX_PAGES) {
+    const limit = Math.min(LIST_PAGE_SIZE, wanted - seen.size);
+    const page = await apiCall(
+      request.endpoint,
+      { ...request.params, limit, offset },
+      request.definition.method,
+      request.options
+    ) as PropertyListResponse;
+    pages++;
+    total = page.total ?? total;
+
+    if (page.propiedades.length === 0) {
+      total = offset;
+      break;
+    }
+    for (const property of page.propiedades) {
+      if (!seen.has(property.id_casa)) {
+        seen.set(property.id_casa, property);
+      }
+    }
+    offset += page.propiedades.length;
+  }
+
+  return { items: [...seen.values()], offset, total, pages, exhausted: offset >= total };
+}
+
+// Peso de listar_propiedades en el límite de peticiones: 2 por cada página del backend que puede
+// leer. Filtros locales, proximidad u orden recorren el listado entero (hasta LIST_MAX_PAGES).
+export function listingWeight(args: ToolArgs): number {
+  const proximity = args.cerca_de !== undefined || args.latitud !== undefined;
+  if (proximity || localFilters(args, '/api/propiedades').length > 0) {
+    return 2 * LIST_MAX_PAGES;
+  }
+  if (typeof args.max_resultados === 'number' && args.max_resultados > LIST_PAGE_SIZE) {
+    return 2 * Math.min(LIST_MAX_PAGES, Math.ceil(args.max_resultados / LIST_PAGE_SIZE));
+  }
+  return 2;
+}
+
+async function listProperties(request: Request, args: SearchArgs, language: Language, reference?: ReferencePoint): Promise<PropertyListResponse> {
+  const start = pageStart(args, language);
+  const local = reference !== undefined || localFilters(args, request.endpoint).length > 0;
+
+  // Una página del backend tal cual, como antes de los cursores
+  if (!local && args.max_resultados === undefined) {
+    const params = args.cursor !== undefined ? { ...request.params, offset: start } : request.params;
+    const response = await apiCall(request.endpoint, params, request.definition.method, request.options) as PropertyListResponse;
+    const end = start + response.propiedades.length;
+    return {
+      ...response,
+      offset: start,
+      next_cursor: response.propiedades.length > 0 && end < response.total ? encodeCursor(end, args) : null,
+    };
+  }
+
+  const pageSize = args.max_resultados ?? args.limit ?? 50;
+
+  // Sin filtros locales basta con leer del backend a partir de la posición del cursor
+  if (!local) {
+    const fetched = await fetchPages(request, start, pageSize);
+    return {
+      success: true,
+      total: Number.isFinite(fetched.total) ? fetched.total : fetched.offset,
+      limit: pageSize,
+      offset: start,
+      propiedades: fetched.items,
+      next_cursor: fetched.exhausted ? null : encodeCursor(fetched.offset, args),
+      paginas_consultadas: fetched.pages,
+    };
+  }
+
+  // Con filtros locales, proximidad u orden hay que leer todo el listado (hasta el límite de páginas)
+  const fetched = await fetchPages(request, 0, Infinity);
+  const { items, sinUbicacion, sinComprobar } = await refine(fetched.items, args, reference);
+  const end = start + pageSize;
+
+  return {
+    success: true,
+    total: items.length,
+    limit: pageSize,
+    offset: start,
+    propiedades: items.slice(start, end),
+    next_cursor: end < items.length ? encodeCursor(end, args) : null,
+    incompleto: fetched.exhausted ? undefined : true,
+    paginas_consultadas: fetched.pages,
+    referencia: reference,
+    sin_ubicacion: sinUbicacion,
+    sin_comprobar: sinComprobar,
+  };
+}
+
+export async function searchProperties(args: SearchArgs, definition: ToolDefinition, language: Language): Promise<SearchResponse> {
+  const endpoint = resolveEndpoint(definition, args);
+  const request: Request = {
+    endpoint,
+    params: { ...backendArgs(args), ...pick(args, BACKEND_FILTERS[endpoint] ?? []) },
+    definition,
+    options: { idempotent: definition.idempotent },
+  };
+  const reference = referencePoint(args);
+
+  if (definition.name === 'listar_propiedades') {
+    return listProperties(request, args, language, reference);
+  }
+
+  if (!reference && localFilters(args, endpoint).length === 0) {
+    return apiCall(endpoint, request.params, definition.method, request.options) as Promise<SearchResponse>;
+  }
+
+  const response = await apiCall(endpoint, request.params, definition.method, request.options) as AvailabilityResponse;
+  const { items, sinUbicacion, sinComprobar } = await refine(response.propiedades, args, reference);
+
+  return {
+    ...response,
+    total: items.length,
+    propiedades: items,
+    referencia: reference,
+    sin_ubicacion: sinUbicacion,
+    sin_comprobar: sinComprobar,
+  };
+}
@@ -0,0 +1,96 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_LANGUAGE, Language } from './i18n.js';
+import { runWithContext } from './logger.js';
+import { getPrompt, localizedPrompts, PromptError } from './prompts.js';
+import { readResource, resourceError, resources, resourceTemplates } from './resources.js';
+import { ToolContext } from './tool-definition.js';
+import { executeTool, localizedTools } from './tools.js';
+
+export const SERVER_NAME = process.env.MCP_SERVER_NAME || 'lapalma24-propiedades';
+export const SERVER_VERSION = process.env.MCP_SERVER_VERSION || '1.0.0';
+
+// Crea un servidor MCP con todos los handlers registrados.
+// Stdio usa una única instancia; Streamable HTTP crea una por sesión, en el idioma del cliente.
+export function createMcpServer(language: Language = DEFAULT_LANGUAGE): Server {
+  const localTools = localizedTools(language);
+  const localPrompts = localizedPrompts(language);
+
+  const server = new Server(
+    {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+
+  // Handler para listar herramientas
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: localTools };
+  });
+
+  // Handler para ejecutar herramientas
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    // authInfo: cliente autenticado en Streamable HTTP; en stdio no hay autenticación
+    const context: ToolContext = { language, scopes: extra.authInfo?.scopes };
+    // relatedRequestId: en Streamable HTTP la petición de elicitation viaja por el stream de esta llamada
+    if (server.getClientCapabilities()?.elicitation) {
+      context.elicit = params => server.elicitInput(params, { relatedRequestId: extra.requestId });
+    }
+    // Sesión y cliente en los logs; en stdio cada llamada recibe su propio id de petición
+    return runWithContext({ sessionId: extra.sessionId, clientId: extra.authInfo?.clientId }, () => executeTool(name, args, context));
+  });
+
+  // Handlers de recursos
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    try {
+      return await readResource(request.params.uri);
+    } catch (error) {
+      const { code, message, data } = resourceError(error, language);
+      throw new McpError(code, message, data);
+    }
+  });
+
+  // Handlers de prompts
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: localPrompts };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    try {
+      return getPrompt(request.params.name, request.params.arguments, language);
+    } catch (error) {
+      if (error instanceof PromptError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+  });
+
+  return server;
+}
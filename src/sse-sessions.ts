@@ -0,0 +1,298 @@
+import { randomUUID } from 'crypto';
+import type { Request, Response } from 'express';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isJSONRPCErrorResponse, isJSONRPCRequest, isJSONRPCResultResponse } from '@modelcontextprotocol/sdk/types.js';
+import type { JSONRPCMessage, MessageExtraInfo, RequestId } from '@modelcontextprotocol/sdk/types.js';
+import { MemoryEventStore } from './event-store.js';
+import { Language } from './i18n.js';
+import { createLogger } from './logger.js';
+import { SERVER_NAME } from './server.js';
+
+// Sesiones del transporte SSE: id aleatorio ligado a la IP y al cliente que abrió el stream,
+// límites de sesiones, caducidad por inactividad y absoluta, y reanudación con Last-Event-ID.
+// Los mensajes se guardan con id para reenviarlos si el cliente se reconecta. Cada sesión tiene su
+// transporte MCP (SseSessionTransport), al que se conecta un servidor de createMcpServer.
+
+export interface SseSessionLimits {
+  maxSessions: number;
+  maxPerIp: number;
+  idleMs: number;
+  maxAgeMs: number;
+  // Tiempo que se conserva una sesión sin stream para reanudarla
+  reconnectMs: number;
+  maxEvents: number;
+  heartbeatMs: number;
+}
+
+// Estado de la sesión, sin su transporte: es lo que recibe el transporte al crearse
+export interface SseSessionState {
+  id: string;
+  ip: string;
+  clientId?: string;
+  language: Language;
+  createdAt: number;
+  // Último mensaje del cliente o (re)conexión del stream
+  lastSeen: number;
+  // Desde cuándo no hay stream abierto (undefined con stream)
+  disconnectedAt?: number;
+  res?: Response;
+  events: MemoryEventStore;
+  heartbeat?: NodeJS.Timeout;
+}
+
+export interface SseSession extends SseSessionState {
+  transport: SseSessionTransport;
+}
+
+// Se ha alcanzado el límite de sesiones (global o por IP)
+export class SseSessionLimitError extends Error {
+  constructor(public readonly scope: 'global' | 'ip', public readonly limit: number) {
+    super(scope === 'ip' ? `Too many sessions from this address (${limit})` : `Too many active sessions (${limit})`);
+    this.name = 'SseSessionLimitError';
+  }
+}
+
+const log = createLogger('sse');
+
+// Stream en el que aún se puede escribir
+function isWritable(res: Response | undefined): res is Response {
+  return Boolean(res && !res.writableEnded && !res.destroyed);
+}
+
+function writeEvent(res: Response | undefined, event: string, data: unknown, id?: string): boolean {
+  if (!isWritable(res)) {
+    return false;
+  }
+  res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+  return true;
+}
+
+// Transporte MCP de una sesión: los mensajes del cliente llegan por POST /message y los del servidor
+// salen por el stream de la sesión, o se guardan para la reconexión si no hay stream
+export class SseSessionTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void;
+
+  // Peticiones del cliente todavía sin respuesta (el apagado las espera)
+  private pending = new Set<RequestId>();
+
+  constructor(private readonly store: SseSessionStore, private readonly session: SseSessionState) {}
+
+  get sessionId(): string {
+    return this.session.id;
+  }
+
+  get inFlight(): number {
+    return this.pending.size;
+  }
+
+  async start(): Promise<void> {
+    // El stream ya está abierto: lo gestiona SseSessionStore
+  }
+
+  // Mensaje JSON-RPC ya validado de POST /message
+  receive(message: JSONRPCMessage, extra?: MessageExtraInfo): void {
+    if (isJSONRPCRequest(message)) {
+      this.pending.add(message.id);
+    }
+    this.onmessage?.(message, extra);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if ((isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) && message.id !== undefined) {
+      this.pending.delete(message.id);
+    }
+    await this.store.send(this.session, message);
+  }
+
+  // Lo llama el servidor MCP al cerrarse y SseSessionStore al cerrar la sesión
+  async close(): Promise<void> {
+    this.pending.clear();
+    this.store.close(this.session, 'closed');
+    const onclose = this.onclose;
+    this.onclose = undefined;
+    onclose?.();
+  }
+}
+
+export class SseSessionStore {
+  private sessions = new Map<string, SseSession>();
+
+  constructor(private readonly limits: SseSessionLimits) {}
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  // Peticiones del cliente en proceso en todas las sesiones
+  get inFlight(): number {
+    return [...this.sessions.values()].reduce((total, session) => total + session.transport.inFlight, 0);
+  }
+
+  // Sesión nueva con un stream abierto; lanza SseSessionLimitError si no caben más
+  open(req: Request, res: Response, language: Language): SseSession {
+    const ip = req.ip ?? '';
+    if (this.sessions.size >= this.limits.maxSessions) {
+      throw new SseSessionLimitError('global', this.limits.maxSessions);
+    }
+    const fromIp = [...this.sessions.values()].filter(session => session.ip === ip).length;
+    if (fromIp >= this.limits.maxPerIp) {
+      throw new SseSessionLimitError('ip', this.limits.maxPerIp);
+    }
+
+    const now = Date.now();
+    const state: SseSessionState = {
+      id: randomUUID(),
+      ip,
+      clientId: req.auth?.clientId,
+      language,
+      createdAt: now,
+      lastSeen: now,
+      events: new MemoryEventStore(this.limits.maxEvents),
+    };
+    const session: SseSession = Object.assign(state, { transport: new SseSessionTransport(this, state) });
+    this.sessions.set(session.id, session);
+    this.attach(session, req, res);
+    log.info('Sesión iniciada', { sessionId: session.id, activeSessions: this.sessions.size });
+    return session;
+  }
+
+  // Reanuda la sesión del Last-Event-ID en un stream nuevo y reenvía los mensajes posteriores.
+  // Devuelve undefined si la sesión ya no existe o la reclama otra IP u otro cliente
+  async resume(req: Request, res: Response, lastEventId: string): Promise<SseSession | undefined> {
+    const separator = lastEventId.lastIndexOf('_');
+    const session = separator > 0 ? this.sessions.get(lastEventId.slice(0, separator)) : undefined;
+    if (!session || !this.isOwner(session, req)) {
+      return undefined;
+    }
+
+    if (isWritable(session.res)) {
+      session.res.end();
+    }
+    session.lastSeen = Date.now();
+    this.attach(session, req, res);
+
+    let replayed = 0;
+    await session.events.replayEventsAfter(lastEventId.slice(separator + 1), {
+      send: async (eventId, message) => {
+        replayed++;
+        writeEvent(session.res, 'message', message, `${session.id}_${eventId}`);
+      },
+    });
+    log.info('Sesión reanudada', { sessionId: session.id, replayed });
+    return session;
+  }
+
+  // Sesión de un mensaje del cliente: tiene que venir de la misma IP y del mismo cliente que el stream
+  find(sessionId: string, req: Request): SseSession | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session || !this.isOwner(session, req)) {
+      if (session) {
+        log.warn('Sesión usada desde otra conexión', { sessionId, ip: req.ip });
+      }
+      return undefined;
+    }
+    session.lastSeen = Date.now();
+    return session;
+  }
+
+  // Envía un mensaje JSON-RPC por el stream; sin stream queda guardado para la reconexión
+  async send(session: SseSessionState, message: JSONRPCMessage): Promise<void> {
+    const eventId = await session.events.storeEvent('sse', message);
+    writeEvent(session.res, 'message', message, `${session.id}_${eventId}`);
+  }
+
+  // Avisa a todos los streams abiertos (ej. apagado del servidor)
+  broadcast(event: string, data: unknown): void {
+    for (const session of this.sessions.values()) {
+      writeEvent(session.res, event, data);
+    }
+  }
+
+  // Cierra la sesión: avisa al cliente con un evento close, termina el stream y cierra su transporte
+  close(state: SseSessionState, reason: string): void {
+    const session = this.sessions.get(state.id);
+    if (session !== state) {
+      return;
+    }
+    this.sessions.delete(session.id);
+    clearInterval(session.heartbeat);
+    writeEvent(session.res, 'close', { reason });
+    if (isWritable(session.res)) {
+      session.res.end();
+    }
+    log.info('Sesión cerrada', { sessionId: session.id, reason });
+    void session.transport.close();
+  }
+
+  closeAll(reason: string): void {
+    for (const session of [...this.sessions.values()]) {
+      this.close(session, reason);
+    }
+  }
+
+  // Cierra las sesiones inactivas, las que superan la duración máxima y las desconectadas sin reanudar
+  sweep(now = Date.now()): void {
+    for (const session of [...this.sessions.values()]) {
+      if (now - session.createdAt >= this.limits.maxAgeMs) {
+        this.close(session, 'expired');
+      } else if (now - session.lastSeen >= this.limits.idleMs) {
+        this.close(session, 'idle');
+      } else if (session.disconnectedAt !== undefined && now - session.disconnectedAt >= this.limits.reconnectMs) {
+        this.close(session, 'disconnected');
+      }
+    }
+  }
+
+  private isOwner(session: SseSession, req: Request): boolean {
+    return session.ip === (req.ip ?? '') && session.clientId === req.auth?.clientId;
+  }
+
+  // Asocia el stream a la sesión: cabeceras, evento endpoint, heartbeat y desconexión
+  private attach(session: SseSession, req: Request, res: Response): void {
+    clearInterval(session.heartbeat);
+    session.res = res;
+    session.disconnectedAt = undefined;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Session-Id': session.id,
+      'X-Accel-Buffering': 'no',
+    });
+
+    // Evento endpoint - indica al cliente dónde enviar mensajes
+    writeEvent(res, 'endpoint', `/message?sessionId=${session.id}`);
+
+    // Evento connected - confirmación de conexión
+    writeEvent(res, 'connected', {
+      status: 'connected',
+      server: SERVER_NAME,
+      sessionId: session.id,
+      timestamp: new Date().toISOString(),
+    });
+
+    // Heartbeat con eventos ping; se detiene si el stream ya no admite escrituras
+    const heartbeat = setInterval(() => {
+      if (!writeEvent(res, 'ping', { timestamp: new Date().toISOString() })) {
+        clearInterval(heartbeat);
+      }
+    }, this.limits.heartbeatMs);
+    heartbeat.unref();
+    session.heartbeat = heartbeat;
+
+    req.on('close', () => {
+      // Solo si sigue siendo el stream de la sesión (una reanudación lo sustituye)
+      if (session.res === res) {
+        clearInterval(heartbeat);
+        session.res = undefined;
+        session.disconnectedAt = Date.now();
+      }
+      if (!res.writableEnded) {
+        res.end();
+      }
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import { ElicitRequestFormParams, ElicitResult, Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { HttpMethod } from './api.js';
+import { Language } from './i18n.js';
+import { OutputSchema } from './models.js';
+import { ValidationRule } from './validation.js';
+
+// Tipos del registro de herramientas. Los handlers de los módulos (búsqueda, reservas, calendario...)
+// importan de aquí y no de tools.ts, que es quien los importa a ellos.
+
+export type ToolArgs = Record<string, unknown>;
+
+// Capacidades del cliente MCP de la petición en curso que puede usar un handler
+export interface ToolContext {
+  // Pide una confirmación o datos al usuario; solo si el cliente soporta elicitation
+  elicit?: (params: ElicitRequestFormParams) => Promise<ElicitResult>;
+  // Idioma de la sesión para los mensajes de error, si el argumento idioma no indica otro
+  language?: Language;
+  // Scopes del cliente autenticado; sin autenticación no se comprueban
+  scopes?: string[];
+}
+
+export type CallTool = (name: string, args?: ToolArgs, context?: ToolContext) => Promise<unknown>;
+
+// Contexto que recibe un handler: el de la petición, con el idioma ya resuelto, más callTool para
+// llamar a otras herramientas
+export interface HandlerContext extends ToolContext {
+  language: Language;
+  callTool: CallTool;
+}
+
+// Definición completa de una herramienta: esquema MCP, endpoint del backend y handler
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Tool['inputSchema'];
+  // Forma de la respuesta (structuredContent); se valida antes de devolverla
+  outputSchema: OutputSchema;
+  // Endpoint del backend; puede depender de los argumentos (ej: /api/propiedad/:id). Sin él, el
+  // handler propio solo llama a otras herramientas
+  endpoint?: string | ((args: ToolArgs) => string);
+  method?: HttpMethod;
+  // Consulta sin efectos secundarios que se puede reintentar aunque sea POST
+  idempotent?: boolean;
+  // Reglas de dominio que se comprueban además del inputSchema
+  rules?: ValidationRule[];
+  // Coste de una llamada en el límite de peticiones (por defecto 1); puede depender de los argumentos
+  rateLimitWeight?: number | ((args: ToolArgs) => number);
+  // Scope que necesita el cliente para llamarla (por defecto SCOPE_READ)
+  scope?: string;
+  // Endpoint opcional del backend que necesita (BACKEND_CAPABILITIES); sin él la herramienta no se registra
+  capability?: string;
+  // Pistas de comportamiento para el cliente; por defecto, solo lectura
+  annotations?: ToolAnnotations;
+  // Handler propio; por defecto se llama al endpoint con los argumentos recibidos. Los argumentos
+  // ya cumplen el inputSchema: el registro los estrecha al tipo de argumentos de cada handler
+  handler?: (args: ToolArgs, definition: ToolDefinition, context: HandlerContext) => Promise<unknown>;
+}
+
+export function resolveEndpoint(definition: ToolDefinition, args: ToolArgs): string {
+  if (definition.endpoint === undefined) {
+    throw new Error(`La herramienta ${definition.name} no tiene endpoint del backend`);
+  }
+  return typeof definition.endpoint === 'function' ? definition.endpoint(args) : definition.endpoint;
+}
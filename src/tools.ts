@@ -0,0 +1,828 @@
+import { CallToolResult, Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { ApiError, apiCall, apiErrorMessage } from './api.js';
+import { SCOPE_BOOKING, SCOPE_READ } from './auth.js';
+import { backendArgs } from './backend-args.js';
+import { BookingArgs, requestBooking } from './booking.js';
+import { CalendarArgs, calendarPeriod, getCalendar } from './calendar.js';
+import { ComparisonArgs, comparisonDates, compareProperties } from './comparison.js';
+import { BACKEND_CAPABILITIES, CALENDAR_MAX_DAYS, FLEX_SEARCH_MAX_WINDOW_DAYS, LIST_MAX_RESULTS } from './config.js';
+import { BASE_CURRENCY, convertResult, CURRENCIES, priceFiltersInBase } from './currency.js';
+import { FlexibleSearchArgs, flexibleNights, searchFlexibleDates } from './flexible-search.js';
+import { AMENITIES, searchFilters, SORT_ORDERS } from './filters.js';
+import { proximityArgs } from './geo.js';
+import { DEFAULT_LANGUAGE, hasMessage, interpolate, Language, lookup, requestLanguage, SOURCE_LANGUAGE, t } from './i18n.js';
+import { resolveLocation } from './locations.js';
+import { createLogger } from './logger.js';
+import { toolCalls, toolDuration } from './metrics.js';
+import {
+  availabilityOutputSchema,
+  barriosOutputSchema,
+  bookingOutputSchema,
+  calendarOutputSchema,
+  comparisonOutputSchema,
+  flexibleSearchOutputSchema,
+  municipiosOutputSchema,
+  priceQuoteOutputSchema,
+  propertyDetailsOutputSchema,
+  propertyListOutputSchema,
+} from './models.js';
+import { cursorArgs } from './pagination.js';
+import { quoteStay } from './pricing.js';
+import { BackendUnavailableError } from './resilience.js';
+import { OUTPUT_FORMATS, renderToolResult } from './render.js';
+import { listingWeight, searchProperties } from './search.js';
+import { resolveEndpoint, ToolArgs, ToolContext, ToolDefinition } from './tool-definition.js';
+import { withSpan } from './tracing.js';
+import {
+  dateWindow,
+  ResponseValidationError,
+  stayDates,
+  ToolValidationError,
+  validateArgs,
+  validateOutput,
+} from './validation.js';
+
+export class UnknownToolError extends Error {
+  constructor(public readonly toolName: string) {
+    super(`Herramienta desconocida: ${toolName}`);
+    this.name = 'UnknownToolError';
+  }
+}
+
+// El cliente autenticado no tiene el scope que exige la herramienta
+export class ToolScopeError extends Error {
+  constructor(public readonly toolName: string, public readonly scope: string) {
+    super(`Permisos insuficientes para ${toolName}: se necesita el scope ${scope}`);
+    this.name = 'ToolScopeError';
+  }
+}
+
+// IDs de propiedad: sólo caracteres seguros para interpolar en la ruta del backend
+const ID_PATTERN = '^[A-Za-z0-9_-]{1,64}$';
+
+const FORMATO_PROPERTY = {
+  type: 'string',
+  description: 'Formato del texto del resultado: json (por defecto), markdown (tablas y fichas) o compact (una línea por resultado)',
+  enum: OUTPUT_FORMATS,
+  default: 'json'
+};
+
+// Punto de referencia para filtrar y ordenar por distancia
+const PROXIMITY_PROPERTIES = {
+  cerca_de: {
+    type: 'string',
+    description: 'Lugar de referencia en La Palma: playa, pueblo, aeropuerto, puerto, sendero o mirador (ej: Playa de Puerto Naos, Aeropuerto, Roque de los Muchachos, Los Tilos)'
+  },
+  latitud: {
+    type: 'number',
+    description: 'Latitud del punto de referencia (alternativa a cerca_de, junto con longitud)',
+    minimum: -90,
+    maximum: 90
+  },
+  longitud: {
+    type: 'number',
+    description: 'Longitud del punto de referencia (alternativa a cerca_de, junto con latitud)',
+    minimum: -180,
+    maximum: 180
+  },
+  radio_km: {
+    type: 'number',
+    description: 'Distancia máxima en km al punto de referencia; sin radio solo se ordena por distancia',
+    minimum: 0.1,
+    maximum: 100
+  }
+};
+
+// Filtros de características y precio, y orden de los resultados
+const FILTER_PROPERTIES = {
+  amenidades: {
+    type: 'array',
+    description: 'Amenidades obligatorias (todas): piscina, wifi, mascotas (admite mascotas), vista_mar, aire_acondicionado, parking, accesible (silla de ruedas)',
+    items: {
+      type: 'string',
+      enum: AMENITIES
+    }
+  },
+  tipo: {
+    type: 'string',
+    description: 'Tipo de propiedad (ej: casa, apartamento, finca, bungalow, villa)'
+  },
+  banos_min: {
+    type: 'integer',
+    description: 'Número mínimo de baños',
+    minimum: 1
+  },
+  precio_min: {
+    type: 'number',
+    description: 'Precio mínimo por noche, en la moneda indicada en moneda (por defecto euros)',
+    minimum: 0
+  },
+  precio_max: {
+    type: 'number',
+    description: 'Precio máximo por noche, en la moneda indicada en moneda (por defecto euros)',
+    minimum: 0
+  },
+  ordenar_por: {
+    type: 'string',
+    description: 'Orden de los resultados: precio (más barato primero), precio_desc, capacidad (más plazas primero) o distancia (requiere cerca_de o latitud/longitud)',
+    enum: SORT_ORDERS
+  }
+};
+
+// Moneda de los importes de la respuesta; los precios del backend están en euros
+const MONEDA_PROPERTY = {
+  type: 'string',
+  description: 'Moneda de los importes (código ISO 4217); se convierte desde euros con la tabla de tipos de cambio del servidor',
+  enum: CURRENCIES,
+  default: BASE_CURRENCY
+};
+
+const IDIOMA_TEXTO_PROPERTY = {
+  type: 'string',
+  description: 'Idioma del texto en formato markdown o compact: es (español), en (inglés), de (alemán)',
+  enum: ['es', 'en', 'de'],
+  default: 'es'
+};
+
+// Todas las herramientas consultan el backend de La Palma 24 salvo indicación contraria
+const READ_ONLY_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  openWorldHint: true
+};
+
+// Endpoints opcionales que tiene el backend configurado
+const capabilities = BACKEND_CAPABILITIES.split(',').map(capability => capability.trim()).filter(Boolean);
+
+// Registro único de herramientas MCP (stdio, SSE, HTTP y server.json)
+const registry: ToolDefinition[] = [
+  {
+    name: 'buscar_disponibilidad',
+    description: 'Busca propiedades vacacionales disponibles en La Palma para unas fechas específicas. Permite filtrar por municipio, barrio, número de personas, amenidades, tipo, baños, precio por noche y cercanía a un lugar, y ordenar los resultados.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        fecha_llegada: {
+          type: 'string',
+          description: 'Fecha de llegada en formato YYYY-MM-DD (ej: 2024-06-15)',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        fecha_salida: {
+          type: 'string',
+          description: 'Fecha de salida en formato YYYY-MM-DD (ej: 2024-06-22)',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        num_personas: {
+          type: 'integer',
+          description: 'Número de huéspedes (default: 2)',
+          minimum: 1
+        },
+        municipio: {
+          type: 'string',
+          description: 'Filtrar por municipio (ej: Santa Cruz de La Palma, Los Llanos de Aridane; admite nombres aproximados como "Los Llanos")'
+        },
+        barrio: {
+          type: 'string',
+          description: 'Filtrar por barrio/zona (ej: Centro, San Telmo, El Charco)'
+        },
+        ...FILTER_PROPERTIES,
+        ...PROXIMITY_PROPERTIES,
+        moneda: MONEDA_PROPERTY,
+        formato: FORMATO_PROPERTY,
+        idioma: IDIOMA_TEXTO_PROPERTY
+      },
+      required: ['fecha_llegada', 'fecha_salida']
+    },
+    outputSchema: availabilityOutputSchema,
+    endpoint: '/api/disponibilidad',
+    method: 'POST',
+    idempotent: true,
+    rules: [stayDates('fecha_llegada', 'fecha_salida'), proximityArgs, searchFilters],
+    rateLimitWeight: 5,
+    handler: (args, definition, context) => searchProperties(args, definition, context.language)
+  },
+  {
+    name: 'buscar_fechas_flexibles',
+    description: 'Busca las mejores combinaciones de fechas y propiedades dentro de una ventana de fechas (ej: "una semana en marzo"). Consulta disponibilidad y precio de cada llegada posible y devuelve los resultados ordenados por precio total.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        fecha_desde: {
+          type: 'string',
+          description: 'Primer día posible de llegada, formato YYYY-MM-DD',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        fecha_hasta: {
+          type: 'string',
+          description: 'Último día posible de salida, formato YYYY-MM-DD',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        noches: {
+          type: 'integer',
+          description: 'Duración exacta de la estancia en noches (default: 7)',
+          minimum: 1
+        },
+        noches_min: {
+          type: 'integer',
+          description: 'Duración mínima en noches (alternativa a noches)',
+          minimum: 1
+        },
+        noches_max: {
+          type: 'integer',
+          description: 'Duración máxima en noches (alternativa a noches)',
+          minimum: 1
+        },
+        num_personas: {
+          type: 'integer',
+          description: 'Número de huéspedes (default: 2)',
+          minimum: 1
+        },
+        municipio: {
+          type: 'string',
+          description: 'Filtrar por municipio'
+        },
+        barrio: {
+          type: 'string',
+          description: 'Filtrar por barrio/zona'
+        },
+        ...PROXIMITY_PROPERTIES,
+        max_resultados: {
+          type: 'integer',
+          description: 'Número máximo de combinaciones devueltas (default: 10)',
+          minimum: 1,
+          maximum: 50,
+          default: 10
+        },
+        moneda: MONEDA_PROPERTY,
+        formato: FORMATO_PROPERTY,
+        idioma: IDIOMA_TEXTO_PROPERTY
+      },
+      required: ['fecha_desde', 'fecha_hasta']
+    },
+    outputSchema: flexibleSearchOutputSchema,
+    endpoint: '/api/disponibilidad',
+    method: 'POST',
+    idempotent: true,
+    rules: [dateWindow('fecha_desde', 'fecha_hasta', FLEX_SEARCH_MAX_WINDOW_DAYS), flexibleNights, proximityArgs],
+    rateLimitWeight: 20,
+    handler: (args, _definition, context) => searchFlexibleDates(args as FlexibleSearchArgs, context.callTool)
+  },
+  {
+    name: 'obtener_detalles_propiedad',
+    description: 'Obtiene información completa de una propiedad específica: características, amenidades, ubicación, precios, fotos, descripciones en el idioma solicitado.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        id_casa: {
+          type: 'string',
+          description: 'ID de la propiedad a consultar',
+          pattern: ID_PATTERN
+        },
+        idioma: {
+          type: 'string',
+          description: 'Idioma para descripciones: es (español), en (inglés), de (alemán)',
+          enum: ['es', 'en', 'de'],
+          default: 'es'
+        },
+        formato: FORMATO_PROPERTY
+      },
+      required: ['id_casa']
+    },
+    outputSchema: propertyDetailsOutputSchema,
+    endpoint: ({ id_casa }) => `/api/propiedad/${encodeURIComponent(id_casa as string)}`,
+    method: 'GET',
+    handler: async (args, definition) => {
+      const { idioma = 'es' } = args;
+      return apiCall(resolveEndpoint(definition, args), { idioma }, definition.method);
+    }
+  },
+  {
+    name: 'obtener_calendario',
+    description: 'Devuelve el calendario de una propiedad noche a noche para un mes o un rango de fechas: disponibilidad, precio por noche, estancia mínima y días permitidos de llegada y salida. Opcionalmente agrupa las noches libres en estancias listas para reservar.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        id_casa: {
+          type: 'string',
+          description: 'ID de la propiedad',
+          pattern: ID_PATTERN
+        },
+        mes: {
+          type: 'string',
+          description: 'Mes a consultar en formato YYYY-MM (ej: 2024-08); alternativa a fecha_desde/fecha_hasta',
+          pattern: '^\\d{4}-(0[1-9]|1[0-2])$'
+        },
+        fecha_desde: {
+          type: 'string',
+          description: 'Primera noche del rango, formato YYYY-MM-DD',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        fecha_hasta: {
+          type: 'string',
+          description: 'Día siguiente a la última noche del rango (como una fecha de salida), formato YYYY-MM-DD',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        incluir_huecos: {
+          type: 'boolean',
+          description: 'Añadir los huecos libres como estancias (llegada, salida, noches) que cumplen las reglas de la propiedad',
+          default: false
+        },
+        noches_min: {
+          type: 'integer',
+          description: 'Con incluir_huecos: descartar huecos de menos noches',
+          minimum: 1
+        }
+      },
+      required: ['id_casa']
+    },
+    outputSchema: calendarOutputSchema,
+    endpoint: ({ id_casa }) => `/api/calendario/${encodeURIComponent(id_casa as string)}`,
+    method: 'GET',
+    rules: [calendarPeriod, dateWindow('fecha_desde', 'fecha_hasta', CALENDAR_MAX_DAYS)],
+    rateLimitWeight: 2,
+    capability: 'calendario',
+    handler: (args, definition, context) => getCalendar(args as CalendarArgs, definition, context.language)
+  },
+  {
+    name: 'calcular_precio_estancia',
+    description: 'Calcula el precio total de una estancia incluyendo tarifas por temporada, descuentos aplicables, número de noches y personas, con el desglose de alojamiento, descuentos, limpieza, IGIC y fianza. Admite convertir los importes a otra moneda.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        id_casa: {
+          type: 'string',
+          description: 'ID de la propiedad',
+          pattern: ID_PATTERN
+        },
+        fecha_llegada: {
+          type: 'string',
+          description: 'Fecha de llegada en formato YYYY-MM-DD',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        fecha_salida: {
+          type: 'string',
+          description: 'Fecha de salida en formato YYYY-MM-DD',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        num_personas: {
+          type: 'integer',
+          description: 'Número de huéspedes (default: 2)',
+          minimum: 1
+        },
+        moneda: MONEDA_PROPERTY,
+        formato: FORMATO_PROPERTY,
+        idioma: IDIOMA_TEXTO_PROPERTY
+      },
+      required: ['id_casa', 'fecha_llegada', 'fecha_salida']
+    },
+    outputSchema: priceQuoteOutputSchema,
+    endpoint: '/api/calcular-precio',
+    method: 'POST',
+    idempotent: true,
+    rules: [stayDates('fecha_llegada', 'fecha_salida')],
+    rateLimitWeight: 2,
+    handler: (args, definition) => quoteStay(args, definition)
+  },
+  {
+    name: 'comparar_propiedades',
+    description: 'Compara varias propiedades lado a lado: capacidad, dormitorios, ubicación, amenidades, precio por noche y, con fechas, precio total y descuentos. Señala las propiedades inexistentes o no disponibles.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        ids_casa: {
+          type: 'array',
+          description: 'IDs de las propiedades a comparar (2 a 6)',
+          items: {
+            type: 'string',
+            pattern: ID_PATTERN
+          },
+          minItems: 2,
+          maxItems: 6
+        },
+        fecha_llegada: {
+          type: 'string',
+          description: 'Fecha de llegada en formato YYYY-MM-DD (opcional, junto con fecha_salida)',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        fecha_salida: {
+          type: 'string',
+          description: 'Fecha de salida en formato YYYY-MM-DD (opcional, junto con fecha_llegada)',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        num_personas: {
+          type: 'integer',
+          description: 'Número de huéspedes (default: 2)',
+          minimum: 1
+        },
+        idioma: {
+          type: 'string',
+          description: 'Idioma de las fichas: es (español), en (inglés), de (alemán)',
+          enum: ['es', 'en', 'de'],
+          default: 'es'
+        },
+        moneda: MONEDA_PROPERTY
+      },
+      required: ['ids_casa']
+    },
+    outputSchema: comparisonOutputSchema,
+    rules: [comparisonDates, stayDates('fecha_llegada', 'fecha_salida')],
+    rateLimitWeight: 10,
+    handler: (args, _definition, context) => compareProperties(args as ComparisonArgs, context.callTool, context.language)
+  },
+  {
+    name: 'solicitar_reserva',
+    description: 'Envía una solicitud de reserva al propietario. Vuelve a comprobar disponibilidad y precio y pide confirmación al usuario antes de enviarla: mediante elicitation si el cliente la soporta o, si no, devolviendo un presupuesto con token_confirmacion que hay que reenviar con los mismos datos una vez el usuario lo acepte.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        id_casa: {
+          type: 'string',
+          description: 'ID de la propiedad',
+          pattern: ID_PATTERN
+        },
+        fecha_llegada: {
+          type: 'string',
+          description: 'Fecha de llegada en formato YYYY-MM-DD',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        fecha_salida: {
+          type: 'string',
+          description: 'Fecha de salida en formato YYYY-MM-DD',
+          pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+          format: 'date'
+        },
+        num_personas: {
+          type: 'integer',
+          description: 'Número de huéspedes (default: 2)',
+          minimum: 1
+        },
+        nombre: {
+          type: 'string',
+          description: 'Nombre completo del huésped principal',
+          minLength: 2,
+          maxLength: 100
+        },
+        email: {
+          type: 'string',
+          description: 'Email de contacto del huésped',
+          pattern: '^[^@\\s]+@[^@\\s]+\\.[^@\\s]+$',
+          maxLength: 254
+        },
+        telefono: {
+          type: 'string',
+          description: 'Teléfono de contacto, con prefijo internacional (ej: +34 600 000 000)',
+          pattern: '^\\+?[0-9 ()-]{6,20}$'
+        },
+        notas: {
+          type: 'string',
+          description: 'Comentarios para el propietario (hora de llegada, peticiones especiales...)',
+          maxLength: 1000
+        },
+        token_confirmacion: {
+          type: 'string',
+          description: 'Token devuelto por la primera llamada; enviarlo solo cuando el usuario haya aceptado el presupuesto',
+          maxLength: 500
+        }
+      },
+      required: ['id_casa', 'fecha_llegada', 'fecha_salida', 'nombre', 'email']
+    },
+    outputSchema: bookingOutputSchema,
+    endpoint: '/api/reservas',
+    method: 'POST',
+    idempotent: false,
+    rules: [stayDates('fecha_llegada', 'fecha_salida')],
+    rateLimitWeight: 5,
+    scope: SCOPE_BOOKING,
+    capability: 'reservas',
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+      openWorldHint: true
+    },
+    handler: (args, _definition, context) => requestBooking(args as BookingArgs, context)
+  },
+  {
+    name: 'listar_propiedades',
+    description: 'Lista todas las propiedades vacacionales disponibles con filtros opcionales por ubicación, cercanía, capacidad, amenidades, tipo, baños y precio por noche, y orden configurable. Paginación con cursor (next_cursor) o hasta max_resultados propiedades en una sola llamada.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        municipio: {
+          type: 'string',
+          description: 'Filtrar por municipio'
+        },
+        barrio: {
+          type: 'string',
+          description: 'Filtrar por barrio/zona'
+        },
+        dormitorios: {
+          type: 'integer',
+          description: 'Número de dormitorios',
+          minimum: 1
+        },
+        personas_max: {
+          type: 'integer',
+          description: 'Capacidad mínima de personas',
+          minimum: 1
+        },
+        limit: {
+          type: 'integer',
+          description: 'Número máximo de resultados por página (default: 50)',
+          minimum: 1,
+          maximum: 100,
+          default: 50
+        },
+        offset: {
+          type: 'integer',
+          description: 'Offset para paginación (default: 0). Mejor usar cursor',
+          minimum: 0,
+          default: 0
+        },
+        cursor: {
+          type: 'string',
+          description: 'Cursor de la página siguiente (next_cursor de la respuesta anterior, con los mismos filtros)',
+          maxLength: 200
+        },
+        max_resultados: {
+          type: 'integer',
+          description: `Devuelve hasta este número de propiedades recorriendo varias páginas del backend (máximo: ${LIST_MAX_RESULTS})`,
+          minimum: 1,
+          maximum: LIST_MAX_RESULTS
+        },
+        ...FILTER_PROPERTIES,
+        ...PROXIMITY_PROPERTIES,
+        moneda: MONEDA_PROPERTY,
+        formato: FORMATO_PROPERTY,
+        idioma: IDIOMA_TEXTO_PROPERTY
+      }
+    },
+    outputSchema: propertyListOutputSchema,
+    endpoint: '/api/propiedades',
+    method: 'GET',
+    rules: [cursorArgs, proximityArgs, searchFilters],
+    rateLimitWeight: listingWeight,
+    handler: (args, definition, context) => searchProperties(args, definition, context.language)
+  },
+  {
+    name: 'listar_municipios',
+    description: 'Obtiene la lista completa de municipios disponibles en La Palma donde hay propiedades. Útil para saber qué ubicaciones se pueden filtrar.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {}
+    },
+    outputSchema: municipiosOutputSchema,
+    endpoint: '/api/municipios',
+    method: 'GET',
+    handler: async (args, definition) => apiCall(resolveEndpoint(definition, args), {}, definition.method)
+  },
+  {
+    name: 'listar_barrios',
+    description: 'Obtiene la lista de barrios/zonas disponibles, opcionalmente filtrados por municipio. Útil para búsquedas más específicas de ubicación.',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        municipio: {
+          type: 'string',
+          description: 'Filtrar barrios por municipio (ej: Santa Cruz de La Palma)'
+        }
+      }
+    },
+    outputSchema: barriosOutputSchema,
+    endpoint: '/api/barrios',
+    method: 'GET'
+  }
+];
+
+// Herramientas que se pueden llamar: las que no necesitan un endpoint opcional o cuyo endpoint tiene el backend
+export const toolDefinitions: ToolDefinition[] = registry.filter(
+  definition => !definition.capability || capabilities.includes(definition.capability)
+);
+
+function announce({ name, description, inputSchema, outputSchema, annotations }: ToolDefinition): Tool {
+  return { name, description, inputSchema, outputSchema, annotations: annotations ?? READ_ONLY_ANNOTATIONS };
+}
+
+// Herramientas tal como se anuncian en tools/list
+export const tools: Tool[] = toolDefinitions.map(announce);
+
+// Todo el registro, también lo que depende de endpoints opcionales: lo que anuncia un despliegue
+// con el backend completo (server.json)
+export const registryTools: Tool[] = registry.map(announce);
+
+// Descripción de un parámetro en `language`: la propia de la herramienta o la común del parámetro
+function paramDescription(language: Language, tool: string, param: string, schema: Record<string, unknown>): string | undefined {
+  const text = lookup(language, `tool.${tool}.param.${param}`) ?? lookup(language, `param.${param}`);
+  return text && interpolate(text, schema);
+}
+
+// Herramientas con la descripción y la de cada parámetro en `language` (lo que no esté traducido queda en español)
+export function localizedTools(language: Language, list: Tool[] = tools): Tool[] {
+  if (language === SOURCE_LANGUAGE) {
+    return list;
+  }
+  return list.map(tool => ({
+    ...tool,
+    description: lookup(language, `tool.${tool.name}.description`) ?? tool.description,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: tool.inputSchema.properties && Object.fromEntries(
+        Object.entries(tool.inputSchema.properties).map(([param, schema]) => {
+          const property = schema as Record<string, unknown>;
+          return [param, { ...property, description: paramDescription(language, tool.name, param, property) ?? property.description }];
+        })
+      ),
+    },
+  }));
+}
+
+// Claves del catálogo que faltan para anunciar las herramientas del registro en `language`
+export function missingToolMessages(language: Language): string[] {
+  if (language === SOURCE_LANGUAGE) {
+    return [];
+  }
+  return registryTools.flatMap(tool => [
+    ...(hasMessage(language, `tool.${tool.name}.description`) ? [] : [`tool.${tool.name}.description`]),
+    ...Object.keys(tool.inputSchema.properties ?? {})
+      .filter(param => !hasMessage(language, `tool.${tool.name}.param.${param}`) && !hasMessage(language, `param.${param}`))
+      .map(param => `param.${param}`),
+  ]);
+}
+
+export function findTool(name: string): ToolDefinition | undefined {
+  return toolDefinitions.find(t => t.name === name);
+}
+
+const log = createLogger('tools');
+
+// Resultado de una llamada para métricas y logs: invalid son errores del cliente (argumentos o permisos)
+function toolOutcome(error?: unknown): 'ok' | 'invalid' | 'error' {
+  if (!error) {
+    return 'ok';
+  }
+  return error instanceof ToolValidationError || error instanceof ToolScopeError ? 'invalid' : 'error';
+}
+
+// Ejecuta una herramienta y devuelve la respuesta del backend (lanza error si falla),
+// con span, métricas de duración y resultado, y log de la llamada
+export async function callTool(name: string, args: ToolArgs = {}, context: ToolContext = {}): Promise<unknown> {
+  const definition = findTool(name);
+  if (!definition) {
+    throw new UnknownToolError(name);
+  }
+
+  return withSpan(`tool ${name}`, 'internal', { 'mcp.tool.name': name }, async () => {
+    const started = performance.now();
+    let failure: unknown;
+    try {
+      return await runTool(definition, args, context);
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      const seconds = (performance.now() - started) / 1000;
+      const outcome = toolOutcome(failure);
+      toolCalls.inc({ tool: name, outcome });
+      toolDuration.observe({ tool: name, outcome }, seconds);
+      const fields = { tool: name, outcome, durationMs: Math.round(seconds * 1000) };
+      if (outcome === 'error') {
+        log.error('Herramienta fallida', { ...fields, error: failure });
+      } else {
+        log.info('Herramienta ejecutada', fields);
+      }
+    }
+  });
+}
+
+async function runTool(definition: ToolDefinition, args: ToolArgs, context: ToolContext): Promise<unknown> {
+  const name = definition.name;
+
+  const scope = definition.scope ?? SCOPE_READ;
+  if (context.scopes && !context.scopes.includes(scope)) {
+    throw new ToolScopeError(name, scope);
+  }
+
+  // Un null equivale a omitir el argumento: ni las reglas ni los handlers lo reciben
+  args = Object.fromEntries(Object.entries(args).filter(([, value]) => value !== null));
+
+  // Idioma de los problemas de validación y de los textos de los handlers
+  const language = requestLanguage(args, undefined, context.language ?? DEFAULT_LANGUAGE);
+  validateArgs(name, definition.inputSchema, args, definition.rules, language);
+  const location = await resolveLocation(name, args, language);
+  args = priceFiltersInBase(location.args);
+
+  let result = definition.handler
+    ? await definition.handler(args, definition, { ...context, language, callTool })
+    : await apiCall(resolveEndpoint(definition, args), backendArgs(args), definition.method, { idempotent: definition.idempotent });
+  if (location.ubicacion && typeof result === 'object' && result !== null) {
+    result = { ...result, ubicacion: location.ubicacion };
+  }
+  if (typeof args.moneda === 'string') {
+    result = convertResult(result, args.moneda);
+  }
+
+  validateOutput(name, definition.outputSchema, result, language);
+  return result;
+}
+
+// Mensaje de error de una llamada fallida para el cliente; los errores del backend se traducen
+// al catálogo y su texto original queda en el log de la llamada
+export function toolErrorMessage(error: unknown, name: string, language: Language): string {
+  if (error instanceof UnknownToolError) {
+    return t(language, 'error.unknownTool', { name });
+  }
+  if (error instanceof ToolScopeError) {
+    return t(language, 'error.insufficientScope', { name, scope: error.scope });
+  }
+  if (error instanceof BackendUnavailableError) {
+    return t(language, 'error.backendUnavailable', { seconds: error.retryInSeconds });
+  }
+  if (error instanceof ApiError) {
+    return apiErrorMessage(error, language);
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Ejecuta una herramienta y devuelve el resultado en formato MCP
+export async function executeTool(name: string, args: ToolArgs = {}, context: ToolContext = {}): Promise<CallToolResult> {
+  const language = requestLanguage(args, undefined, context.language ?? DEFAULT_LANGUAGE);
+  try {
+    const result = await callTool(name, args, context);
+
+    // structuredContent para clientes con outputSchema; el bloque de texto (JSON, Markdown o compacto) para los anteriores
+    return {
+      content: [
+        {
+          type: 'text',
+          text: renderToolResult(name, result, args, language),
+        },
+      ],
+      structuredContent: result as Record<string, unknown>,
+    };
+  } catch (error) {
+    if (error instanceof ToolValidationError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: t(language, 'error.invalidArguments'),
+              errors: error.issues
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (error instanceof ResponseValidationError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: t(language, 'error.unexpectedResponse'),
+              errors: error.issues
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: toolErrorMessage(error, name, language),
+          }, null, 2),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
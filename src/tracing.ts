@@ -0,0 +1,79 @@
+import { TRACING_ENABLED } from './config.js';
+import { createLogger } from './logger.js';
+
+// Trazas OpenTelemetry opcionales. El servidor no incluye el SDK: con TRACING_ENABLED=true usa
+// @opentelemetry/api y el proveedor que el despliegue registre en el proceso (por ejemplo con
+// `node --import @opentelemetry/auto-instrumentations-node/register`). Sin él, withSpan solo ejecuta la función.
+
+// Parte de @opentelemetry/api que se usa aquí
+interface Span {
+  setAttribute(key: string, value: string | number | boolean): void;
+  recordException(exception: Error): void;
+  setStatus(status: { code: number; message?: string }): void;
+  end(): void;
+}
+
+interface OpenTelemetryApi {
+  trace: {
+    getTracer(name: string, version?: string): {
+      startActiveSpan<T>(name: string, options: { kind?: number; attributes?: SpanAttributes }, fn: (span: Span) => T): T;
+    };
+  };
+  context: { active(): unknown };
+  propagation: { inject(context: unknown, carrier: Record<string, string>): void };
+  SpanStatusCode: { ERROR: number };
+  SpanKind: { INTERNAL: number; CLIENT: number };
+}
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+const log = createLogger('tracing');
+
+async function loadOpenTelemetry(): Promise<OpenTelemetryApi | undefined> {
+  // Nombre en variable: el paquete es opcional y no forma parte de las dependencias
+  const packageName = '@opentelemetry/api';
+  try {
+    const api = await import(packageName) as OpenTelemetryApi;
+    log.info('Trazas OpenTelemetry activadas');
+    return api;
+  } catch (error) {
+    log.warn('TRACING_ENABLED=true pero no se pudo cargar @opentelemetry/api; trazas desactivadas', { error });
+    return undefined;
+  }
+}
+
+const otel = TRACING_ENABLED ? await loadOpenTelemetry() : undefined;
+const tracer = otel?.trace.getTracer('lapalma24-mcp');
+
+// Ejecuta `fn` dentro de un span; las excepciones marcan el span como error y se relanzan
+export async function withSpan<T>(
+  name: string,
+  kind: 'internal' | 'client',
+  attributes: SpanAttributes,
+  fn: (span?: Span) => Promise<T>
+): Promise<T> {
+  if (!otel || !tracer) {
+    return fn();
+  }
+
+  const options = {
+    kind: kind === 'client' ? otel.SpanKind.CLIENT : otel.SpanKind.INTERNAL,
+    attributes: Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined)),
+  };
+  return tracer.startActiveSpan(name, options, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error as Error);
+      span.setStatus({ code: otel.SpanStatusCode.ERROR, message: (error as Error).message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+// Añade a las cabeceras de una petición saliente el contexto de traza (traceparent)
+export function injectTraceContext(headers: Record<string, string>): void {
+  otel?.propagation.inject(otel.context.active(), headers);
+}
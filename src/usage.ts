@@ -0,0 +1,79 @@
+import express from 'express';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { requireAdminToken } from './auth.js';
+import { ADMIN_TOKEN } from './config.js';
+import { requestWeight } from './rate-limit.js';
+
+// Consumo por cliente desde el arranque: peticiones aceptadas, unidades del límite de peticiones
+// y llamadas por herramienta. Las peticiones sin autenticar se cuentan juntas como "anonimo".
+
+export const ANONYMOUS_CLIENT = 'anonimo';
+
+export interface ClientUsage {
+  peticiones: number;
+  unidades: number;
+  herramientas: Record<string, number>;
+  primera: string;
+  ultima: string;
+}
+
+export class UsageTracker {
+  private clients = new Map<string, ClientUsage>();
+  readonly since = new Date().toISOString();
+
+  record(clientId: string, units: number, toolNames: string[] = []): void {
+    const now = new Date().toISOString();
+    let entry = this.clients.get(clientId);
+    if (!entry) {
+      entry = { peticiones: 0, unidades: 0, herramientas: {}, primera: now, ultima: now };
+      this.clients.set(clientId, entry);
+    }
+    entry.peticiones++;
+    entry.unidades += units;
+    entry.ultima = now;
+    for (const name of toolNames) {
+      entry.herramientas[name] = (entry.herramientas[name] ?? 0) + 1;
+    }
+  }
+
+  snapshot(): Record<string, ClientUsage> {
+    return Object.fromEntries(
+      [...this.clients].map(([clientId, entry]) => [clientId, { ...entry, herramientas: { ...entry.herramientas } }])
+    );
+  }
+}
+
+export const usage = new UsageTracker();
+
+// Herramientas de la petición: la de la ruta REST o las de los tools/call del cuerpo JSON-RPC
+function calledTools(req: Request): string[] {
+  const { toolName } = req.params;
+  if (typeof toolName === 'string') {
+    return [toolName];
+  }
+  const messages = Array.isArray(req.body) ? req.body : [req.body];
+  return messages
+    .filter((message: any) => message?.method === 'tools/call' && typeof message.params?.name === 'string')
+    .map((message: any) => message.params.name);
+}
+
+// Anota la petición en el consumo del cliente; va después de la autenticación y del límite de peticiones
+export function trackUsage(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    usage.record(req.auth?.clientId ?? ANONYMOUS_CLIENT, requestWeight(req), calledTools(req));
+    next();
+  };
+}
+
+// Consumo por cliente (deshabilitado si no hay ADMIN_TOKEN ni CACHE_ADMIN_TOKEN)
+export function createUsageRouter() {
+  const router = express.Router();
+
+  router.use(requireAdminToken(ADMIN_TOKEN));
+
+  router.get('/', (req, res) => {
+    res.json({ desde: usage.since, clientes: usage.snapshot() });
+  });
+
+  return router;
+}
@@ -0,0 +1,250 @@
+import { MAX_STAY_NIGHTS } from './config.js';
+import { DEFAULT_LANGUAGE, Language, t } from './i18n.js';
+
+// Validación de argumentos de herramientas: esquema (subconjunto de JSON Schema) + reglas de dominio.
+// Los motivos de cada problema se escriben en el idioma de la petición (claves issue.* del catálogo).
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+export type ValidationRule = (args: Record<string, unknown>, language: Language) => ValidationIssue[];
+
+// Lista de problemas para un mensaje de error: "campo (motivo); campo (motivo)"
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(i => `${i.field} (${i.message})`).join('; ');
+}
+
+export class ToolValidationError extends Error {
+  constructor(public readonly toolName: string, public readonly issues: ValidationIssue[]) {
+    super(`Argumentos inválidos para ${toolName}: ${formatIssues(issues)}`);
+    this.name = 'ToolValidationError';
+  }
+}
+
+// Respuesta que no cumple el outputSchema de la herramienta: el backend ha cambiado de formato
+export class ResponseValidationError extends Error {
+  constructor(public readonly toolName: string, public readonly issues: ValidationIssue[]) {
+    super(`Respuesta inesperada del backend para ${toolName}: ${formatIssues(issues)}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Convierte YYYY-MM-DD en timestamp UTC, o null si no es una fecha real del calendario
+export function parseDate(value: string): number | null {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match.map(Number);
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return time;
+}
+
+// Timestamp UTC a YYYY-MM-DD
+export function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+export function today(): number {
+  const now = new Date();
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+}
+
+function typeMatches(type: string | string[], value: unknown): boolean {
+  if (Array.isArray(type)) {
+    return type.some(t => typeMatches(t, value));
+  }
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+// Valida un valor contra su esquema y acumula los errores encontrados.
+// En los argumentos un null equivale a omitir el campo; con `allowNull = false` (respuestas) se valida su tipo.
+export function validateSchema(
+  schema: Record<string, any>,
+  value: unknown,
+  field = '',
+  allowNull = true,
+  language: Language = DEFAULT_LANGUAGE
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const name = field || '(argumentos)';
+
+  if (schema.type && !typeMatches(schema.type, value)) {
+    issues.push({ field: name, message: t(language, 'issue.type', { type: [schema.type].flat().join(` ${t(language, 'issue.or')} `) }) });
+    return issues;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ field: name, message: t(language, 'issue.enum', { values: schema.enum.join(', ') }) });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ field: name, message: t(language, 'issue.minLength', { min: schema.minLength }) });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ field: name, message: t(language, 'issue.maxLength', { max: schema.maxLength }) });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ field: name, message: t(language, 'issue.pattern', { pattern: schema.pattern }) });
+    } else if (schema.format === 'date' && parseDate(value) === null) {
+      issues.push({ field: name, message: t(language, 'issue.invalidDate', { value }) });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ field: name, message: t(language, 'issue.minimum', { min: schema.minimum }) });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ field: name, message: t(language, 'issue.maximum', { max: schema.maximum }) });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ field: name, message: t(language, 'issue.minItems', { min: schema.minItems }) });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ field: name, message: t(language, 'issue.maxItems', { max: schema.maxItems }) });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        issues.push(...validateSchema(schema.items, item, `${name}[${index}]`, allowNull, language));
+      });
+    }
+  }
+
+  if (schema.type === 'object' && typeMatches('object', value)) {
+    const obj = value as Record<string, unknown>;
+    const properties: Record<string, any> = schema.properties || {};
+    const prefix = field ? `${field}.` : '';
+
+    for (const key of schema.required || []) {
+      if (obj[key] === undefined || (obj[key] === null && allowNull)) {
+        issues.push({ field: `${prefix}${key}`, message: t(language, 'issue.required') });
+      }
+    }
+
+    for (const [key, propValue] of Object.entries(obj)) {
+      if (propValue === undefined || (propValue === null && allowNull)) {
+        continue;
+      }
+      if (properties[key]) {
+        issues.push(...validateSchema(properties[key], propValue, `${prefix}${key}`, allowNull, language));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ field: `${prefix}${key}`, message: t(language, 'issue.notAllowed') });
+      }
+    }
+  }
+
+  return issues;
+}
+
+// Fecha de un argumento como timestamp UTC, o null si falta o no es una fecha (lo señala el esquema)
+function dateArg(args: Record<string, unknown>, field: string): number | null {
+  const value = args[field];
+  return typeof value === 'string' ? parseDate(value) : null;
+}
+
+// Regla: fechas de estancia reales, no pasadas, ordenadas y con duración máxima
+export function stayDates(arrivalField: string, departureField: string, maxNights = MAX_STAY_NIGHTS): ValidationRule {
+  return (args, language) => {
+    const issues: ValidationIssue[] = [];
+    const arrival = dateArg(args, arrivalField);
+    const departure = dateArg(args, departureField);
+
+    if (arrival !== null && arrival < today()) {
+      issues.push({ field: arrivalField, message: t(language, 'issue.pastDate') });
+    }
+
+    if (arrival !== null && departure !== null) {
+      const nights = Math.round((departure - arrival) / DAY_MS);
+      if (nights < 1) {
+        issues.push({ field: departureField, message: t(language, 'issue.after', { field: arrivalField }) });
+      } else if (nights > maxNights) {
+        issues.push({ field: departureField, message: t(language, 'issue.maxStayRequested', { max: maxNights, nights }) });
+      }
+    }
+
+    return issues;
+  };
+}
+
+// Ventana de fechas para búsquedas flexibles: desde hoy en adelante y de como mucho `maxDays` días
+export function dateWindow(fromField: string, toField: string, maxDays: number): ValidationRule {
+  return (args, language) => {
+    const issues: ValidationIssue[] = [];
+    const from = dateArg(args, fromField);
+    const to = dateArg(args, toField);
+
+    if (from !== null && from < today()) {
+      issues.push({ field: fromField, message: t(language, 'issue.pastDate') });
+    }
+
+    if (from !== null && to !== null) {
+      const days = Math.round((to - from) / DAY_MS);
+      if (days < 1) {
+        issues.push({ field: toField, message: t(language, 'issue.after', { field: fromField }) });
+      } else if (days > maxDays) {
+        issues.push({ field: toField, message: t(language, 'issue.maxWindow', { max: maxDays, days }) });
+      }
+    }
+
+    return issues;
+  };
+}
+
+// Valida los argumentos de una herramienta y lanza ToolValidationError si hay errores
+export function validateArgs(
+  toolName: string,
+  schema: Record<string, any>,
+  args: Record<string, unknown>,
+  rules: ValidationRule[] = [],
+  language: Language = DEFAULT_LANGUAGE
+): void {
+  const issues = validateSchema(schema, args, '', true, language);
+  rules.forEach(rule => issues.push(...rule(args, language)));
+
+  if (issues.length > 0) {
+    throw new ToolValidationError(toolName, issues);
+  }
+}
+
+// Valida la respuesta de una herramienta contra su outputSchema y lanza ResponseValidationError si no cumple
+export function validateOutput(toolName: string, schema: Record<string, any>, value: unknown, language: Language = DEFAULT_LANGUAGE): void {
+  const issues = validateSchema(schema, value, 'respuesta', false, language);
+
+  if (issues.length > 0) {
+    throw new ResponseValidationError(toolName, issues);
+  }
+}
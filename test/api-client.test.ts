@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { testEnv } from './helpers.js';
+
+// Cliente del backend (src/api.ts) contra el mock: timeouts, reintentos y circuit breaker
+
+let mock: MockApi;
+let api: typeof import('../src/api.js');
+
+before(async () => {
+  mock = await startMockApi();
+  // La configuración se lee al importar, así que el entorno debe estar listo antes
+  Object.assign(process.env, testEnv(mock.url, {
+    API_TIMEOUT_MS: '100',
+    CIRCUIT_FAILURE_THRESHOLD: '3',
+    CIRCUIT_RESET_SECONDS: '1',
+  }));
+  api = await import('../src/api.js');
+});
+
+after(async () => {
+  await mock.close();
+});
+
+afterEach(() => {
+  mock.reset();
+  api.circuitBreaker.recordSuccess();
+});
+
+describe('cliente del backend', () => {
+  it('reintenta un GET tras un 503 transitorio', async () => {
+    mock.failNext('/api/municipios', 503);
+    const result: any = await api.apiCall('/api/municipios');
+    assert.equal(result.success, true);
+    assert.equal(mock.requests.length, 2);
+  });
+
+  it('no reintenta POST no idempotentes ante un 500', async () => {
+    mock.failNext('/api/calcular-precio', 500);
+    await assert.rejects(api.apiCall('/api/calcular-precio', { id_casa: 'casa-101' }, 'POST'), /500/);
+    assert.equal(mock.requests.length, 1);
+  });
+
+  it('reintenta POST marcados como idempotentes', async () => {
+    mock.failNext('/api/disponibilidad', 502);
+    const result: any = await api.apiCall(
+      '/api/disponibilidad',
+      { fecha_llegada: '2030-01-01', fecha_salida: '2030-01-05' },
+      'POST',
+      { idempotent: true }
+    );
+    assert.equal(result.success, true);
+    assert.equal(mock.requests.length, 2);
+  });
+
+  it('no reintenta errores 4xx', async () => {
+    await assert.rejects(api.apiCall('/api/propiedad/casa-999'), /404/);
+    assert.equal(mock.requests.length, 1);
+  });
+
+  it('corta peticiones lentas con timeout', async () => {
+    mock.delayNext('/api/barrios', 500, 3);
+    await assert.rejects(api.apiCall('/api/barrios'), /timeout/);
+    assert.equal(mock.requests.length, 3);
+  });
+
+  it('abre el circuito tras fallos consecutivos y falla rápido', async () => {
+    mock.failNext('/api/propiedades', 500, 3);
+    await assert.rejects(api.apiCall('/api/propiedades'), /500/);
+    assert.equal(api.circuitBreaker.getStatus().state, 'open');
+
+    await assert.rejects(api.apiCall('/api/propiedades'), /Backend no disponible/);
+    assert.equal(mock.requests.length, 3);
+  });
+
+  it('cierra el circuito cuando la prueba tras la espera tiene éxito', async () => {
+    mock.failNext('/api/propiedades', 500, 3);
+    await assert.rejects(api.apiCall('/api/propiedades'));
+    assert.equal(api.circuitBreaker.getStatus().state, 'open');
+
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    const result: any = await api.apiCall('/api/propiedades');
+    assert.equal(result.success, true);
+    assert.equal(api.circuitBreaker.getStatus().state, 'closed');
+  });
+});
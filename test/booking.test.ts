@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ElicitRequestSchema, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { daysFromToday } from './mock-api/fixtures.js';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { connect, McpHarness, testEnv } from './helpers.js';
+
+// Solicitudes de reserva (solicitar_reserva): confirmación con token en dos pasos y con elicitation
+
+let mock: MockApi;
+let tools: typeof import('../src/tools.js');
+
+const booking = {
+  id_casa: 'casa-102',
+  fecha_llegada: daysFromToday(40),
+  fecha_salida: daysFromToday(43),
+  num_personas: 2,
+  nombre: 'Ana Pérez',
+  email: 'ana@example.com',
+  notas: 'Llegada tarde',
+};
+
+const bookingPosts = () => mock.requests.filter(r => r.path === '/api/reservas');
+
+before(async () => {
+  mock = await startMockApi();
+  Object.assign(process.env, testEnv(mock.url));
+  tools = await import('../src/tools.js');
+});
+
+after(async () => {
+  await mock.close();
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+describe('solicitar_reserva con token de confirmación', () => {
+  it('devuelve un presupuesto con token y no envía nada hasta confirmar', async () => {
+    const first: any = await tools.callTool('solicitar_reserva', booking);
+    assert.equal(first.estado, 'pendiente_confirmacion');
+    assert.equal(first.presupuesto.precio_total, 240);
+    assert.ok(first.token_confirmacion);
+    assert.equal(bookingPosts().length, 0);
+
+    const second: any = await tools.callTool('solicitar_reserva', { ...booking, token_confirmacion: first.token_confirmacion });
+    assert.equal(second.estado, 'enviada');
+    assert.match(second.id_reserva, /^R-\d+$/);
+    assert.equal(bookingPosts().length, 1);
+    assert.equal(bookingPosts()[0].body.email, booking.email);
+    assert.equal(bookingPosts()[0].body.token_confirmacion, undefined);
+
+    // Cada token confirma una sola solicitud
+    await assert.rejects(
+      tools.callTool('solicitar_reserva', { ...booking, token_confirmacion: first.token_confirmacion }),
+      (error: any) => error.issues.some((i: any) => i.field === 'token_confirmacion' && /usado/.test(i.message))
+    );
+    assert.equal(bookingPosts().length, 1);
+  });
+
+  it('envía una sola solicitud si se confirma dos veces a la vez con el mismo token', async () => {
+    const first: any = await tools.callTool('solicitar_reserva', booking);
+    mock.delayNext('/api/calcular-precio', 100);
+
+    const results = await Promise.allSettled([
+      tools.callTool('solicitar_reserva', { ...booking, token_confirmacion: first.token_confirmacion }),
+      tools.callTool('solicitar_reserva', { ...booking, token_confirmacion: first.token_confirmacion }),
+    ]);
+
+    assert.equal(results.filter(r => r.status === 'fulfilled').length, 1);
+    assert.equal(bookingPosts().length, 1);
+  });
+
+  it('el token sigue valiendo si falla el presupuesto', async () => {
+    const first: any = await tools.callTool('solicitar_reserva', booking);
+    mock.failNext('/api/calcular-precio', 400);
+
+    await assert.rejects(tools.callTool('solicitar_reserva', { ...booking, token_confirmacion: first.token_confirmacion }));
+    const retried: any = await tools.callTool('solicitar_reserva', { ...booking, token_confirmacion: first.token_confirmacion });
+    assert.equal(retried.estado, 'enviada');
+    assert.equal(bookingPosts().length, 1);
+  });
+
+  it('rechaza el token si cambian los datos de la solicitud', async () => {
+    const first: any = await tools.callTool('solicitar_reserva', booking);
+    mock.reset();
+
+    await assert.rejects(
+      tools.callTool('solicitar_reserva', { ...booking, num_personas: 3, token_confirmacion: first.token_confirmacion }),
+      (error: any) => error.issues.some((i: any) => i.field === 'token_confirmacion')
+    );
+    assert.equal(mock.requests.length, 0);
+  });
+
+  it('no pide confirmación si la propiedad está ocupada', async () => {
+    await assert.rejects(
+      tools.callTool('solicitar_reserva', { ...booking, id_casa: 'casa-101', fecha_llegada: daysFromToday(11), fecha_salida: daysFromToday(14) }),
+      /no está disponible/
+    );
+    assert.equal(bookingPosts().length, 0);
+  });
+});
+
+describe('solicitar_reserva con elicitation', () => {
+  for (const transport of ['stdio', 'http'] as const) {
+    describe(`transporte ${transport}`, () => {
+      let harness: McpHarness;
+      let answer: ElicitResult;
+      const messages: string[] = [];
+
+      before(async () => {
+        const client = new Client({ name: 'lapalma24-e2e', version: '1.0.0' }, { capabilities: { elicitation: {} } });
+        client.setRequestHandler(ElicitRequestSchema, async request => {
+          messages.push(request.params.message);
+          return answer;
+        });
+        harness = await connect(transport, testEnv(mock.url), client);
+      });
+
+      after(async () => {
+        await harness?.close();
+      });
+
+      it('envía la solicitud cuando el usuario confirma', async () => {
+        answer = { action: 'accept', content: { confirmar: true } };
+        const result: any = await harness.client.callTool({ name: 'solicitar_reserva', arguments: booking });
+
+        assert.equal(result.isError, undefined);
+        assert.equal(result.structuredContent.estado, 'enviada');
+        assert.match(messages.at(-1) ?? '', /240 EUR/);
+        assert.equal(bookingPosts().length, 1);
+      });
+
+      it('no envía nada si el usuario rechaza', async () => {
+        answer = { action: 'decline' };
+        const result: any = await harness.client.callTool({ name: 'solicitar_reserva', arguments: booking });
+
+        assert.equal(result.structuredContent.estado, 'cancelada');
+        assert.equal(bookingPosts().length, 0);
+      });
+    });
+  }
+});
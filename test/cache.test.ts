@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { cacheKey, TtlCache, ttlForEndpoint } from '../src/cache.js';
+
+// Caché en memoria del cliente del backend: TTL, expulsión LRU, agrupación de peticiones y vaciado
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Carga que cuenta sus llamadas
+function loader<T>(value: T) {
+  const load = async () => {
+    load.calls++;
+    return value;
+  };
+  load.calls = 0;
+  return load;
+}
+
+describe('TtlCache', () => {
+  it('reutiliza el valor mientras no caduca y lo vuelve a cargar después', async () => {
+    const cache = new TtlCache();
+    const load = loader('municipios');
+
+    assert.equal(await cache.getOrLoad('a', 50, load), 'municipios');
+    assert.equal(await cache.getOrLoad('a', 50, load), 'municipios');
+    assert.equal(load.calls, 1);
+
+    await sleep(70);
+    await cache.getOrLoad('a', 50, load);
+    assert.equal(load.calls, 2);
+    assert.deepEqual({ hits: cache.getStats().hits, misses: cache.getStats().misses }, { hits: 1, misses: 2 });
+  });
+
+  it('no guarda los valores con TTL 0 ni las cargas fallidas', async () => {
+    const cache = new TtlCache();
+    const load = loader('presupuesto');
+
+    await cache.getOrLoad('precio', 0, load);
+    await cache.getOrLoad('precio', 0, load);
+    assert.equal(load.calls, 2);
+
+    await assert.rejects(cache.getOrLoad('error', 1000, () => Promise.reject(new Error('500'))));
+    assert.equal(await cache.getOrLoad('error', 1000, async () => 'ok'), 'ok');
+    assert.equal(cache.getStats().entries, 1);
+  });
+
+  it('agrupa las cargas idénticas en curso en una sola', async () => {
+    const cache = new TtlCache();
+    let calls = 0;
+    const load = async () => {
+      calls++;
+      await sleep(20);
+      return calls;
+    };
+
+    const results = await Promise.all([cache.getOrLoad('a', 1000, load), cache.getOrLoad('a', 1000, load), cache.getOrLoad('a', 1000, load)]);
+
+    assert.deepEqual(results, [1, 1, 1]);
+    assert.equal(calls, 1);
+    assert.equal(cache.getStats().coalesced, 2);
+  });
+
+  it('expulsa la entrada usada hace más tiempo al superar el máximo', async () => {
+    const cache = new TtlCache(true, 2);
+    await cache.getOrLoad('a', 1000, async () => 'a');
+    await cache.getOrLoad('b', 1000, async () => 'b');
+    // Usar `a` la convierte en la más reciente: la expulsada es `b`
+    await cache.getOrLoad('a', 1000, async () => 'otro');
+    await cache.getOrLoad('c', 1000, async () => 'c');
+
+    const load = loader('b2');
+    assert.equal(await cache.getOrLoad('a', 1000, async () => 'otro'), 'a');
+    assert.equal(await cache.getOrLoad('b', 1000, load), 'b2');
+    assert.equal(load.calls, 1);
+    assert.ok(cache.getStats().evictions >= 1);
+  });
+
+  it('vacía todo o solo las claves con un prefijo', () => {
+    const cache = new TtlCache();
+    cache.set('/api/propiedad/casa-101 GET []', 1, 1000);
+    cache.set('/api/propiedad/casa-102 GET []', 2, 1000);
+    cache.set('/api/municipios GET []', 3, 1000);
+
+    assert.equal(cache.flush('/api/propiedad/'), 2);
+    assert.equal(cache.getStats().entries, 1);
+    assert.equal(cache.flush(), 1);
+    assert.equal(cache.getStats().entries, 0);
+  });
+
+  it('no guarda nada si está desactivada o se pide saltarla', async () => {
+    const disabled = new TtlCache(false);
+    const load = loader('x');
+    await disabled.getOrLoad('a', 1000, load);
+    await disabled.getOrLoad('a', 1000, load);
+
+    const cache = new TtlCache();
+    await cache.getOrLoad('a', 1000, load, true);
+
+    assert.equal(load.calls, 3);
+    assert.equal(disabled.getStats().bypassed, 2);
+    assert.equal(cache.getStats().entries, 0);
+  });
+});
+
+describe('claves y TTL por endpoint', () => {
+  it('la clave no depende del orden de los parámetros ni de los vacíos', () => {
+    assert.equal(
+      cacheKey('GET', '/api/barrios', { municipio: 'Tazacorte', idioma: 'es', limit: undefined }),
+      cacheKey('GET', '/api/barrios', { idioma: 'es', municipio: 'Tazacorte', offset: null })
+    );
+    assert.notEqual(cacheKey('GET', '/api/barrios', {}), cacheKey('POST', '/api/barrios', {}));
+  });
+
+  it('aplica el TTL del endpoint y 0 a los desconocidos', () => {
+    assert.equal(ttlForEndpoint('/api/municipios'), 24 * 60 * 60 * 1000);
+    assert.equal(ttlForEndpoint('/api/propiedad/casa-101'), 10 * 60 * 1000);
+    assert.equal(ttlForEndpoint('/api/calcular-precio'), 0);
+    assert.equal(ttlForEndpoint('/api/reservas'), 0);
+  });
+});
@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { daysFromToday } from './mock-api/fixtures.js';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { testEnv } from './helpers.js';
+
+// Calendario de ocupación (obtener_calendario) contra el mock del backend
+
+let mock: MockApi;
+let tools: typeof import('../src/tools.js');
+
+const weekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+const windows = (result: any) => result.huecos.map((h: any) => [h.fecha_llegada, h.fecha_salida, h.noches]);
+
+before(async () => {
+  mock = await startMockApi();
+  Object.assign(process.env, testEnv(mock.url));
+  tools = await import('../src/tools.js');
+});
+
+after(async () => {
+  await mock.close();
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+describe('obtener_calendario', () => {
+  it('devuelve la ocupación noche a noche y los huecos libres', async () => {
+    const result: any = await tools.callTool('obtener_calendario', {
+      id_casa: 'casa-101',
+      fecha_desde: daysFromToday(8),
+      fecha_hasta: daysFromToday(20),
+      incluir_huecos: true,
+    });
+
+    // casa-101 está ocupada del día 10 al 17
+    assert.equal(result.dias.length, 12);
+    assert.equal(result.noches_ocupadas, 7);
+    assert.equal(result.noches_libres, 5);
+    assert.deepEqual(windows(result), [
+      [daysFromToday(8), daysFromToday(10), 2],
+      [daysFromToday(17), daysFromToday(20), 3],
+    ]);
+    assert.equal(result.huecos[0].precio_noches, 190);
+  });
+
+  it('descarta huecos más cortos que la estancia mínima o que noches_min', async () => {
+    // casa-103: estancia mínima de 3 noches, ocupada del día 30 al 44
+    const result: any = await tools.callTool('obtener_calendario', {
+      id_casa: 'casa-103',
+      fecha_desde: daysFromToday(28),
+      fecha_hasta: daysFromToday(48),
+      incluir_huecos: true,
+    });
+    assert.equal(result.estancia_minima, 3);
+    assert.deepEqual(windows(result), [[daysFromToday(44), daysFromToday(48), 4]]);
+
+    const longer: any = await tools.callTool('obtener_calendario', {
+      id_casa: 'casa-103',
+      fecha_desde: daysFromToday(28),
+      fecha_hasta: daysFromToday(48),
+      incluir_huecos: true,
+      noches_min: 5,
+    });
+    assert.deepEqual(longer.huecos, []);
+  });
+
+  it('respeta los días de llegada y salida', async () => {
+    // casa-104 solo admite cambios en sábado
+    const result: any = await tools.callTool('obtener_calendario', {
+      id_casa: 'casa-104',
+      fecha_desde: daysFromToday(1),
+      fecha_hasta: daysFromToday(29),
+      incluir_huecos: true,
+    });
+
+    assert.ok(result.dias.every((d: any) => d.llegada === (weekday(d.fecha) === 6)));
+    const [window] = result.huecos;
+    assert.equal(weekday(window.fecha_llegada), 6);
+    // Fuera del rango no se conocen las reglas: el hueco llega hasta el final
+    assert.equal(window.fecha_salida, daysFromToday(29));
+  });
+
+  it('consulta un mes completo', async () => {
+    const now = new Date();
+    const next = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+    const mes = next.toISOString().slice(0, 7);
+    const result: any = await tools.callTool('obtener_calendario', { id_casa: 'casa-102', mes });
+
+    const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+    assert.equal(result.fecha_desde, `${mes}-01`);
+    assert.equal(result.dias.length, daysInMonth);
+    assert.equal(result.huecos, undefined);
+    assert.deepEqual(mock.requests[0].query, { fecha_desde: result.fecha_desde, fecha_hasta: result.fecha_hasta });
+  });
+
+  it('exige un periodo válido', async () => {
+    const fields = async (args: Record<string, unknown>) => {
+      try {
+        await tools.callTool('obtener_calendario', { id_casa: 'casa-102', ...args });
+      } catch (error: any) {
+        return error.issues.map((i: any) => i.field);
+      }
+      return [];
+    };
+
+    assert.deepEqual(await fields({}), ['mes']);
+    assert.deepEqual(await fields({ mes: '2020-01' }), ['mes']);
+    assert.deepEqual(await fields({ mes: daysFromToday(40).slice(0, 7), fecha_desde: daysFromToday(40) }), ['mes']);
+    assert.deepEqual(await fields({ fecha_desde: daysFromToday(1) }), ['fecha_hasta']);
+    assert.deepEqual(await fields({ fecha_desde: daysFromToday(1), fecha_hasta: daysFromToday(200) }), ['fecha_hasta']);
+    assert.equal(mock.requests.length, 0);
+  });
+});
@@ -0,0 +1,93 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { daysFromToday } from './mock-api/fixtures.js';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { testEnv } from './helpers.js';
+
+// Comparación de propiedades (comparar_propiedades) contra el mock del backend
+
+let mock: MockApi;
+let api: typeof import('../src/api.js');
+let tools: typeof import('../src/tools.js');
+
+before(async () => {
+  mock = await startMockApi();
+  Object.assign(process.env, testEnv(mock.url));
+  api = await import('../src/api.js');
+  tools = await import('../src/tools.js');
+});
+
+after(async () => {
+  await mock.close();
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+describe('comparar_propiedades', () => {
+  it('normaliza fichas y precios de cada propiedad', async () => {
+    const result: any = await tools.callTool('comparar_propiedades', {
+      ids_casa: ['casa-102', 'casa-104'],
+      fecha_llegada: daysFromToday(60),
+      fecha_salida: daysFromToday(67),
+      num_personas: 2,
+    });
+
+    const [apartment, house] = result.propiedades;
+    assert.equal(apartment.estado, 'disponible');
+    assert.equal(apartment.municipio, 'Santa Cruz de La Palma');
+    assert.equal(typeof apartment.dormitorios, 'number');
+    // 7 noches a 70 € con un 10 % de descuento + 30 de limpieza
+    assert.equal(apartment.precio_total, 471);
+    assert.equal(apartment.descuento, 49);
+    assert.equal(house.precio_noche, 110);
+    assert.equal(result.mas_barata, 'casa-102');
+  });
+
+  it('señala propiedades inexistentes, ocupadas o sin capacidad', async () => {
+    const result: any = await tools.callTool('comparar_propiedades', {
+      ids_casa: ['casa-101', 'casa-102', 'casa-999'],
+      fecha_llegada: daysFromToday(11),
+      fecha_salida: daysFromToday(14),
+      num_personas: 3,
+    });
+
+    const byId = Object.fromEntries(result.propiedades.map((p: any) => [p.id_casa, p]));
+    assert.equal(byId['casa-101'].estado, 'no_disponible');
+    assert.equal(byId['casa-102'].estado, 'no_disponible');
+    assert.equal(byId['casa-102'].capacidad_suficiente, false);
+    assert.equal(byId['casa-999'].estado, 'no_encontrada');
+    assert.equal(byId['casa-999'].error, 'Propiedad no encontrada');
+    assert.deepEqual(result.no_encontradas, ['casa-999']);
+    assert.deepEqual(result.no_disponibles.sort(), ['casa-101', 'casa-102']);
+    assert.equal(result.mas_barata, null);
+  });
+
+  it('compara solo fichas cuando no hay fechas', async () => {
+    const result: any = await tools.callTool('comparar_propiedades', { ids_casa: ['casa-101', 'casa-105'] });
+    assert.deepEqual(result.propiedades.map((p: any) => p.estado), ['encontrada', 'encontrada']);
+    assert.equal(result.mas_barata, 'casa-105');
+    assert.equal(mock.requests.filter(r => r.path === '/api/calcular-precio').length, 0);
+  });
+
+  it('da los errores de cada propiedad en el idioma de la petición', async () => {
+    const result: any = await tools.callTool('comparar_propiedades', { ids_casa: ['casa-101', 'casa-999'] }, { language: 'en' });
+    assert.equal(result.propiedades[1].error, 'Property not found');
+  });
+
+  it('propaga el error original del backend si no se pudo consultar ninguna', async () => {
+    mock.failNext('/api/propiedad/', 400, 2);
+    await assert.rejects(
+      tools.callTool('comparar_propiedades', { ids_casa: ['casa-101', 'casa-102'] }),
+      (error: any) => error instanceof api.ApiError && error.status === 400
+    );
+  });
+
+  it('exige las dos fechas si se indica una', async () => {
+    await assert.rejects(
+      tools.callTool('comparar_propiedades', { ids_casa: ['casa-101', 'casa-102'], fecha_llegada: daysFromToday(30) }),
+      (error: any) => error.issues.some((i: any) => i.field === 'fecha_salida')
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { daysFromToday } from './mock-api/fixtures.js';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { testEnv } from './helpers.js';
+
+// Conversión de moneda con la tabla local de tipos de cambio y desglose de los presupuestos
+
+let mock: MockApi;
+let tools: typeof import('../src/tools.js');
+let currency: typeof import('../src/currency.js');
+
+const dir = mkdtempSync(join(tmpdir(), 'lapalma24-rates-'));
+const ratesFile = join(dir, 'rates.json');
+writeFileSync(ratesFile, JSON.stringify({ fecha: '2026-09-30', base: 'EUR', tasas: { GBP: 0.8, CHF: 0.9 } }));
+
+const stay = { fecha_llegada: daysFromToday(60), fecha_salida: daysFromToday(67) };
+
+before(async () => {
+  mock = await startMockApi();
+  Object.assign(process.env, testEnv(mock.url), { EXCHANGE_RATES_FILE: ratesFile });
+  tools = await import('../src/tools.js');
+  currency = await import('../src/currency.js');
+});
+
+after(async () => {
+  await mock.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+describe('desglose del presupuesto', () => {
+  it('separa alojamiento, descuentos, tarifas, IGIC y fianza', async () => {
+    const quote: any = await tools.callTool('calcular_precio_estancia', { id_casa: 'casa-103', ...stay });
+
+    assert.equal(quote.precio_total, 942);
+    assert.deepEqual(quote.desglose, {
+      alojamiento: 980,
+      precio_noche: 140,
+      descuentos: [{ concepto: 'descuento', importe: 98 }],
+      tarifas: [{ concepto: 'limpieza', importe: 60 }],
+      impuestos: [{ concepto: 'IGIC', porcentaje: 7, base: 880.37, importe: 61.63, incluido: true }],
+      total: 942,
+      fianza: 300,
+    });
+    assert.equal(quote.tipo_cambio, undefined);
+  });
+});
+
+describe('moneda', () => {
+  it('convierte el presupuesto y su desglose con la tabla configurada', async () => {
+    const quote: any = await tools.callTool('calcular_precio_estancia', { id_casa: 'casa-103', ...stay, moneda: 'GBP' });
+
+    assert.equal(quote.moneda, 'GBP');
+    assert.equal(quote.precio_total, 753.6);
+    assert.equal(quote.fianza, 240);
+    assert.equal(quote.desglose.total, 753.6);
+    assert.equal(quote.desglose.impuestos[0].base, 704.3);
+    assert.deepEqual(quote.tipo_cambio, { base: 'EUR', moneda: 'GBP', tasa: 0.8, fecha: '2026-09-30' });
+
+    const request = mock.requests.find(r => r.path === '/api/calcular-precio');
+    assert.equal(request?.body.moneda, undefined);
+  });
+
+  it('aplica los filtros de precio en la moneda pedida', async () => {
+    const result: any = await tools.callTool('listar_propiedades', { precio_max: 80, moneda: 'GBP', ordenar_por: 'precio' });
+
+    assert.deepEqual(result.propiedades.map((p: any) => [p.id_casa, p.precio_noche]), [
+      ['casa-102', 56],
+      ['casa-105', 64],
+      ['casa-101', 76],
+    ]);
+    assert.equal(result.moneda, 'GBP');
+  });
+
+  it('convierte cada propiedad de una comparación', async () => {
+    const result: any = await tools.callTool('comparar_propiedades', { ids_casa: ['casa-101', 'casa-102'], ...stay, moneda: 'CHF' });
+
+    for (const property of result.propiedades) {
+      assert.equal(property.moneda, 'CHF');
+    }
+    assert.equal(result.propiedades[1].precio_noche, 63);
+    assert.equal(result.tipo_cambio.tasa, 0.9);
+  });
+
+  it('rechaza monedas que no están en la tabla', async () => {
+    const result = await tools.executeTool('calcular_precio_estancia', { id_casa: 'casa-101', ...stay, moneda: 'JPY' });
+
+    assert.equal(result.isError, true);
+    assert.match((result.content[0] as any).text, /"field": "moneda"/);
+    assert.deepEqual(currency.CURRENCIES, ['EUR', 'CHF', 'GBP']);
+  });
+
+  it('muestra el IGIC, la fianza y el tipo de cambio en Markdown', async () => {
+    const result = await tools.executeTool('calcular_precio_estancia', {
+      id_casa: 'casa-103', ...stay, moneda: 'GBP', formato: 'markdown', idioma: 'en',
+    });
+    const text = (result.content[0] as any).text;
+
+    assert.match(text, /\*\*Total: £753\.6\*\*/);
+    assert.match(text, /Incl\. IGIC \(7%\): £49\.3/);
+    assert.match(text, /Deposit \(refundable, not included\): £240/);
+    assert.match(text, /1 EUR = 0\.8 GBP \(as of 2026-09-30\)/);
+  });
+
+  it('no arranca con una tabla de tipos de cambio mal formada', () => {
+    const invalid = join(dir, 'invalid.json');
+    writeFileSync(invalid, JSON.stringify({ fecha: '30/09/2026', tasas: { gbp: -1 } }));
+
+    assert.throws(() => currency.loadExchangeRates(invalid), /fecha debe tener el formato YYYY-MM-DD; tasa no válida: gbp/);
+  });
+});
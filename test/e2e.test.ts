@@ -0,0 +1,343 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { daysFromToday, MALFORMED_PROPERTY_ID, municipios } from './mock-api/fixtures.js';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { connect, McpHarness, parseToolText, startHttpServer, testEnv, TRANSPORTS } from './helpers.js';
+
+let mock: MockApi;
+
+before(async () => {
+  mock = await startMockApi();
+});
+
+after(async () => {
+  await mock.close();
+});
+
+// Todos los transportes devuelven los fallos de las herramientas como resultado con isError
+async function toolError(harness: McpHarness, name: string, args: Record<string, unknown>): Promise<string> {
+  const result: any = await harness.client.callTool({ name, arguments: args });
+  assert.equal(result.isError, true, `se esperaba un error de ${name}`);
+  return result.content[0].text;
+}
+
+for (const transport of TRANSPORTS) {
+  describe(`transporte ${transport}`, () => {
+    let harness: McpHarness;
+
+    before(async () => {
+      harness = await connect(transport, testEnv(mock.url));
+    });
+
+    after(async () => {
+      await harness?.close();
+    });
+
+    afterEach(() => {
+      mock.reset();
+    });
+
+    it('anuncia todas las herramientas del registro', async () => {
+      const { tools } = await harness.client.listTools();
+      const names = tools.map(t => t.name).sort();
+      assert.deepEqual(names, [
+        'buscar_disponibilidad',
+        'buscar_fechas_flexibles',
+        'calcular_precio_estancia',
+        'comparar_propiedades',
+        'listar_barrios',
+        'listar_municipios',
+        'listar_propiedades',
+        'obtener_calendario',
+        'obtener_detalles_propiedad',
+        'solicitar_reserva',
+      ]);
+      assert.ok(tools.every(t => t.outputSchema?.type === 'object'));
+      const booking = tools.find(t => t.name === 'solicitar_reserva');
+      assert.equal(booking?.annotations?.destructiveHint, true);
+      assert.equal(booking?.annotations?.idempotentHint, false);
+      assert.equal(tools.find(t => t.name === 'listar_municipios')?.annotations?.readOnlyHint, true);
+    });
+
+    it('lista los municipios del backend', async () => {
+      const response: any = await harness.client.callTool({ name: 'listar_municipios', arguments: {} });
+      const result = parseToolText(response);
+      assert.deepEqual(result.municipios.map((m: any) => m.nombre), municipios);
+      assert.deepEqual(response.structuredContent, result);
+      assert.equal(mock.requests[0].path, '/api/municipios');
+    });
+
+    it('filtra barrios por municipio', async () => {
+      const result = parseToolText(await harness.client.callTool({
+        name: 'listar_barrios',
+        arguments: { municipio: 'Santa Cruz de La Palma' },
+      }));
+      assert.deepEqual(result.barrios.map((b: any) => b.nombre), ['Centro', 'San Telmo']);
+    });
+
+    it('obtiene los detalles de una propiedad en el idioma pedido', async () => {
+      const result = parseToolText(await harness.client.callTool({
+        name: 'obtener_detalles_propiedad',
+        arguments: { id_casa: 'casa-101', idioma: 'en' },
+      }));
+      assert.equal(result.propiedad.nombre, 'Casa Las Olas');
+      assert.match(result.propiedad.descripcion, /beach/);
+      assert.deepEqual(mock.requests[0].query, { idioma: 'en' });
+    });
+
+    it('excluye propiedades ocupadas de la disponibilidad', async () => {
+      const result = parseToolText(await harness.client.callTool({
+        name: 'buscar_disponibilidad',
+        arguments: { fecha_llegada: daysFromToday(12), fecha_salida: daysFromToday(15), num_personas: 2 },
+      }));
+      const ids = result.propiedades.map((p: any) => p.id_casa);
+      assert.ok(!ids.includes('casa-101'));
+      assert.ok(ids.includes('casa-102'));
+    });
+
+    it('calcula el precio con descuento semanal', async () => {
+      const result = parseToolText(await harness.client.callTool({
+        name: 'calcular_precio_estancia',
+        arguments: { id_casa: 'casa-102', fecha_llegada: daysFromToday(50), fecha_salida: daysFromToday(57), num_personas: 2 },
+      }));
+      assert.equal(result.noches, 7);
+      assert.equal(result.descuento, 49);
+      assert.equal(result.precio_total, 7 * 70 - 49 + 30);
+    });
+
+    it('devuelve el texto en Markdown en el idioma pedido sin enviar formato al backend', async () => {
+      const response: any = await harness.client.callTool({
+        name: 'buscar_disponibilidad',
+        arguments: { fecha_llegada: daysFromToday(12), fecha_salida: daysFromToday(15), formato: 'markdown', idioma: 'de' },
+      });
+      const text = response.content[0].text;
+      assert.match(text, /Unterkünfte verfügbar/);
+      assert.match(text, /\| Unterkunft \| Lage \|/);
+      assert.match(text, /\[Apartamento Avenida Marítima\]\(https:\/\/www\.la-palma24\.net\/casa\/casa-102\)/);
+      assert.equal(response.structuredContent.propiedades.length > 0, true);
+      assert.deepEqual(Object.keys(mock.requests[0].body).sort(), ['fecha_llegada', 'fecha_salida']);
+    });
+
+    it('rechaza argumentos inválidos sin llamar al backend', async () => {
+      const message = await toolError(harness, 'calcular_precio_estancia', {
+        id_casa: '../admin',
+        fecha_llegada: daysFromToday(20),
+        fecha_salida: daysFromToday(18),
+        num_personas: 0,
+      });
+      assert.match(message, /id_casa/);
+      assert.match(message, /fecha_salida/);
+      assert.match(message, /num_personas/);
+      assert.equal(mock.requests.length, 0);
+    });
+
+    it('propaga un 404 del backend como error de herramienta', async () => {
+      const message = await toolError(harness, 'obtener_detalles_propiedad', { id_casa: 'casa-999' });
+      assert.equal(JSON.parse(message).error, 'No encontrado en el backend');
+    });
+
+    it('propaga un 500 del backend como error de herramienta', async () => {
+      const message = await toolError(harness, 'obtener_detalles_propiedad', { id_casa: 'casa-500' });
+      assert.equal(JSON.parse(message).error, 'Error del backend (HTTP 500)');
+      assert.doesNotMatch(message, /Internal Server Error/);
+    });
+
+    it('falla si la respuesta del backend no cumple el outputSchema', async () => {
+      const message = await toolError(harness, 'obtener_detalles_propiedad', { id_casa: MALFORMED_PROPERTY_ID });
+      assert.match(message, /respuesta\.propiedad\.id_casa/);
+      assert.match(message, /respuesta\.propiedad\.personas_max/);
+    });
+
+    it('propaga un 429 del backend como error de herramienta', async () => {
+      mock.failNext('/api/propiedades', 429);
+      const message = await toolError(harness, 'listar_propiedades', {});
+      assert.match(JSON.parse(message).error, /demasiadas peticiones/);
+    });
+
+    it('expone municipios como recurso y barrios y propiedades como plantillas', async () => {
+      const { resources } = await harness.client.listResources();
+      assert.deepEqual(resources.map(r => r.uri), ['lapalma24://municipios']);
+
+      const { resourceTemplates } = await harness.client.listResourceTemplates();
+      assert.deepEqual(resourceTemplates.map(t => t.uriTemplate), [
+        'lapalma24://municipios/{municipio}/barrios',
+        'lapalma24://propiedad/{id_casa}{?idioma}',
+      ]);
+    });
+
+    it('lee la ficha de una propiedad como recurso', async () => {
+      const uri = 'lapalma24://propiedad/casa-103?idioma=de';
+      const { contents } = await harness.client.readResource({ uri });
+      assert.equal(contents[0].uri, uri);
+      assert.equal(contents[0].mimeType, 'application/json');
+      const body = JSON.parse((contents[0] as { text: string }).text);
+      assert.match(body.propiedad.descripcion, /Mandelbäumen/);
+    });
+
+    it('lee los barrios de un municipio como recurso', async () => {
+      const { contents } = await harness.client.readResource({
+        uri: 'lapalma24://municipios/Santa%20Cruz%20de%20La%20Palma/barrios',
+      });
+      const body = JSON.parse((contents[0] as { text: string }).text);
+      assert.deepEqual(body.barrios.map((b: any) => b.nombre), ['Centro', 'San Telmo']);
+    });
+
+    it('rechaza URIs de recurso desconocidas', async () => {
+      await assert.rejects(harness.client.readResource({ uri: 'lapalma24://reservas/1' }), /Recurso no encontrado/);
+    });
+
+    it('ofrece prompts de planificación en el idioma pedido', async () => {
+      const { prompts } = await harness.client.listPrompts();
+      assert.deepEqual(prompts.map(p => p.name), ['planificar_estancia', 'comparar_propiedades', 'casa_familiar_playa']);
+
+      const { messages } = await harness.client.getPrompt({
+        name: 'planificar_estancia',
+        arguments: { fecha_llegada: '2030-03-01', fecha_salida: '2030-03-08', num_personas: '4', presupuesto: '900', idioma: 'en' },
+      });
+      const text = (messages[0].content as { text: string }).text;
+      assert.match(text, /from 2030-03-01 to 2030-03-08 for 4 guests/);
+      assert.match(text, /buscar_disponibilidad/);
+      assert.match(text, /€900/);
+    });
+
+    it('rechaza prompts sin los argumentos obligatorios', async () => {
+      await assert.rejects(
+        harness.client.getPrompt({ name: 'comparar_propiedades', arguments: {} }),
+        /ids/
+      );
+    });
+  });
+}
+
+describe('API key del backend inválida', () => {
+  let harness: McpHarness;
+
+  before(async () => {
+    harness = await connect('stdio', testEnv(mock.url, { API_KEY: 'clave_revocada' }));
+  });
+
+  after(async () => {
+    await harness?.close();
+  });
+
+  it('devuelve el 401 del backend como error de herramienta', async () => {
+    const message = await toolError(harness, 'listar_municipios', {});
+    assert.match(message, /401/);
+  });
+});
+
+describe('backend sin endpoints opcionales', () => {
+  let harness: McpHarness;
+
+  before(async () => {
+    harness = await connect('stdio', testEnv(mock.url, { BACKEND_CAPABILITIES: '' }));
+  });
+
+  after(async () => {
+    await harness?.close();
+    mock.reset();
+  });
+
+  it('no anuncia ni ejecuta las herramientas de calendario y reservas', async () => {
+    const { tools } = await harness.client.listTools();
+    const names = tools.map(t => t.name);
+    assert.equal(names.includes('obtener_calendario'), false);
+    assert.equal(names.includes('solicitar_reserva'), false);
+    assert.equal(names.length, 8);
+
+    const message = await toolError(harness, 'obtener_calendario', { id_casa: 'casa-101', mes: daysFromToday(40).slice(0, 7) });
+    assert.match(message, /Herramienta desconocida: obtener_calendario/);
+    assert.ok(mock.requests.every(r => !r.path.startsWith('/api/calendario')));
+  });
+});
+
+for (const transport of ['sse', 'http'] as const) {
+  describe(`endpoint REST /tools/:toolName (${transport})`, () => {
+    let server: { baseUrl: string; stop(): Promise<void> };
+
+    before(async () => {
+      // RATE_LIMIT_KEYS ya no existe: una X-API-Key sin autenticar no puede dar un límite propio
+      server = await startHttpServer(transport, testEnv(mock.url, { RATE_LIMIT_ENABLED: 'true', RATE_LIMIT_MAX: '7', RATE_LIMIT_KEYS: 'clave-vip:1000' }));
+    });
+
+    after(async () => {
+      await server?.stop();
+    });
+
+    const post = (tool: string, body: unknown, headers: Record<string, string> = {}) =>
+      fetch(`${server.baseUrl}/tools/${tool}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      });
+
+    it('ejecuta la herramienta y devuelve la respuesta del backend', async () => {
+      const response = await post('listar_municipios', {});
+      assert.equal(response.status, 200);
+      assert.equal(response.headers.get('ratelimit-remaining'), '6');
+      const body: any = await response.json();
+      assert.equal(body.municipios.length, municipios.length);
+    });
+
+    it('devuelve 400 con los campos inválidos', async () => {
+      const response = await post('buscar_disponibilidad', { fecha_llegada: '2025-02-30' });
+      assert.equal(response.status, 400);
+      const body: any = await response.json();
+      assert.deepEqual(body.errors.map((e: any) => e.field).sort(), ['fecha_llegada', 'fecha_salida']);
+    });
+
+    it('devuelve 404 para herramientas desconocidas', async () => {
+      const response = await post('reservar_todo', {});
+      assert.equal(response.status, 404);
+    });
+
+    it('aplica el límite de peticiones según el peso de la herramienta', async () => {
+      const response = await post('buscar_disponibilidad', {
+        fecha_llegada: daysFromToday(60),
+        fecha_salida: daysFromToday(63),
+      });
+      assert.equal(response.status, 429);
+      assert.ok(Number(response.headers.get('retry-after')) > 0);
+    });
+
+    it('no cambia de cubo por enviar una X-API-Key sin autenticar', async () => {
+      const response = await post('listar_municipios', {}, { 'X-API-Key': 'clave-vip' });
+      assert.equal(response.status, 429);
+      assert.equal(response.headers.get('ratelimit-limit'), '7');
+    });
+  });
+}
+
+for (const transport of ['sse', 'http'] as const) {
+  describe(`backend no disponible en /tools/:toolName (${transport})`, () => {
+    let server: { baseUrl: string; stop(): Promise<void> };
+
+    before(async () => {
+      server = await startHttpServer(transport, testEnv(mock.url, { CIRCUIT_FAILURE_THRESHOLD: '3', CIRCUIT_RESET_SECONDS: '30' }));
+    });
+
+    after(async () => {
+      await server?.stop();
+    });
+
+    const post = (tool: string) =>
+      fetch(`${server.baseUrl}/tools/${tool}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' });
+
+    it('devuelve 500 sin el error interno y 503 con Retry-After con el circuito abierto', async () => {
+      // El intento inicial y los dos reintentos fallan y abren el circuito
+      mock.failNext('/api/municipios', 500, 3);
+      const failed = await post('listar_municipios');
+      assert.equal(failed.status, 500);
+      const failure: any = await failed.json();
+      assert.equal(failure.error, 'Error del backend (HTTP 500)');
+      assert.equal(failure.details, undefined);
+
+      const response = await post('listar_municipios');
+      const body: any = await response.json();
+      assert.equal(response.status, 503);
+      assert.ok(Number(response.headers.get('retry-after')) > 0);
+      assert.match(body.error, /no disponible/);
+      assert.equal(body.details, undefined);
+    });
+  });
+}
@@ -0,0 +1,137 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { daysFromToday } from './mock-api/fixtures.js';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { startHttpServer, testEnv } from './helpers.js';
+
+// Filtros de amenidades, tipo, baños y precio, y orden de los resultados
+
+let mock: MockApi;
+let tools: typeof import('../src/tools.js');
+let filters: typeof import('../src/filters.js');
+
+const ids = (result: any) => result.propiedades.map((p: any) => p.id_casa);
+
+before(async () => {
+  mock = await startMockApi();
+  Object.assign(process.env, testEnv(mock.url));
+  tools = await import('../src/tools.js');
+  filters = await import('../src/filters.js');
+});
+
+after(async () => {
+  await mock.close();
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+describe('filtros de búsqueda', () => {
+  it('reconoce las amenidades con otros nombres', () => {
+    const amenities = filters.canonicalAmenities(['Pool', 'Sea view', 'Wi-Fi', 'barbacoa']);
+    assert.deepEqual([...amenities].sort(), ['barbacoa', 'piscina', 'vista_mar', 'wifi']);
+  });
+
+  it('filtra el listado por amenidades en el servidor', async () => {
+    const result: any = await tools.callTool('listar_propiedades', { amenidades: ['piscina', 'vista_mar'] });
+
+    assert.deepEqual(ids(result), ['casa-105']);
+    assert.equal(result.total, 1);
+    assert.equal(mock.requests[0].query.amenidades, undefined);
+    assert.equal(mock.requests[0].query.limit, '100');
+  });
+
+  it('reenvía al backend los filtros que admite', async () => {
+    const result: any = await tools.callTool('listar_propiedades', { tipo: 'casa', limit: 10 });
+
+    assert.deepEqual(ids(result), ['casa-101', 'casa-104']);
+    assert.deepEqual(mock.requests[0].query, { tipo: 'casa', limit: '10' });
+  });
+
+  it('consulta las fichas cuando la disponibilidad no trae amenidades', async () => {
+    const result: any = await tools.callTool('buscar_disponibilidad', {
+      fecha_llegada: daysFromToday(60),
+      fecha_salida: daysFromToday(63),
+      amenidades: ['mascotas'],
+    });
+
+    assert.deepEqual(ids(result), ['casa-103']);
+    assert.equal(result.total, 1);
+    assert.equal(mock.requests.filter(r => r.path.startsWith('/api/propiedad/')).length, 5);
+  });
+
+  it('filtra por precio y baños y ordena', async () => {
+    const cheap: any = await tools.callTool('listar_propiedades', { precio_max: 100, ordenar_por: 'precio' });
+    assert.deepEqual(ids(cheap), ['casa-102', 'casa-105', 'casa-101']);
+
+    const roomy: any = await tools.callTool('listar_propiedades', { banos_min: 2, ordenar_por: 'capacidad' });
+    assert.deepEqual(ids(roomy), ['casa-103', 'casa-104']);
+
+    const expensive: any = await tools.callTool('buscar_disponibilidad', {
+      fecha_llegada: daysFromToday(60),
+      fecha_salida: daysFromToday(63),
+      precio_min: 90,
+      ordenar_por: 'precio_desc',
+    });
+    assert.deepEqual(ids(expensive), ['casa-103', 'casa-104', 'casa-101']);
+  });
+
+  it('rechaza rangos de precio invertidos y orden por distancia sin punto', async () => {
+    await assert.rejects(
+      tools.callTool('listar_propiedades', { precio_min: 100, precio_max: 50 }),
+      (error: any) => error.issues.some((i: any) => i.field === 'precio_max')
+    );
+    await assert.rejects(
+      tools.callTool('listar_propiedades', { ordenar_por: 'distancia' }),
+      (error: any) => error.issues.some((i: any) => i.field === 'ordenar_por')
+    );
+    assert.equal(mock.requests.length, 0);
+  });
+});
+
+describe('límite de fichas consultadas', () => {
+  let server: { baseUrl: string; stop(): Promise<void> };
+
+  before(async () => {
+    // Un fallo del backend basta para abrir el circuito
+    server = await startHttpServer('http', testEnv(mock.url, { DETAILS_LOOKUP_MAX: '2', CIRCUIT_FAILURE_THRESHOLD: '1' }));
+  });
+
+  after(async () => {
+    await server?.stop();
+  });
+
+  const search = () => fetch(`${server.baseUrl}/tools/buscar_disponibilidad`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fecha_llegada: daysFromToday(60), fecha_salida: daysFromToday(63), amenidades: ['mascotas'] }),
+  });
+
+  it('no consulta más de DETAILS_LOOKUP_MAX fichas y cuenta las propiedades sin comprobar', async () => {
+    const response = await search();
+    const result: any = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(mock.requests.filter(r => r.path.startsWith('/api/propiedad/')).length, 2);
+    assert.equal(result.sin_comprobar, 3);
+    assert.deepEqual(ids(result), []);
+  });
+
+  it('cuenta en sin_comprobar las fichas que el backend no devuelve', async () => {
+    mock.failNext('/api/propiedad/', 404);
+    const response = await search();
+    const result: any = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(result.sin_comprobar, 4);
+  });
+
+  it('devuelve 503 con Retry-After si el circuito se abre al consultar las fichas', async () => {
+    mock.failNext('/api/propiedad/', 500, 3);
+    const response = await search();
+
+    assert.equal(response.status, 503);
+    assert.ok(Number(response.headers.get('retry-after')) > 0);
+  });
+});
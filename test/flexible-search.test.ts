@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { daysFromToday } from './mock-api/fixtures.js';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { testEnv } from './helpers.js';
+
+// Búsqueda con fechas flexibles (buscar_fechas_flexibles) contra el mock del backend
+
+let mock: MockApi;
+let tools: typeof import('../src/tools.js');
+
+before(async () => {
+  mock = await startMockApi();
+  Object.assign(process.env, testEnv(mock.url, {
+    FLEX_SEARCH_MAX_QUERIES: '8',
+    FLEX_SEARCH_CONCURRENCY: '2',
+  }));
+  tools = await import('../src/tools.js');
+});
+
+after(async () => {
+  await mock.close();
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+describe('buscar_fechas_flexibles', () => {
+  it('solo propone fechas libres de la propiedad', async () => {
+    const result: any = await tools.callTool('buscar_fechas_flexibles', {
+      fecha_desde: daysFromToday(8),
+      fecha_hasta: daysFromToday(20),
+      noches: 3,
+      num_personas: 4,
+      municipio: 'Los Llanos de Aridane',
+    });
+
+    // casa-101 está ocupada del día 10 al 17: solo cabe llegar el día 17
+    assert.deepEqual(
+      result.resultados.map((r: any) => [r.id_casa, r.fecha_llegada, r.fecha_salida]),
+      [['casa-101', daysFromToday(17), daysFromToday(20)]]
+    );
+  });
+
+  it('ordena por precio total con el descuento semanal', async () => {
+    const result: any = await tools.callTool('buscar_fechas_flexibles', {
+      fecha_desde: daysFromToday(60),
+      fecha_hasta: daysFromToday(68),
+      noches_min: 6,
+      noches_max: 7,
+      max_resultados: 5,
+    });
+
+    const prices = result.resultados.map((r: any) => r.precio_total);
+    assert.deepEqual(prices, [...prices].sort((a, b) => a - b));
+    // casa-102: 6 noches a 70 € + 30 de limpieza
+    assert.equal(result.resultados[0].id_casa, 'casa-102');
+    assert.equal(result.resultados[0].precio_total, 450);
+    assert.equal(result.resultados.length, 5);
+  });
+
+  it('acota las consultas de disponibilidad en ventanas grandes', async () => {
+    const result: any = await tools.callTool('buscar_fechas_flexibles', {
+      fecha_desde: daysFromToday(30),
+      fecha_hasta: daysFromToday(90),
+      noches: 7,
+    });
+
+    assert.equal(result.combinaciones_posibles, 54);
+    assert.equal(result.combinaciones_consultadas, 8);
+    assert.equal(mock.requests.filter(r => r.path === '/api/disponibilidad').length, 8);
+  });
+
+  it('rechaza noches y rango a la vez o ventanas más cortas que la estancia', async () => {
+    await assert.rejects(
+      tools.callTool('buscar_fechas_flexibles', {
+        fecha_desde: daysFromToday(30),
+        fecha_hasta: daysFromToday(33),
+        noches: 7,
+        noches_min: 5,
+      }),
+      (error: any) => error.issues.some((i: any) => i.field === 'noches')
+    );
+    await assert.rejects(
+      tools.callTool('buscar_fechas_flexibles', {
+        fecha_desde: daysFromToday(30),
+        fecha_hasta: daysFromToday(33),
+        noches: 7,
+      }),
+      (error: any) => error.issues.some((i: any) => i.field === 'fecha_hasta')
+    );
+    assert.equal(mock.requests.length, 0);
+  });
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { daysFromToday } from './mock-api/fixtures.js';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { testEnv } from './helpers.js';
+
+// Búsqueda por proximidad (cerca_de, latitud/longitud y radio_km) contra el mock del backend
+
+let mock: MockApi;
+let tools: typeof import('../src/tools.js');
+let geo: typeof import('../src/geo.js');
+
+before(async () => {
+  mock = await startMockApi();
+  Object.assign(process.env, testEnv(mock.url));
+  tools = await import('../src/tools.js');
+  geo = await import('../src/geo.js');
+});
+
+after(async () => {
+  await mock.close();
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+describe('búsqueda por proximidad', () => {
+  it('calcula distancias en línea recta', () => {
+    // Santa Cruz de La Palma → Los Llanos de Aridane: unos 15 km
+    const distance = geo.distanceKm(28.6835, -17.7642, 28.6585, -17.9182);
+    assert.ok(distance > 14 && distance < 17, `distancia ${distance}`);
+    assert.equal(geo.distanceKm(28.6, -17.8, 28.6, -17.8), 0);
+  });
+
+  it('filtra la disponibilidad por un lugar conocido sin enviarlo al backend', async () => {
+    const result: any = await tools.callTool('buscar_disponibilidad', {
+      fecha_llegada: daysFromToday(60),
+      fecha_salida: daysFromToday(63),
+      cerca_de: 'playa de puerto naos',
+      radio_km: 5,
+    });
+
+    assert.deepEqual(result.propiedades.map((p: any) => p.id_casa), ['casa-101']);
+    assert.ok(result.propiedades[0].distancia_km < 1);
+    assert.equal(result.referencia.nombre, 'Playa de Puerto Naos');
+    assert.equal(result.total, 1);
+    assert.deepEqual(Object.keys(mock.requests[0].body).sort(), ['fecha_llegada', 'fecha_salida']);
+  });
+
+  it('ordena el listado por distancia y pagina después de filtrar', async () => {
+    const all: any = await tools.callTool('listar_propiedades', { cerca_de: 'Aeropuerto', radio_km: 10 });
+    assert.deepEqual(all.propiedades.map((p: any) => p.id_casa), ['casa-105', 'casa-102']);
+    const distances = all.propiedades.map((p: any) => p.distancia_km);
+    assert.deepEqual(distances, [...distances].sort((a, b) => a - b));
+    assert.equal(mock.requests[0].query.limit, '100');
+
+    const page: any = await tools.callTool('listar_propiedades', { cerca_de: 'Aeropuerto', radio_km: 10, limit: 1, offset: 1 });
+    assert.deepEqual(page.propiedades.map((p: any) => p.id_casa), ['casa-102']);
+    assert.equal(page.total, 2);
+  });
+
+  it('acepta coordenadas y sin radio solo ordena', async () => {
+    // Junto a la casa-104 (Puerto de Tazacorte)
+    const result: any = await tools.callTool('listar_propiedades', { latitud: 28.6472, longitud: -17.9444 });
+
+    assert.equal(result.propiedades.length, 5);
+    assert.equal(result.propiedades[0].id_casa, 'casa-104');
+    assert.equal(result.propiedades[0].distancia_km, 0);
+    assert.equal(result.referencia.nombre, undefined);
+  });
+
+  it('añade la distancia a las fechas flexibles', async () => {
+    const result: any = await tools.callTool('buscar_fechas_flexibles', {
+      fecha_desde: daysFromToday(60),
+      fecha_hasta: daysFromToday(64),
+      noches: 3,
+      cerca_de: 'Los Cancajos',
+      radio_km: 3,
+    });
+
+    assert.ok(result.resultados.length > 0);
+    assert.ok(result.resultados.every((r: any) => r.id_casa === 'casa-105' && r.distancia_km < 3));
+  });
+
+  it('rechaza puntos de referencia incompletos o desconocidos', async () => {
+    const issues = async (args: Record<string, unknown>) => {
+      try {
+        await tools.callTool('listar_propiedades', args);
+      } catch (error: any) {
+        return error.issues;
+      }
+      return [];
+    };
+
+    const [unknown] = await issues({ cerca_de: 'Playa Nogal' });
+    assert.equal(unknown.field, 'cerca_de');
+    assert.match(unknown.message, /Playa de Nogales/);
+    assert.equal((await issues({ latitud: 28.6 }))[0].field, 'longitud');
+    assert.equal((await issues({ radio_km: 5 }))[0].field, 'radio_km');
+    assert.equal((await issues({ cerca_de: 'Aeropuerto', latitud: 28.6, longitud: -17.8 }))[0].field, 'cerca_de');
+    assert.equal(mock.requests.length, 0);
+  });
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import { after, afterEach, before, describe, it } from 'node:test';
+import express from 'express';
+import { startMockApi, MockApi } from './mock-api/server.js';
+import { freePort, testEnv } from './helpers.js';
+
+// Liveness y readiness: comprobación del backend con timeout corto y resultado compartido
+
+let mock: MockApi;
+let health: typeof import('../src/health.js');
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  mock = await startMockApi();
+  // Sin reutilizar resultados entre pruebas, para que cada una consulte el backend
+  Object.assign(process.env, testEnv(mock.url, { READINESS_TIMEOUT_MS: '200', READINESS_CACHE_SECONDS: '0' }));
+  health = await import('../src/health.js');
+
+  const app = express();
+  app.use('/health', health.createHealthRouter());
+  const port = await freePort();
+  server = app.listen(port, '127.0.0.1');
+  baseUrl = `http://127.0.0.1:${port}`;
+});
+
+after(async () => {
+  server?.close();
+  await mock.close();
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+describe('liveness', () => {
+  it('responde sin consultar el backend', async () => {
+    const response = await fetch(`${baseUrl}/health/live`);
+    const body: any = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.status, 'ok');
+    assert.equal(typeof body.uptimeSeconds, 'number');
+    assert.equal(mock.requests.length, 0);
+  });
+});
+
+describe('readiness', () => {
+  it('está preparado si el backend responde con la clave configurada', async () => {
+    const response = await fetch(`${baseUrl}/health/ready`);
+    const body: any = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.status, 'ready');
+    assert.equal(body.version, '1.0.0');
+    assert.equal(body.backend.reachable, true);
+    assert.equal(body.backend.status, 200);
+    assert.equal(body.backend.apiKeyValid, true);
+    assert.equal(typeof body.backend.latencyMs, 'number');
+    assert.equal(body.circuit.state, 'closed');
+    assert.equal(mock.requests[0].path, '/api/municipios');
+  });
+
+  it('devuelve 503 si el backend rechaza la clave', async () => {
+    mock.failNext('/api/municipios', 401);
+    const response = await fetch(`${baseUrl}/health/ready`);
+    const body: any = await response.json();
+
+    assert.equal(response.status, 503);
+    assert.equal(body.status, 'not_ready');
+    assert.equal(body.backend.reachable, true);
+    assert.equal(body.backend.apiKeyValid, false);
+  });
+
+  it('devuelve 503 si el backend falla, sin reintentar', async () => {
+    mock.failNext('/api/municipios', 503, 3);
+    const result = await health.readiness();
+
+    assert.equal(result.status, 'not_ready');
+    assert.equal(result.backend.status, 503);
+    assert.equal(result.backend.apiKeyValid, null);
+    assert.equal(mock.requests.length, 1);
+  });
+
+  it('no espera más que READINESS_TIMEOUT_MS', async () => {
+    mock.delayNext('/api/municipios', 1_000);
+    const result = await health.readiness();
+
+    assert.equal(result.status, 'not_ready');
+    assert.equal(result.backend.reachable, false);
+    assert.match(result.backend.error ?? '', /timeout tras 200ms/);
+    assert.ok(result.backend.latencyMs < 1_000);
+  });
+
+  it('comparte la comprobación entre peticiones simultáneas', async () => {
+    const results = await Promise.all([health.checkBackend(), health.checkBackend(), health.checkBackend()]);
+
+    assert.equal(mock.requests.length, 1);
+    assert.equal(results[0], results[2]);
+  });
+});
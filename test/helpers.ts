@@ -0,0 +1,153 @@
+import { ChildProcess, spawn } from 'child_process';
+import { createServer } from 'net';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { CallToolResult, CompatibilityCallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { MOCK_API_KEY } from './mock-api/fixtures.js';
+
+// Utilidades para arrancar el servidor MCP compilado (dist/) en cada transporte
+
+export type TransportName = 'stdio' | 'sse' | 'http';
+
+export const TRANSPORTS: TransportName[] = ['stdio', 'sse', 'http'];
+
+const DIST = resolve(dirname(fileURLToPath(import.meta.url)), '../dist');
+
+export interface McpHarness {
+  client: Client;
+  // URL base del servidor HTTP/SSE (no definida en stdio)
+  baseUrl?: string;
+  close(): Promise<void>;
+}
+
+export async function freePort(): Promise<number> {
+  return new Promise((resolvePort, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address();
+      const port = typeof address === 'object' && address ? address.port : 0;
+      server.close(() => resolvePort(port));
+    });
+  });
+}
+
+// Entorno de pruebas: backend mock (con calendario y reservas), sin caché ni límite de peticiones, con reintentos
+// rápidos y solo logs de error
+export function testEnv(apiBaseUrl: string, overrides: Record<string, string> = {}): Record<string, string> {
+  return {
+    ...(process.env as Record<string, string>),
+    API_BASE_URL: apiBaseUrl,
+    API_KEY: MOCK_API_KEY,
+    BACKEND_CAPABILITIES: 'calendario,reservas',
+    CACHE_ENABLED: 'false',
+    RATE_LIMIT_ENABLED: 'false',
+    API_RETRY_BASE_MS: '10',
+    API_RETRY_MAX_MS: '200',
+    LOG_LEVEL: 'error',
+    ...overrides,
+  };
+}
+
+async function waitForHealth(baseUrl: string, child: ChildProcess, timeoutMs = 10_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`El servidor terminó con código ${child.exitCode}`);
+    }
+    try {
+      const response = await fetch(`${baseUrl}/health`);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Todavía no escucha
+    }
+    await new Promise(r => setTimeout(r, 100));
+  }
+  throw new Error(`El servidor no respondió en ${baseUrl}`);
+}
+
+// Arranca dist/index.js (sse) o dist/index-http.js (http) como proceso hijo
+export async function startHttpServer(
+  transport: 'sse' | 'http',
+  env: Record<string, string>
+): Promise<{ baseUrl: string; stop(): Promise<void> }> {
+  const port = await freePort();
+  const args = transport === 'sse' ? [resolve(DIST, 'index.js'), 'sse'] : [resolve(DIST, 'index-http.js')];
+  const child = spawn(process.execPath, args, {
+    env: { ...env, PORT: String(port) },
+    stdio: 'ignore',
+  });
+  const baseUrl = `http://127.0.0.1:${port}`;
+
+  const stop = () =>
+    new Promise<void>(resolveStop => {
+      if (child.exitCode !== null) {
+        return resolveStop();
+      }
+      child.once('exit', () => resolveStop());
+      child.kill();
+    });
+
+  try {
+    await waitForHealth(baseUrl, child);
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  return { baseUrl, stop };
+}
+
+// Conecta un cliente MCP del SDK al servidor en el transporte indicado (o uno propio, ej. con elicitation)
+export async function connect(
+  transport: TransportName,
+  env: Record<string, string>,
+  client = new Client({ name: 'lapalma24-e2e', version: '1.0.0' })
+): Promise<McpHarness> {
+  if (transport === 'stdio') {
+    await client.connect(
+      new StdioClientTransport({
+        command: process.execPath,
+        args: [resolve(DIST, 'index.js')],
+        env,
+        stderr: 'ignore',
+      })
+    );
+    return { client, close: () => client.close() };
+  }
+
+  const server = await startHttpServer(transport, env);
+  try {
+    await client.connect(
+      transport === 'sse'
+        ? new SSEClientTransport(new URL(`${server.baseUrl}/sse`))
+        : new StreamableHTTPClientTransport(new URL(`${server.baseUrl}/`))
+    );
+  } catch (error) {
+    await server.stop();
+    throw error;
+  }
+
+  return {
+    client,
+    baseUrl: server.baseUrl,
+    close: async () => {
+      await client.close();
+      await server.stop();
+    },
+  };
+}
+
+// Devuelve el JSON del primer bloque de texto de un resultado de herramienta. Client.callTool
+// también tipa la forma anterior del protocolo (toolResult, sin bloques), que este servidor no usa.
+export function parseToolText(result: CallToolResult | CompatibilityCallToolResult): any {
+  const content: CallToolResult['content'] = 'toolResult' in result ? [] : result.content;
+  const block = content.find(c => c.type === 'text');
+  return block?.type === 'text' ? JSON.parse(block.text) : undefined;
+}
@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { daysFromToday } from './mock-api/fixtures.js';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { startHttpServer, testEnv } from './helpers.js';
+import { messages } from '../src/messages.js';
+
+// Catálogo de mensajes es/en/de: traducciones completas, negociación del idioma y textos localizados
+
+let mock: MockApi;
+let i18n: typeof import('../src/i18n.js');
+let tools: typeof import('../src/tools.js');
+let prompts: typeof import('../src/prompts.js');
+
+before(async () => {
+  mock = await startMockApi();
+  Object.assign(process.env, testEnv(mock.url));
+  i18n = await import('../src/i18n.js');
+  tools = await import('../src/tools.js');
+  prompts = await import('../src/prompts.js');
+});
+
+after(async () => {
+  await mock.close();
+});
+
+describe('catálogo de mensajes', () => {
+  it('no le falta ninguna clave en ningún idioma', () => {
+    for (const language of i18n.LANGUAGES) {
+      const missing = [
+        ...i18n.missingMessages(language),
+        ...tools.missingToolMessages(language),
+        ...prompts.missingPromptMessages(language),
+      ];
+      assert.deepEqual(missing, [], `faltan claves en ${language}`);
+    }
+  });
+
+  it('elige el idioma de Accept-Language por orden de preferencia', () => {
+    assert.equal(i18n.negotiateLanguage('de-DE,de;q=0.9,en;q=0.8'), 'de');
+    assert.equal(i18n.negotiateLanguage('fr-FR, en;q=0.5, de;q=0.7'), 'de');
+    assert.equal(i18n.negotiateLanguage('en-GB;q=0, es;q=0.3'), 'es');
+    assert.equal(i18n.negotiateLanguage('fr, it'), i18n.DEFAULT_LANGUAGE);
+    assert.equal(i18n.negotiateLanguage(undefined, 'en'), 'en');
+    assert.equal(i18n.requestLanguage({ idioma: 'en' }, 'de'), 'en');
+    assert.equal(i18n.requestLanguage({ idioma: 'fr' }, 'de'), 'de');
+  });
+
+  it('traduce descripciones de herramientas y parámetros sin cambiar los esquemas', () => {
+    const [spanish, german] = [tools.localizedTools('es'), tools.localizedTools('de')];
+    const strip = (list: any[]) => JSON.parse(JSON.stringify(list, (key, value) => (key === 'description' ? undefined : value)));
+
+    assert.deepEqual(strip(german), strip(spanish));
+    const list = german.find(t => t.name === 'listar_propiedades') as any;
+    assert.match(list.description, /Ferienunterkünfte/);
+    assert.equal(list.inputSchema.properties.max_resultados.description.includes('Maximum: 200'), true);
+    assert.equal(spanish, tools.tools);
+  });
+
+  it('da los errores en el idioma pedido', async () => {
+    const unknown = await tools.executeTool('reservar_todo', {}, { language: 'de' });
+    assert.match((unknown.content[0] as any).text, /Unbekanntes Werkzeug: reservar_todo/);
+
+    const invalid = await tools.executeTool('calcular_precio_estancia', { id_casa: 'casa-101', idioma: 'en' }, { language: 'de' });
+    assert.equal(JSON.parse((invalid.content[0] as any).text).error, 'Invalid arguments');
+
+    const missing = await tools.executeTool('obtener_detalles_propiedad', { id_casa: 'casa-999' }, { language: 'de' });
+    assert.equal(JSON.parse((missing.content[0] as any).text).error, 'Im Backend nicht gefunden');
+
+    assert.throws(() => prompts.getPrompt('no_existe', {}, 'en'), /Unknown prompt: no_existe/);
+    assert.throws(() => prompts.getPrompt('planificar_estancia', { idioma: 'de' }), /Fehlende Pflichtargumente/);
+
+    // Sin idioma, el prompt se escribe en el idioma de la sesión
+    const prompt = prompts.getPrompt('comparar_propiedades', { ids: 'casa-101,casa-102' }, 'de');
+    assert.match((prompt.messages[0].content as any).text, /^Vergleiche diese Unterkünfte/);
+  });
+
+  it('da los problemas de cada campo y los textos de reserva en el idioma pedido', async () => {
+    const keys = Object.keys(messages.es).filter(key => key.startsWith('issue.') || key.startsWith('booking.'));
+    assert.ok(keys.length > 0);
+    for (const language of i18n.LANGUAGES) {
+      assert.deepEqual(keys.filter(key => !i18n.hasMessage(language, key)), [], `faltan problemas en ${language}`);
+    }
+
+    const issues = async (name: string, args: Record<string, unknown>, language: 'es' | 'en' | 'de') => {
+      const result = await tools.executeTool(name, args, { language });
+      return JSON.parse((result.content[0] as any).text).errors;
+    };
+
+    assert.deepEqual(await issues('calcular_precio_estancia', { id_casa: 'casa-101' }, 'de'), [
+      { field: 'fecha_llegada', message: 'ist erforderlich' },
+      { field: 'fecha_salida', message: 'ist erforderlich' },
+    ]);
+    assert.deepEqual(await issues('listar_propiedades', { cursor: 'abc', offset: 10 }, 'en'), [
+      { field: 'cursor', message: 'use cursor or offset, not both' },
+    ]);
+    // El argumento idioma manda sobre el idioma de la sesión
+    assert.deepEqual(await issues('listar_propiedades', { cursor: 'abc', offset: 10, idioma: 'de' }, 'en'), [
+      { field: 'cursor', message: 'verwende cursor oder offset, nicht beides' },
+    ]);
+    const [location] = await issues('listar_propiedades', { municipio: 'El Pasito' }, 'en');
+    assert.match(location.message, /^unknown municipio: El Pasito\. Did you mean El Paso/);
+    const [place] = await issues('listar_propiedades', { cerca_de: 'Atlántida' }, 'de');
+    assert.match(place.message, /^unbekannter Ort: Atlántida\./);
+
+    const booking = await tools.executeTool('solicitar_reserva', {
+      id_casa: 'casa-102',
+      fecha_llegada: daysFromToday(40),
+      fecha_salida: daysFromToday(43),
+      nombre: 'Ana Pérez',
+      email: 'ana@example.com',
+    }, { language: 'en' });
+    assert.match((booking.structuredContent as any).mensaje, /^Show the quote to the user/);
+  });
+});
+
+describe('idioma del cliente HTTP', () => {
+  let server: { baseUrl: string; stop(): Promise<void> };
+
+  before(async () => {
+    server = await startHttpServer('http', testEnv(mock.url));
+  });
+
+  after(async () => {
+    await server?.stop();
+  });
+
+  it('anuncia herramientas y prompts según Accept-Language', async () => {
+    const client = new Client({ name: 'lapalma24-e2e', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${server.baseUrl}/`), {
+      requestInit: { headers: { 'Accept-Language': 'en-US,en;q=0.9' } },
+    }));
+
+    try {
+      const { tools: listed } = await client.listTools();
+      assert.match(listed.find(t => t.name === 'listar_municipios')!.description!, /^Get the complete list of municipalities/);
+      const { prompts: listedPrompts } = await client.listPrompts();
+      assert.equal(listedPrompts.find(p => p.name === 'planificar_estancia')!.title, 'Plan a stay in La Palma');
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('responde en el idioma de Accept-Language en la API REST', async () => {
+    const response = await fetch(`${server.baseUrl}/tools/reservar_todo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept-Language': 'de' },
+      body: '{}',
+    });
+    assert.equal(response.status, 404);
+    assert.equal((await response.json() as any).error, 'Werkzeug nicht gefunden: reservar_todo');
+  });
+});
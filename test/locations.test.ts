@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { daysFromToday } from './mock-api/fixtures.js';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { testEnv } from './helpers.js';
+
+// Resolución de nombres de municipio y barrio contra las listas del backend
+
+let mock: MockApi;
+let tools: typeof import('../src/tools.js');
+
+const ids = (result: any) => result.propiedades.map((p: any) => p.id_casa);
+
+async function issues(name: string, args: Record<string, unknown>): Promise<any[]> {
+  try {
+    await tools.callTool(name, args);
+  } catch (error: any) {
+    return error.issues;
+  }
+  assert.fail('se esperaba un error de validación');
+}
+
+before(async () => {
+  mock = await startMockApi();
+  Object.assign(process.env, testEnv(mock.url));
+  tools = await import('../src/tools.js');
+});
+
+after(async () => {
+  await mock.close();
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+describe('municipio y barrio', () => {
+  it('resuelve nombres incompletos, sin tildes o con erratas', async () => {
+    const cases: [Record<string, string>, Record<string, string>][] = [
+      [{ municipio: 'los llanos' }, { municipio: 'Los Llanos de Aridane' }],
+      [{ municipio: 'Santa Cruz' }, { municipio: 'Santa Cruz de La Palma' }],
+      [{ municipio: 'BRENA BAJA' }, { municipio: 'Breña Baja' }],
+      [{ municipio: 'Tazacortte' }, { municipio: 'Tazacorte' }],
+      [{ municipio: 'San José' }, { municipio: 'Breña Baja' }],
+      [{ barrio: 'Tazacorte puerto' }, { barrio: 'Puerto de Tazacorte' }],
+      [{ municipio: 'el paso', barrio: 'charco' }, { municipio: 'El Paso', barrio: 'El Charco' }],
+    ];
+
+    for (const [args, expected] of cases) {
+      const result: any = await tools.callTool('listar_propiedades', args);
+      assert.deepEqual(result.ubicacion, expected, JSON.stringify(args));
+      assert.equal(result.total, 1, JSON.stringify(args));
+    }
+  });
+
+  it('envía al backend el nombre canónico', async () => {
+    const result: any = await tools.callTool('buscar_disponibilidad', {
+      fecha_llegada: daysFromToday(60),
+      fecha_salida: daysFromToday(64),
+      municipio: 'llanos de aridane',
+      barrio: 'puerto naos',
+    });
+
+    assert.deepEqual(ids(result), ['casa-101']);
+    const request = mock.requests.find(r => r.path === '/api/disponibilidad');
+    assert.equal(request?.body.municipio, 'Los Llanos de Aridane');
+    assert.equal(request?.body.barrio, 'Puerto Naos');
+  });
+
+  it('busca el barrio solo en el municipio indicado', async () => {
+    const result: any = await tools.callTool('listar_barrios', { municipio: 'santa cruz' });
+    assert.deepEqual(result.barrios.map((b: any) => b.nombre), ['Centro', 'San Telmo']);
+    assert.deepEqual(result.ubicacion, { municipio: 'Santa Cruz de La Palma' });
+
+    const [issue] = await issues('listar_propiedades', { municipio: 'Santa Cruz', barrio: 'Puerto Naos' });
+    assert.equal(issue.field, 'barrio');
+  });
+
+  it('sugiere nombres cuando el nombre es ambiguo o desconocido', async () => {
+    const [ambiguous] = await issues('listar_propiedades', { barrio: 'Puerto' });
+    assert.equal(ambiguous.field, 'barrio');
+    assert.match(ambiguous.message, /ambiguo/);
+    assert.match(ambiguous.message, /Puerto Naos \(Los Llanos de Aridane\)/);
+    assert.match(ambiguous.message, /Puerto de Tazacorte \(Tazacorte\)/);
+
+    const [unknown] = await issues('listar_propiedades', { municipio: 'El Pasito' });
+    assert.match(unknown.message, /desconocido: El Pasito\. ¿Quizás El Paso/);
+
+    const [none] = await issues('listar_propiedades', { municipio: 'Barcelona' });
+    assert.match(none.message, /listar_municipios/);
+
+    assert.ok(mock.requests.every(r => r.path !== '/api/propiedades'));
+  });
+
+  it('usa el nombre tal cual si el backend no devuelve las listas', async () => {
+    mock.failNext('/api/municipios', 400);
+    const result: any = await tools.callTool('listar_propiedades', { municipio: 'Tazacorte' });
+
+    assert.deepEqual(ids(result), ['casa-104']);
+    assert.equal(result.ubicacion, undefined);
+  });
+});
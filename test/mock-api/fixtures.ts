@@ -0,0 +1,175 @@
+// Datos semilla del mock de la API de administración de La Palma 24
+
+export const MOCK_API_KEY = 'test_key_mock';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fecha YYYY-MM-DD relativa a hoy, para que los datos nunca caduquen
+export function daysFromToday(days: number): string {
+  const now = new Date();
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return new Date(today + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export interface FixtureProperty {
+  id_casa: string;
+  nombre: string;
+  municipio: string;
+  barrio: string;
+  tipo: string;
+  personas_max: number;
+  dormitorios: number;
+  banos: number;
+  latitud: number;
+  longitud: number;
+  precio_noche: number;
+  limpieza: number;
+  // Fianza reembolsable que el backend añade al presupuesto
+  fianza?: number;
+  amenidades: string[];
+  descripcion: Record<'es' | 'en' | 'de', string>;
+  // Rangos ocupados [llegada, salida) en formato YYYY-MM-DD
+  ocupado: [string, string][];
+  // Reglas del calendario: estancia mínima y días de la semana (0 = domingo) de llegada y salida
+  estancia_minima?: number;
+  dias_cambio?: number[];
+}
+
+export const municipios = [
+  'Santa Cruz de La Palma',
+  'Los Llanos de Aridane',
+  'Tazacorte',
+  'El Paso',
+  'Breña Baja',
+];
+
+export const barrios: { nombre: string; municipio: string }[] = [
+  { nombre: 'Centro', municipio: 'Santa Cruz de La Palma' },
+  { nombre: 'San Telmo', municipio: 'Santa Cruz de La Palma' },
+  { nombre: 'Puerto Naos', municipio: 'Los Llanos de Aridane' },
+  { nombre: 'Todoque', municipio: 'Los Llanos de Aridane' },
+  { nombre: 'Puerto de Tazacorte', municipio: 'Tazacorte' },
+  { nombre: 'El Charco', municipio: 'El Paso' },
+  { nombre: 'Los Cancajos', municipio: 'Breña Baja' },
+];
+
+export const properties: FixtureProperty[] = [
+  {
+    id_casa: 'casa-101',
+    nombre: 'Casa Las Olas',
+    municipio: 'Los Llanos de Aridane',
+    barrio: 'Puerto Naos',
+    tipo: 'casa',
+    personas_max: 4,
+    dormitorios: 2,
+    banos: 1,
+    latitud: 28.5853,
+    longitud: -17.9114,
+    precio_noche: 95,
+    limpieza: 40,
+    amenidades: ['wifi', 'vista_mar', 'terraza', 'parking'],
+    descripcion: {
+      es: 'Casa junto a la playa de Puerto Naos con vistas al mar.',
+      en: 'House next to Puerto Naos beach with sea views.',
+      de: 'Haus am Strand von Puerto Naos mit Meerblick.',
+    },
+    ocupado: [[daysFromToday(10), daysFromToday(17)]],
+  },
+  {
+    id_casa: 'casa-102',
+    nombre: 'Apartamento Avenida Marítima',
+    municipio: 'Santa Cruz de La Palma',
+    barrio: 'Centro',
+    tipo: 'apartamento',
+    personas_max: 2,
+    dormitorios: 1,
+    banos: 1,
+    latitud: 28.6835,
+    longitud: -17.7642,
+    precio_noche: 70,
+    limpieza: 30,
+    amenidades: ['wifi', 'aire_acondicionado', 'ascensor'],
+    descripcion: {
+      es: 'Apartamento en la Avenida Marítima, en pleno centro histórico.',
+      en: 'Apartment on the Avenida Marítima, in the heart of the old town.',
+      de: 'Wohnung an der Avenida Marítima, mitten in der Altstadt.',
+    },
+    ocupado: [],
+  },
+  {
+    id_casa: 'casa-103',
+    nombre: 'Finca El Charco',
+    municipio: 'El Paso',
+    barrio: 'El Charco',
+    tipo: 'finca',
+    personas_max: 6,
+    dormitorios: 3,
+    banos: 2,
+    latitud: 28.6511,
+    longitud: -17.8826,
+    precio_noche: 140,
+    limpieza: 60,
+    fianza: 300,
+    estancia_minima: 3,
+    amenidades: ['wifi', 'piscina', 'mascotas', 'parking', 'barbacoa'],
+    descripcion: {
+      es: 'Finca rural con piscina y jardín rodeada de almendros.',
+      en: 'Country estate with pool and garden surrounded by almond trees.',
+      de: 'Landgut mit Pool und Garten, umgeben von Mandelbäumen.',
+    },
+    ocupado: [[daysFromToday(30), daysFromToday(44)]],
+  },
+  {
+    id_casa: 'casa-104',
+    nombre: 'Casa Puerto de Tazacorte',
+    municipio: 'Tazacorte',
+    barrio: 'Puerto de Tazacorte',
+    tipo: 'casa',
+    personas_max: 5,
+    dormitorios: 2,
+    banos: 2,
+    latitud: 28.6472,
+    longitud: -17.9444,
+    precio_noche: 110,
+    limpieza: 45,
+    dias_cambio: [6],
+    amenidades: ['wifi', 'vista_mar', 'accesible', 'aire_acondicionado'],
+    descripcion: {
+      es: 'Casa adaptada a pocos pasos de la playa del Puerto de Tazacorte.',
+      en: 'Accessible house a few steps from Puerto de Tazacorte beach.',
+      de: 'Barrierefreies Haus wenige Schritte vom Strand in Puerto de Tazacorte.',
+    },
+    ocupado: [],
+  },
+  {
+    id_casa: 'casa-105',
+    nombre: 'Bungalow Los Cancajos',
+    municipio: 'Breña Baja',
+    barrio: 'Los Cancajos',
+    tipo: 'bungalow',
+    personas_max: 3,
+    dormitorios: 1,
+    banos: 1,
+    latitud: 28.6484,
+    longitud: -17.7612,
+    precio_noche: 80,
+    limpieza: 35,
+    amenidades: ['wifi', 'piscina', 'vista_mar'],
+    descripcion: {
+      es: 'Bungalow en complejo con piscina junto a la playa de Los Cancajos.',
+      en: 'Bungalow in a complex with pool next to Los Cancajos beach.',
+      de: 'Bungalow in einer Anlage mit Pool am Strand von Los Cancajos.',
+    },
+    ocupado: [],
+  },
+];
+
+// IDs que fuerzan respuestas de error en el mock
+export const ERROR_PROPERTY_IDS: Record<string, number> = {
+  'casa-429': 429,
+  'casa-500': 500,
+  'casa-503': 503,
+};
+
+// Propiedad cuya ficha llega con un formato distinto al esperado (campos renombrados y tipos cambiados)
+export const MALFORMED_PROPERTY_ID = 'casa-drift';
@@ -0,0 +1,356 @@
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { pathToFileURL } from 'url';
+import {
+  barrios,
+  ERROR_PROPERTY_IDS,
+  FixtureProperty,
+  MALFORMED_PROPERTY_ID,
+  MOCK_API_KEY,
+  municipios,
+  properties,
+} from './fixtures.js';
+
+// Mock local de la API de administración de La Palma 24 (admin.la-palma24.net)
+
+const PUBLIC_URL = 'https://www.la-palma24.net';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, any>;
+  body: any;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+export interface MockApi {
+  url: string;
+  requests: RecordedRequest[];
+  // Fuerza `status` en las próximas `times` peticiones cuya ruta empiece por `pathPrefix`
+  failNext(pathPrefix: string, status: number, times?: number): void;
+  // Retrasa `delayMs` las próximas `times` respuestas cuya ruta empiece por `pathPrefix`
+  delayNext(pathPrefix: string, delayMs: number, times?: number): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+interface Failure {
+  pathPrefix: string;
+  status?: number;
+  delayMs?: number;
+  remaining: number;
+}
+
+function nights(arrival: string, departure: string): number {
+  return Math.round((Date.parse(departure) - Date.parse(arrival)) / DAY_MS);
+}
+
+function isFree(property: FixtureProperty, arrival: string, departure: string): boolean {
+  return property.ocupado.every(([from, to]) => departure <= from || arrival >= to);
+}
+
+function sameText(a: unknown, b: string): boolean {
+  return typeof a === 'string' && a.toLowerCase() === b.toLowerCase();
+}
+
+function propertyUrl(property: FixtureProperty): string {
+  return `${PUBLIC_URL}/casa/${property.id_casa}`;
+}
+
+function summary(property: FixtureProperty) {
+  return {
+    id_casa: property.id_casa,
+    nombre: property.nombre,
+    municipio: property.municipio,
+    barrio: property.barrio,
+    tipo: property.tipo,
+    personas_max: property.personas_max,
+    dormitorios: property.dormitorios,
+    banos: property.banos,
+    precio_noche: property.precio_noche,
+    url: propertyUrl(property),
+    latitud: property.latitud,
+    longitud: property.longitud,
+    amenidades: property.amenidades,
+  };
+}
+
+function quote(property: FixtureProperty, arrival: string, departure: string, guests: number) {
+  const count = nights(arrival, departure);
+  const subtotal = count * property.precio_noche;
+  const descuento = count >= 7 ? Math.round(subtotal * 0.1 * 100) / 100 : 0;
+
+  return {
+    success: true,
+    id_casa: property.id_casa,
+    fecha_llegada: arrival,
+    fecha_salida: departure,
+    noches: count,
+    num_personas: guests,
+    disponible: isFree(property, arrival, departure),
+    precio_noche: property.precio_noche,
+    subtotal,
+    descuento,
+    limpieza: property.limpieza,
+    fianza: property.fianza,
+    precio_total: subtotal - descuento + property.limpieza,
+    moneda: 'EUR',
+  };
+}
+
+export function createMockApiApp(apiKey = MOCK_API_KEY) {
+  const app = express();
+  const requests: RecordedRequest[] = [];
+  const failures: Failure[] = [];
+
+  app.use(express.json());
+
+  // Registro de peticiones, fallos forzados y autenticación
+  app.use((req, res, next) => {
+    requests.push({ method: req.method, path: req.path, query: { ...req.query }, body: req.body, headers: { ...req.headers } });
+
+    const failure = failures.find(f => f.remaining > 0 && req.path.startsWith(f.pathPrefix));
+    if (failure) {
+      failure.remaining--;
+    }
+
+    const respond = () => {
+      if (failure?.status) {
+        if (failure.status === 429) {
+          res.setHeader('Retry-After', '1');
+        }
+        return res.status(failure.status).json({ success: false, error: `Error simulado ${failure.status}` });
+      }
+
+      if (req.headers['x-api-key'] !== apiKey) {
+        return res.status(401).json({ success: false, error: 'API key inválida' });
+      }
+      next();
+    };
+
+    if (failure?.delayMs) {
+      setTimeout(respond, failure.delayMs);
+    } else {
+      respond();
+    }
+  });
+
+  // Propiedades que fuerzan un código de error
+  const findProperty = (id: string, res: express.Response): FixtureProperty | undefined => {
+    if (ERROR_PROPERTY_IDS[id]) {
+      res.status(ERROR_PROPERTY_IDS[id]).json({ success: false, error: `Error simulado ${ERROR_PROPERTY_IDS[id]}` });
+      return undefined;
+    }
+    const property = properties.find(p => p.id_casa === id);
+    if (!property) {
+      res.status(404).json({ success: false, error: 'Propiedad no encontrada' });
+    }
+    return property;
+  };
+
+  app.post('/api/disponibilidad', (req, res) => {
+    const { fecha_llegada, fecha_salida, num_personas = 2, municipio, barrio } = req.body;
+    if (!fecha_llegada || !fecha_salida) {
+      return res.status(400).json({ success: false, error: 'Faltan fechas' });
+    }
+
+    const available = properties
+      .filter(p => p.personas_max >= num_personas)
+      .filter(p => !municipio || sameText(municipio, p.municipio))
+      .filter(p => !barrio || sameText(barrio, p.barrio))
+      .filter(p => isFree(p, fecha_llegada, fecha_salida))
+      // La disponibilidad no incluye las amenidades: hay que consultarlas en la ficha
+      .map(p => ({
+        ...summary(p),
+        amenidades: undefined,
+        precio_total: quote(p, fecha_llegada, fecha_salida, num_personas).precio_total,
+      }));
+
+    res.json({
+      success: true,
+      fecha_llegada,
+      fecha_salida,
+      noches: nights(fecha_llegada, fecha_salida),
+      total: available.length,
+      propiedades: available,
+    });
+  });
+
+  app.get('/api/propiedad/:id', (req, res) => {
+    if (req.params.id === MALFORMED_PROPERTY_ID) {
+      return res.json({
+        success: true,
+        propiedad: { id: MALFORMED_PROPERTY_ID, name: 'Casa Renombrada', personas_max: '4', precio_noche: 90 },
+      });
+    }
+
+    const property = findProperty(req.params.id, res);
+    if (!property) {
+      return;
+    }
+
+    const idioma = (['es', 'en', 'de'].includes(req.query.idioma as string) ? req.query.idioma : 'es') as 'es' | 'en' | 'de';
+    const { ocupado, descripcion, ...rest } = property;
+
+    res.json({
+      success: true,
+      propiedad: {
+        ...rest,
+        idioma,
+        descripcion: descripcion[idioma],
+        url: propertyUrl(property),
+        fotos: [`${PUBLIC_URL}/fotos/${property.id_casa}/1.jpg`, `${PUBLIC_URL}/fotos/${property.id_casa}/2.jpg`],
+      },
+    });
+  });
+
+  app.post('/api/calcular-precio', (req, res) => {
+    const { id_casa, fecha_llegada, fecha_salida, num_personas = 2 } = req.body;
+    const property = findProperty(id_casa, res);
+    if (!property) {
+      return;
+    }
+    if (num_personas > property.personas_max) {
+      return res.status(400).json({ success: false, error: 'Capacidad máxima excedida' });
+    }
+
+    res.json(quote(property, fecha_llegada, fecha_salida, num_personas));
+  });
+
+  app.get('/api/calendario/:id', (req, res) => {
+    const property = findProperty(req.params.id, res);
+    if (!property) {
+      return;
+    }
+    const { fecha_desde, fecha_hasta } = req.query as Record<string, string>;
+    if (!fecha_desde || !fecha_hasta) {
+      return res.status(400).json({ success: false, error: 'Faltan fechas' });
+    }
+
+    const dias = [];
+    for (let time = Date.parse(fecha_desde); time < Date.parse(fecha_hasta); time += DAY_MS) {
+      const fecha = new Date(time).toISOString().slice(0, 10);
+      const next = new Date(time + DAY_MS).toISOString().slice(0, 10);
+      const changeover = !property.dias_cambio || property.dias_cambio.includes(new Date(time).getUTCDay());
+      dias.push({
+        fecha,
+        disponible: isFree(property, fecha, next),
+        precio_noche: property.precio_noche,
+        llegada: changeover,
+        salida: changeover,
+      });
+    }
+
+    res.json({ success: true, id_casa: property.id_casa, moneda: 'EUR', estancia_minima: property.estancia_minima ?? 1, dias });
+  });
+
+  let nextBookingId = 1001;
+  app.post('/api/reservas', (req, res) => {
+    const { id_casa, fecha_llegada, fecha_salida, num_personas = 2, nombre, email } = req.body;
+    const property = findProperty(id_casa, res);
+    if (!property) {
+      return;
+    }
+    if (!nombre || !email) {
+      return res.status(400).json({ success: false, error: 'Faltan datos del huésped' });
+    }
+    if (num_personas > property.personas_max || !isFree(property, fecha_llegada, fecha_salida)) {
+      return res.status(409).json({ success: false, error: 'La propiedad no está disponible' });
+    }
+
+    res.status(201).json({ success: true, id_reserva: `R-${nextBookingId++}`, estado: 'pendiente' });
+  });
+
+  app.get('/api/propiedades', (req, res) => {
+    const { municipio, barrio, tipo } = req.query;
+    const dormitorios = Number(req.query.dormitorios) || 0;
+    const personas = Number(req.query.personas_max) || 0;
+    const limit = Number(req.query.limit) || 50;
+    const offset = Number(req.query.offset) || 0;
+
+    const matching = properties
+      .filter(p => !municipio || sameText(municipio, p.municipio))
+      .filter(p => !barrio || sameText(barrio, p.barrio))
+      .filter(p => !tipo || sameText(tipo, p.tipo))
+      .filter(p => p.dormitorios >= dormitorios)
+      .filter(p => p.personas_max >= personas);
+
+    res.json({
+      success: true,
+      total: matching.length,
+      limit,
+      offset,
+      propiedades: matching.slice(offset, offset + limit).map(summary),
+    });
+  });
+
+  app.get('/api/municipios', (req, res) => {
+    res.json({
+      success: true,
+      municipios: municipios.map(nombre => ({
+        nombre,
+        total_propiedades: properties.filter(p => p.municipio === nombre).length,
+      })),
+    });
+  });
+
+  app.get('/api/barrios', (req, res) => {
+    const { municipio } = req.query;
+    res.json({
+      success: true,
+      barrios: barrios
+        .filter(b => !municipio || sameText(municipio, b.municipio))
+        .map(b => ({
+          ...b,
+          total_propiedades: properties.filter(p => p.barrio === b.nombre).length,
+        })),
+    });
+  });
+
+  app.use((req, res) => {
+    res.status(404).json({ success: false, error: `Ruta no encontrada: ${req.path}` });
+  });
+
+  return { app, requests, failures };
+}
+
+export async function startMockApi(port = 0, apiKey = MOCK_API_KEY): Promise<MockApi> {
+  const { app, requests, failures } = createMockApiApp(apiKey);
+
+  const server: Server = await new Promise(resolve => {
+    const listener = app.listen(port, '127.0.0.1', () => resolve(listener));
+  });
+  const { port: actualPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${actualPort}`,
+    requests,
+    failNext(pathPrefix, status, times = 1) {
+      failures.push({ pathPrefix, status, remaining: times });
+    },
+    delayNext(pathPrefix, delayMs, times = 1) {
+      failures.push({ pathPrefix, delayMs, remaining: times });
+    },
+    reset() {
+      requests.length = 0;
+      failures.length = 0;
+    },
+    close() {
+      return new Promise((resolve, reject) => {
+        server.closeAllConnections();
+        server.close(error => (error ? reject(error) : resolve()));
+      });
+    },
+  };
+}
+
+// Ejecución directa: npm run mock-api
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.MOCK_API_PORT) || 4000;
+  startMockApi(port).then(mock => {
+    console.log(`🧪 Mock API de La Palma 24 en ${mock.url}`);
+    console.log(`🔑 API key: ${MOCK_API_KEY}`);
+  });
+}
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { startMockApi, MockApi } from './mock-api/server.js';
+import { startHttpServer, testEnv } from './helpers.js';
+
+// Logs estructurados, id de petición hacia el backend y métricas Prometheus
+
+let mock: MockApi;
+let tools: typeof import('../src/tools.js');
+let logger: typeof import('../src/logger.js');
+let metrics: typeof import('../src/metrics.js');
+
+before(async () => {
+  mock = await startMockApi();
+  Object.assign(process.env, testEnv(mock.url, { LOG_LEVEL: 'info' }));
+  tools = await import('../src/tools.js');
+  logger = await import('../src/logger.js');
+  metrics = await import('../src/metrics.js');
+});
+
+after(async () => {
+  await mock.close();
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+// Líneas JSON escritas en stderr mientras se ejecuta `fn`
+async function captureLogs(fn: () => Promise<unknown>): Promise<any[]> {
+  const lines: string[] = [];
+  const write = process.stderr.write;
+  process.stderr.write = ((chunk: string) => {
+    lines.push(chunk);
+    return true;
+  }) as typeof process.stderr.write;
+  try {
+    await fn().catch(() => undefined);
+  } finally {
+    process.stderr.write = write;
+  }
+  return lines.map(line => JSON.parse(line));
+}
+
+describe('logs y id de petición', () => {
+  it('envía el id de la petición al backend y lo incluye en los logs', async () => {
+    const logs = await captureLogs(() =>
+      logger.runWithContext({ requestId: 'req-test-1', clientId: 'lector' }, () => tools.callTool('listar_municipios'))
+    );
+
+    assert.equal(mock.requests[0].headers['x-request-id'], 'req-test-1');
+    const entry = logs.find(log => log.msg === 'Herramienta ejecutada');
+    assert.equal(entry.level, 'info');
+    assert.equal(entry.component, 'tools');
+    assert.equal(entry.requestId, 'req-test-1');
+    assert.equal(entry.clientId, 'lector');
+    assert.equal(entry.tool, 'listar_municipios');
+    assert.equal(typeof entry.durationMs, 'number');
+  });
+
+  it('registra los fallos con su error', async () => {
+    const logs = await captureLogs(() => tools.callTool('obtener_detalles_propiedad', { id_casa: 'casa-404' }));
+
+    const entry = logs.find(log => log.msg === 'Herramienta fallida');
+    assert.equal(entry.level, 'error');
+    assert.match(entry.error, /404/);
+  });
+});
+
+describe('métricas', () => {
+  it('cuenta llamadas y latencia por herramienta y resultado', async () => {
+    await tools.callTool('listar_municipios');
+    await tools.callTool('obtener_calendario', { id_casa: 'casa-101' }).catch(() => undefined);
+
+    assert.ok(metrics.toolCalls.get({ tool: 'listar_municipios', outcome: 'ok' }) >= 1);
+    assert.equal(metrics.toolCalls.get({ tool: 'obtener_calendario', outcome: 'invalid' }), 1);
+
+    const text = metrics.metrics.render();
+    assert.match(text, /# TYPE lapalma24_tool_duration_seconds histogram/);
+    assert.match(text, /lapalma24_tool_duration_seconds_bucket\{tool="listar_municipios",outcome="ok",le="\+Inf"\} \d+/);
+  });
+
+  it('cuenta las peticiones al backend por código de estado, sin ids en el endpoint', async () => {
+    const failed = metrics.toolCalls.get({ tool: 'obtener_detalles_propiedad', outcome: 'error' });
+    await tools.callTool('obtener_detalles_propiedad', { id_casa: 'casa-500' }).catch(() => undefined);
+
+    // Intento inicial y dos reintentos
+    assert.equal(metrics.backendRequests.get({ method: 'GET', endpoint: '/api/propiedad/:id', status: '500' }), 3);
+    assert.equal(metrics.toolCalls.get({ tool: 'obtener_detalles_propiedad', outcome: 'error' }), failed + 1);
+    assert.match(metrics.metrics.render(), /lapalma24_backend_circuit_state\{state="closed"\} 1/);
+  });
+});
+
+describe('endpoint /metrics', () => {
+  let server: { baseUrl: string; stop(): Promise<void> };
+
+  before(async () => {
+    server = await startHttpServer('http', testEnv(mock.url, { METRICS_TOKEN: 'metrics-token' }));
+  });
+
+  after(async () => {
+    await server?.stop();
+  });
+
+  it('propaga X-Request-Id hasta el backend y lo devuelve', async () => {
+    const response = await fetch(`${server.baseUrl}/tools/listar_municipios`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Request-Id': 'abc-123' },
+      body: '{}',
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('x-request-id'), 'abc-123');
+    assert.equal(mock.requests.at(-1)?.headers['x-request-id'], 'abc-123');
+  });
+
+  it('exporta las métricas en formato Prometheus con el token', async () => {
+    const denied = await fetch(`${server.baseUrl}/metrics`);
+    assert.equal(denied.status, 401);
+
+    const response = await fetch(`${server.baseUrl}/metrics`, { headers: { Authorization: 'Bearer metrics-token' } });
+    const text = await response.text();
+
+    assert.match(response.headers.get('content-type') ?? '', /^text\/plain;.*version=0\.0\.4/);
+    assert.match(text, /lapalma24_tool_calls_total\{tool="listar_municipios",outcome="ok"\} 1/);
+    assert.match(text, /lapalma24_backend_requests_total\{method="GET",endpoint="\/api\/municipios",status="200"\} 1/);
+    assert.match(text, /lapalma24_cache_lookups_total\{result="bypassed"\} 1/);
+    assert.match(text, /lapalma24_http_sessions 0/);
+  });
+});
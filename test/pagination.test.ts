@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { MockApi, startMockApi } from './mock-api/server.js';
+import { testEnv } from './helpers.js';
+
+// Paginación con cursor y recorrido de varias páginas en listar_propiedades
+
+let mock: MockApi;
+let tools: typeof import('../src/tools.js');
+
+const ids = (result: any) => result.propiedades.map((p: any) => p.id_casa);
+const backendCalls = () => mock.requests.filter(r => r.path === '/api/propiedades');
+
+before(async () => {
+  mock = await startMockApi();
+  // Páginas de 2 propiedades y como mucho 2 páginas por llamada
+  Object.assign(process.env, testEnv(mock.url, { LIST_PAGE_SIZE: '2', LIST_MAX_PAGES: '2' }));
+  tools = await import('../src/tools.js');
+});
+
+after(async () => {
+  await mock.close();
+});
+
+afterEach(() => {
+  mock.reset();
+});
+
+describe('listar_propiedades con cursor', () => {
+  it('encadena las páginas con next_cursor hasta el final', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const result: any = await tools.callTool('listar_propiedades', { limit: 2, ...(cursor ? { cursor } : {}) });
+      assert.equal(result.total, 5);
+      seen.push(...ids(result));
+      cursor = result.next_cursor ?? undefined;
+      pages++;
+    } while (cursor);
+
+    assert.equal(pages, 3);
+    assert.deepEqual(seen, ['casa-101', 'casa-102', 'casa-103', 'casa-104', 'casa-105']);
+    assert.deepEqual(backendCalls().map(r => r.query.offset), [undefined, '2', '4']);
+  });
+
+  it('rechaza un cursor de otra búsqueda o junto con offset', async () => {
+    const first: any = await tools.callTool('listar_propiedades', { limit: 2 });
+
+    await assert.rejects(
+      tools.callTool('listar_propiedades', { limit: 2, tipo: 'casa', cursor: first.next_cursor }),
+      (error: any) => error.issues[0].field === 'cursor'
+    );
+    await assert.rejects(
+      tools.callTool('listar_propiedades', { cursor: first.next_cursor, offset: 2 }),
+      (error: any) => error.issues[0].message.includes('no ambos')
+    );
+    await assert.rejects(
+      tools.callTool('listar_propiedades', { cursor: 'basura' }),
+      (error: any) => error.issues[0].field === 'cursor'
+    );
+    assert.equal(backendCalls().length, 1);
+  });
+
+  it('pagina los resultados ordenados en el servidor', async () => {
+    const first: any = await tools.callTool('listar_propiedades', { limit: 2, ordenar_por: 'precio' });
+    assert.deepEqual(ids(first), ['casa-102', 'casa-101']);
+
+    const second: any = await tools.callTool('listar_propiedades', { limit: 2, ordenar_por: 'precio', cursor: first.next_cursor });
+    assert.deepEqual(ids(second), ['casa-104', 'casa-103']);
+    assert.equal(second.offset, 2);
+    assert.equal(second.next_cursor, null);
+  });
+});
+
+describe('listar_propiedades con max_resultados', () => {
+  it('recorre varias páginas del backend sin pasar del límite', async () => {
+    const result: any = await tools.callTool('listar_propiedades', { max_resultados: 5 });
+
+    // Dos páginas de 2: la quinta propiedad queda para el siguiente cursor
+    assert.deepEqual(ids(result), ['casa-101', 'casa-102', 'casa-103', 'casa-104']);
+    assert.equal(result.paginas_consultadas, 2);
+    assert.deepEqual(backendCalls().map(r => [r.query.limit, r.query.offset]), [['2', '0'], ['2', '2']]);
+
+    const rest: any = await tools.callTool('listar_propiedades', { max_resultados: 5, cursor: result.next_cursor });
+    assert.deepEqual(ids(rest), ['casa-105']);
+    assert.equal(rest.next_cursor, null);
+  });
+
+  it('marca como incompleto un listado ordenado que no se pudo recorrer entero', async () => {
+    const result: any = await tools.callTool('listar_propiedades', { ordenar_por: 'capacidad' });
+
+    // Con dos páginas de 2 la quinta propiedad queda fuera
+    assert.equal(result.incompleto, true);
+    assert.equal(result.total, 4);
+    assert.equal(result.paginas_consultadas, 2);
+    assert.ok(!ids(result).includes('casa-105'));
+  });
+});
+
+describe('peso de listar_propiedades en el límite de peticiones', () => {
+  it('cuesta 2 por cada página del backend que puede leer', async () => {
+    const { listingWeight } = await import('../src/search.js');
+
+    assert.equal(listingWeight({}), 2);
+    assert.equal(listingWeight({ max_resultados: 2 }), 2);
+    assert.equal(listingWeight({ max_resultados: 3 }), 4);
+    // Filtros locales, orden y proximidad recorren el listado hasta LIST_MAX_PAGES
+    assert.equal(listingWeight({ ordenar_por: 'capacidad' }), 4);
+    assert.equal(listingWeight({ cerca_de: 'Los Llanos de Aridane' }), 4);
+  });
+});
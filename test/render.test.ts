@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { renderToolResult } from '../src/render.js';
+
+// Presentación de resultados en Markdown y compacto
+
+const quote = {
+  success: true,
+  id_casa: 'casa-102',
+  fecha_llegada: '2030-03-01',
+  fecha_salida: '2030-03-08',
+  noches: 7,
+  disponible: true,
+  precio_noche: 70,
+  subtotal: 490,
+  descuento: 49,
+  limpieza: 30,
+  precio_total: 471,
+  moneda: 'EUR',
+};
+
+describe('renderToolResult', () => {
+  it('mantiene JSON por defecto', () => {
+    assert.deepEqual(JSON.parse(renderToolResult('calcular_precio_estancia', quote)), quote);
+  });
+
+  // Intl separa importe y símbolo con un espacio duro: \s lo cubre
+  it('desglosa el precio en Markdown con el formato de moneda del idioma', () => {
+    const es = renderToolResult('calcular_precio_estancia', quote, { formato: 'markdown' });
+    assert.match(es, /7 noches × 70\s€ = 490\s€/);
+    assert.match(es, /Descuento: −49\s€/);
+    assert.match(es, /\*\*Total: 471\s€\*\*/);
+
+    const en = renderToolResult('calcular_precio_estancia', quote, { formato: 'markdown', idioma: 'en' });
+    assert.match(en, /7 nights × €70 = €490/);
+  });
+
+  it('usa el idioma de la sesión si la llamada no indica idioma', () => {
+    assert.match(renderToolResult('calcular_precio_estancia', quote, { formato: 'markdown' }, 'en'), /7 nights × €70/);
+    assert.match(renderToolResult('calcular_precio_estancia', quote, { formato: 'markdown', idioma: 'de' }, 'en'), /7 Nächte/);
+  });
+
+  it('muestra el importe con el código si la moneda no es un código ISO válido', () => {
+    const text = renderToolResult('calcular_precio_estancia', { ...quote, moneda: 'EURO' }, { formato: 'compact', idioma: 'en' });
+    assert.match(text, /Total 471 EURO/);
+  });
+
+  it('resume el precio en una línea en formato compacto', () => {
+    const text = renderToolResult('calcular_precio_estancia', quote, { formato: 'compact', idioma: 'de' });
+    assert.equal(text.split('\n').length, 1);
+    assert.match(text, /7 Nächte · Gesamt 471\s€/);
+    assert.match(text, /Rabatt −49\s€/);
+  });
+
+  it('escapa las barras verticales de las celdas', () => {
+    const text = renderToolResult('listar_propiedades', {
+      success: true,
+      total: 1,
+      propiedades: [{ id_casa: 'x', nombre: 'Casa A|B', municipio: 'Tazacorte', personas_max: 2, dormitorios: 1, precio_noche: 50 }],
+    }, { formato: 'markdown' });
+    assert.match(text, /Casa A\\\|B/);
+    assert.match(text, /Propiedades 1–1 de 1/);
+  });
+
+  it('muestra la distancia en las búsquedas por proximidad', () => {
+    const text = renderToolResult('listar_propiedades', {
+      success: true,
+      total: 1,
+      propiedades: [{ id_casa: 'x', nombre: 'Casa', municipio: 'Breña Baja', barrio: 'Los Cancajos', personas_max: 2, dormitorios: 1, precio_noche: 50, distancia_km: 2.4 }],
+    }, { formato: 'compact', idioma: 'de' });
+    assert.match(text, /Los Cancajos, Breña Baja \(2,4 km\)/);
+  });
+});
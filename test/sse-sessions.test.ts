@@ -0,0 +1,241 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { startMockApi, MockApi } from './mock-api/server.js';
+import { startHttpServer, testEnv } from './helpers.js';
+
+// Sesiones del transporte SSE (dist/index.js sse): ids aleatorios ligados a la conexión, límites,
+// caducidad, reanudación con Last-Event-ID y apagado ordenado
+
+let mock: MockApi;
+let server: { baseUrl: string; stop(): Promise<void> };
+
+before(async () => {
+  mock = await startMockApi();
+  // Con TRUST_PROXY cada prueba simula su propia IP con X-Forwarded-For
+  server = await startHttpServer('sse', testEnv(mock.url, { TRUST_PROXY: 'true', SSE_MAX_SESSIONS_PER_IP: '2' }));
+});
+
+after(async () => {
+  await server?.stop();
+  await mock?.close();
+});
+
+interface SseEvent {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+interface SseStream {
+  response: Response;
+  // Siguiente evento con ese nombre (undefined si el stream termina antes)
+  next(event: string): Promise<SseEvent | undefined>;
+  close(): void;
+}
+
+async function openStream(baseUrl: string, headers: Record<string, string> = {}, query = ''): Promise<SseStream> {
+  const controller = new AbortController();
+  const response = await fetch(`${baseUrl}/sse${query}`, {
+    headers: { Accept: 'text/event-stream', ...headers },
+    signal: controller.signal,
+  });
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  const next = async (name: string): Promise<SseEvent | undefined> => {
+    for (;;) {
+      const end = buffer.indexOf('\n\n');
+      if (end >= 0) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const event: SseEvent = { event: 'message', data: '' };
+        for (const line of block.split('\n')) {
+          const [field, ...rest] = line.split(': ');
+          if (field === 'id' || field === 'event' || field === 'data') {
+            event[field] = rest.join(': ');
+          }
+        }
+        if (event.event === name) {
+          return event;
+        }
+        continue;
+      }
+      const { value, done } = await reader.read().catch(() => ({ value: undefined, done: true }));
+      if (done) {
+        return undefined;
+      }
+      buffer += value;
+    }
+  };
+
+  return { response, next, close: () => controller.abort() };
+}
+
+function post(sessionId: string, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${server.baseUrl}/message?sessionId=${sessionId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+async function sessionOf(stream: SseStream): Promise<string> {
+  const endpoint = await stream.next('endpoint');
+  return new URL(endpoint!.data, server.baseUrl).searchParams.get('sessionId')!;
+}
+
+describe('sesiones SSE', () => {
+  it('genera ids aleatorios e ignora el sessionId de la query', async () => {
+    const stream = await openStream(server.baseUrl, { 'X-Forwarded-For': '10.0.0.1' }, '?sessionId=fijo');
+    try {
+      const sessionId = await sessionOf(stream);
+      assert.match(sessionId, /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+      assert.equal(stream.response.headers.get('x-session-id'), sessionId);
+      const connected = JSON.parse((await stream.next('connected'))!.data);
+      assert.deepEqual([connected.server, connected.sessionId], ['lapalma24-propiedades', sessionId]);
+    } finally {
+      stream.close();
+    }
+  });
+
+  it('limita las sesiones simultáneas por IP', async () => {
+    const headers = { 'X-Forwarded-For': '10.0.0.2' };
+    const streams = [await openStream(server.baseUrl, headers), await openStream(server.baseUrl, headers)];
+    try {
+      const rejected = await fetch(`${server.baseUrl}/sse`, { headers });
+      assert.equal(rejected.status, 429);
+
+      const other = await openStream(server.baseUrl, { 'X-Forwarded-For': '10.0.0.3' });
+      assert.equal(other.response.status, 200);
+      other.close();
+    } finally {
+      streams.forEach(stream => stream.close());
+    }
+  });
+
+  it('solo acepta mensajes desde la IP que abrió la sesión', async () => {
+    const headers = { 'X-Forwarded-For': '10.0.0.4' };
+    const stream = await openStream(server.baseUrl, headers);
+    try {
+      const sessionId = await sessionOf(stream);
+
+      const foreign = await post(sessionId, { jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'X-Forwarded-For': '10.0.0.5' });
+      assert.equal(foreign.status, 404);
+
+      const own = await post(sessionId, { jsonrpc: '2.0', id: 2, method: 'tools/list' }, headers);
+      assert.equal(own.status, 202);
+      const message = await stream.next('message');
+      assert.equal(message?.id, `${sessionId}_1`);
+      assert.equal(JSON.parse(message!.data).id, 2);
+    } finally {
+      stream.close();
+    }
+  });
+
+  it('procesa los mensajes con el servidor MCP como el resto de transportes', async () => {
+    const headers = { 'X-Forwarded-For': '10.0.0.9' };
+    const stream = await openStream(server.baseUrl, headers);
+    try {
+      const sessionId = await sessionOf(stream);
+      const reply = async (body: unknown) => {
+        assert.equal((await post(sessionId, body, headers)).status, 202);
+        return JSON.parse((await stream.next('message'))!.data);
+      };
+
+      // Versión de protocolo negociada con el cliente, no fija
+      const initialized = await reply({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: LATEST_PROTOCOL_VERSION, capabilities: {}, clientInfo: { name: 'prueba', version: '1.0.0' } },
+      });
+      assert.equal(initialized.result.protocolVersion, LATEST_PROTOCOL_VERSION);
+
+      // Sin params: error JSON-RPC del SDK en el stream, no un 500
+      const missing = await reply({ jsonrpc: '2.0', id: 2, method: 'tools/call' });
+      assert.equal(missing.id, 2);
+      assert.equal(typeof missing.error.code, 'number');
+
+      // Los fallos de la herramienta son un resultado con isError
+      const failed = await reply({ jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'calcular_precio_estancia', arguments: {} } });
+      assert.equal(failed.result.isError, true);
+      assert.ok(Array.isArray(JSON.parse(failed.result.content[0].text).errors));
+
+      const invalid = await post(sessionId, { id: 4, method: 'tools/list' }, headers);
+      assert.equal(invalid.status, 400);
+    } finally {
+      stream.close();
+    }
+  });
+
+  it('reanuda la sesión con Last-Event-ID y reenvía los mensajes perdidos', async () => {
+    const headers = { 'X-Forwarded-For': '10.0.0.6' };
+    const stream = await openStream(server.baseUrl, headers);
+    const sessionId = await sessionOf(stream);
+    await post(sessionId, { jsonrpc: '2.0', id: 1, method: 'tools/list' }, headers);
+    const received = await stream.next('message');
+    stream.close();
+    await new Promise(r => setTimeout(r, 100));
+
+    // Sin stream abierto el mensaje queda guardado para la reconexión
+    const pending = await post(sessionId, { jsonrpc: '2.0', id: 2, method: 'prompts/list' }, headers);
+    assert.equal(pending.status, 202);
+
+    const foreign = await openStream(server.baseUrl, { 'X-Forwarded-For': '10.0.0.7', 'Last-Event-ID': received!.id! });
+    assert.notEqual(await sessionOf(foreign), sessionId);
+    foreign.close();
+
+    const resumed = await openStream(server.baseUrl, { ...headers, 'Last-Event-ID': received!.id! });
+    try {
+      assert.equal(await sessionOf(resumed), sessionId);
+      const replayed = await resumed.next('message');
+      assert.equal(replayed?.id, `${sessionId}_2`);
+      assert.ok(Array.isArray(JSON.parse(replayed!.data).result.prompts));
+    } finally {
+      resumed.close();
+    }
+  });
+});
+
+describe('caducidad de sesiones SSE', () => {
+  let shortLived: { baseUrl: string; stop(): Promise<void> };
+
+  before(async () => {
+    shortLived = await startHttpServer('sse', testEnv(mock.url, { SSE_SESSION_IDLE_SECONDS: '0.3' }));
+  });
+
+  after(async () => {
+    await shortLived?.stop();
+  });
+
+  it('cierra las sesiones inactivas avisando al cliente', async () => {
+    const stream = await openStream(shortLived.baseUrl);
+    const sessionId = new URL((await stream.next('endpoint'))!.data, shortLived.baseUrl).searchParams.get('sessionId');
+
+    const closed = await stream.next('close');
+    assert.deepEqual(JSON.parse(closed!.data), { reason: 'idle' });
+    assert.equal(await stream.next('message'), undefined);
+
+    const response = await fetch(`${shortLived.baseUrl}/message?sessionId=${sessionId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    assert.equal(response.status, 404);
+  });
+});
+
+describe('apagado ordenado', () => {
+  it('avisa a los streams abiertos y los cierra al recibir SIGTERM', async () => {
+    const stream = await openStream(server.baseUrl, { 'X-Forwarded-For': '10.0.0.8' });
+    await stream.next('connected');
+
+    const stopped = server.stop();
+    const shutdown = await stream.next('shutdown');
+    assert.equal(JSON.parse(shutdown!.data).reason, 'server_shutdown');
+    const closed = await stream.next('close');
+    assert.deepEqual(JSON.parse(closed!.data), { reason: 'server_shutdown' });
+    await stopped;
+  });
+});
@@ -0,0 +1,178 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
+import { MemoryEventStore } from '../src/event-store.js';
+import { startMockApi, MockApi } from './mock-api/server.js';
+import { startHttpServer, testEnv } from './helpers.js';
+
+// Transporte Streamable HTTP (dist/index-http.js) a nivel de protocolo: sesiones, lotes y Origin
+
+let mock: MockApi;
+let server: { baseUrl: string; stop(): Promise<void> };
+
+before(async () => {
+  mock = await startMockApi();
+  server = await startHttpServer('http', testEnv(mock.url, { ALLOWED_ORIGINS: 'https://claude.ai' }));
+});
+
+after(async () => {
+  await server?.stop();
+  await mock?.close();
+});
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: { name: 'lapalma24-e2e', version: '1.0.0' },
+  },
+};
+
+function post(body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${server.baseUrl}/`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+// Mensajes JSON-RPC de una respuesta SSE (o JSON); los eventos sin datos son de cebado para reanudar
+async function messages(response: Response): Promise<any[]> {
+  const text = await response.text();
+  if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+    const body = JSON.parse(text);
+    return Array.isArray(body) ? body : [body];
+  }
+  return text
+    .split('\n')
+    .filter(line => line.startsWith('data:') && line.slice('data:'.length).trim())
+    .map(line => JSON.parse(line.slice('data:'.length)));
+}
+
+async function openSession(): Promise<string> {
+  const response = await post(initialize);
+  assert.equal(response.status, 200);
+  const sessionId = response.headers.get('mcp-session-id');
+  assert.ok(sessionId, 'initialize debe devolver Mcp-Session-Id');
+  await response.text();
+
+  const sessionHeaders = { 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': LATEST_PROTOCOL_VERSION };
+  const initialized = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionHeaders);
+  assert.equal(initialized.status, 202);
+  return sessionId;
+}
+
+describe('transporte Streamable HTTP', () => {
+  it('emite un id de sesión y negocia la versión del protocolo', async () => {
+    const response = await post(initialize);
+    assert.match(response.headers.get('mcp-session-id') ?? '', /^[0-9a-f-]{36}$/);
+    const [message] = await messages(response);
+    assert.equal(message.result.protocolVersion, LATEST_PROTOCOL_VERSION);
+    assert.equal(message.result.serverInfo.name, 'lapalma24-propiedades');
+  });
+
+  it('exige Mcp-Session-Id fuera de initialize', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+    assert.equal(response.status, 400);
+  });
+
+  it('responde 404 a sesiones desconocidas', async () => {
+    const response = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'Mcp-Session-Id': '00000000-0000-0000-0000-000000000000' }
+    );
+    assert.equal(response.status, 404);
+  });
+
+  it('procesa lotes de peticiones en una sesión', async () => {
+    const sessionId = await openSession();
+    const response = await post(
+      [
+        { jsonrpc: '2.0', id: 10, method: 'tools/list' },
+        { jsonrpc: '2.0', id: 11, method: 'prompts/list' },
+      ],
+      { 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': LATEST_PROTOCOL_VERSION }
+    );
+    assert.equal(response.status, 200);
+    const byId = new Map((await messages(response)).map(m => [m.id, m]));
+    assert.ok(byId.get(10).result.tools.length > 0);
+    assert.ok(byId.get(11).result.prompts.length > 0);
+  });
+
+  it('rechaza versiones de protocolo no soportadas', async () => {
+    const sessionId = await openSession();
+    const response = await post(
+      { jsonrpc: '2.0', id: 3, method: 'tools/list' },
+      { 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': '1999-01-01' }
+    );
+    assert.equal(response.status, 400);
+  });
+
+  it('termina la sesión con DELETE', async () => {
+    const sessionId = await openSession();
+    const deleted = await fetch(`${server.baseUrl}/`, {
+      method: 'DELETE',
+      headers: { 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': LATEST_PROTOCOL_VERSION },
+    });
+    assert.equal(deleted.status, 200);
+
+    const response = await post(
+      { jsonrpc: '2.0', id: 4, method: 'tools/list' },
+      { 'Mcp-Session-Id': sessionId }
+    );
+    assert.equal(response.status, 404);
+  });
+
+  it('valida la cabecera Origin', async () => {
+    const rejected = await post(initialize, { Origin: 'https://evil.example' });
+    assert.equal(rejected.status, 403);
+
+    const accepted = await post(initialize, { Origin: 'https://claude.ai' });
+    assert.equal(accepted.status, 200);
+    assert.equal(accepted.headers.get('access-control-allow-origin'), 'https://claude.ai');
+    await accepted.text();
+  });
+
+  it('mantiene el GET informativo sin Accept: text/event-stream', async () => {
+    const response = await fetch(`${server.baseUrl}/`);
+    const body: any = await response.json();
+    assert.equal(body.transport, 'streamable-http');
+    assert.equal(body.protocolVersion, LATEST_PROTOCOL_VERSION);
+  });
+});
+
+describe('almacén de eventos para reanudar streams', () => {
+  const message = (id: number) => ({ jsonrpc: '2.0' as const, id, result: {} });
+
+  it('reenvía solo los eventos posteriores del mismo stream', async () => {
+    const store = new MemoryEventStore(10);
+    const first = await store.storeEvent('a', message(1));
+    await store.storeEvent('b', message(2));
+    await store.storeEvent('a', message(3));
+
+    const replayed: unknown[] = [];
+    const streamId = await store.replayEventsAfter(first, {
+      send: async (_eventId, msg) => {
+        replayed.push(msg);
+      },
+    });
+    assert.equal(streamId, 'a');
+    assert.deepEqual(replayed, [message(3)]);
+  });
+
+  it('descarta los eventos más antiguos al superar el máximo', async () => {
+    const store = new MemoryEventStore(2);
+    const first = await store.storeEvent('a', message(1));
+    await store.storeEvent('a', message(2));
+    await store.storeEvent('a', message(3));
+    assert.equal(store.size, 2);
+    assert.equal(await store.getStreamIdForEventId(first), undefined);
+  });
+});
@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { daysFromToday } from './mock-api/fixtures.js';
+import { testEnv } from './helpers.js';
+
+// Validación de argumentos con el inputSchema y las reglas de cada herramienta, sin llamar al backend
+
+let tools: typeof import('../src/tools.js');
+let validation: typeof import('../src/validation.js');
+
+before(async () => {
+  // Ninguna prueba llega al backend: la validación falla o se comprueba antes
+  Object.assign(process.env, testEnv('http://127.0.0.1:9'));
+  tools = await import('../src/tools.js');
+  validation = await import('../src/validation.js');
+});
+
+// Problemas de validación de una herramienta como { campo: motivo }
+function issuesFor(name: string, args: Record<string, unknown>, language: 'es' | 'en' = 'es'): Record<string, string> {
+  const definition = tools.findTool(name);
+  assert.ok(definition, `herramienta ${name}`);
+  try {
+    validation.validateArgs(name, definition.inputSchema, args, definition.rules, language);
+    return {};
+  } catch (error) {
+    assert.ok(error instanceof validation.ToolValidationError);
+    return Object.fromEntries(error.issues.map(issue => [issue.field, issue.message]));
+  }
+}
+
+const stay = (arrival: number, departure: number) => ({
+  fecha_llegada: daysFromToday(arrival),
+  fecha_salida: daysFromToday(departure),
+});
+
+describe('validación de argumentos', () => {
+  it('acepta argumentos válidos', () => {
+    assert.deepEqual(issuesFor('buscar_disponibilidad', { ...stay(30, 37), num_personas: 4, ordenar_por: 'precio' }), {});
+    assert.deepEqual(issuesFor('listar_propiedades', { limit: 100, offset: 0 }), {});
+  });
+
+  it('aplica los límites numéricos del esquema', () => {
+    assert.deepEqual(issuesFor('listar_propiedades', { limit: 500 }), { limit: 'debe ser menor o igual que 100' });
+    assert.deepEqual(issuesFor('listar_propiedades', { limit: 0 }), { limit: 'debe ser mayor o igual que 1' });
+    assert.deepEqual(issuesFor('listar_propiedades', { offset: -1 }), { offset: 'debe ser mayor o igual que 0' });
+    assert.deepEqual(issuesFor('buscar_disponibilidad', { ...stay(30, 37), num_personas: 0 }), {
+      num_personas: 'debe ser mayor o igual que 1',
+    });
+  });
+
+  it('exige los campos obligatorios', () => {
+    assert.deepEqual(issuesFor('calcular_precio_estancia', {}), {
+      id_casa: 'es obligatorio',
+      fecha_llegada: 'es obligatorio',
+      fecha_salida: 'es obligatorio',
+    });
+    assert.deepEqual(Object.keys(issuesFor('solicitar_reserva', { id_casa: 'casa-101', ...stay(30, 37) })), ['nombre', 'email']);
+  });
+
+  it('trata null como un campo omitido', () => {
+    assert.deepEqual(issuesFor('buscar_disponibilidad', { ...stay(30, 37), num_personas: null }), {});
+    assert.deepEqual(issuesFor('obtener_detalles_propiedad', { id_casa: null }), { id_casa: 'es obligatorio' });
+  });
+
+  it('rechaza valores fuera de los enumerados', () => {
+    assert.deepEqual(issuesFor('buscar_disponibilidad', { ...stay(30, 37), ordenar_por: 'barato' }), {
+      ordenar_por: 'debe ser uno de: precio, precio_desc, capacidad, distancia',
+    });
+    assert.deepEqual(issuesFor('listar_propiedades', { amenidades: ['wifi', 'jacuzzi'] }), {
+      'amenidades[1]': 'debe ser uno de: piscina, wifi, mascotas, vista_mar, aire_acondicionado, parking, accesible',
+    });
+  });
+
+  it('rechaza parámetros que no están en el esquema', () => {
+    assert.deepEqual(issuesFor('buscar_disponibilidad', { ...stay(30, 37), precio: 100 }), { precio: 'parámetro no admitido' });
+    assert.deepEqual(issuesFor('listar_municipios', { idioma: 'en' }), { idioma: 'parámetro no admitido' });
+  });
+
+  it('comprueba tipos, patrones y fechas del calendario', () => {
+    assert.deepEqual(issuesFor('buscar_disponibilidad', { ...stay(30, 37), num_personas: '2' }), {
+      num_personas: 'debe ser de tipo integer',
+    });
+    assert.deepEqual(issuesFor('obtener_detalles_propiedad', { id_casa: '../admin' }), {
+      id_casa: 'no cumple el formato ^[A-Za-z0-9_-]{1,64}$',
+    });
+    assert.deepEqual(issuesFor('calcular_precio_estancia', { id_casa: 'casa-101', fecha_llegada: '2030-02-30', fecha_salida: '2030-03-02' }), {
+      fecha_llegada: 'no es una fecha válida: 2030-02-30',
+    });
+  });
+
+  it('rechaza fechas pasadas', () => {
+    assert.deepEqual(issuesFor('buscar_disponibilidad', stay(-3, 4)), { fecha_llegada: 'no puede ser una fecha pasada' });
+    assert.deepEqual(issuesFor('buscar_fechas_flexibles', { fecha_desde: daysFromToday(-1), fecha_hasta: daysFromToday(20) }), {
+      fecha_desde: 'no puede ser una fecha pasada',
+    });
+  });
+
+  it('exige la salida después de la llegada', () => {
+    assert.deepEqual(issuesFor('calcular_precio_estancia', { id_casa: 'casa-101', ...stay(30, 30) }), {
+      fecha_salida: 'debe ser posterior a fecha_llegada',
+    });
+  });
+
+  it('limita la duración de la estancia', () => {
+    assert.deepEqual(issuesFor('buscar_disponibilidad', stay(30, 120)), {});
+    assert.deepEqual(issuesFor('buscar_disponibilidad', stay(30, 121)), {
+      fecha_salida: 'la estancia no puede superar 90 noches (91 solicitadas)',
+    });
+    assert.deepEqual(issuesFor('buscar_fechas_flexibles', { fecha_desde: daysFromToday(10), fecha_hasta: daysFromToday(40), noches: 91 }), {
+      noches: 'la estancia no puede superar 90 noches',
+      fecha_hasta: 'la ventana es más corta que la estancia mínima (91 noches)',
+    });
+  });
+
+  it('escribe los motivos en el idioma de la petición', () => {
+    assert.deepEqual(issuesFor('listar_propiedades', { limit: 500 }, 'en'), { limit: 'must be less than or equal to 100' });
+    assert.deepEqual(issuesFor('buscar_disponibilidad', stay(-3, 4), 'en'), { fecha_llegada: 'cannot be a past date' });
+  });
+});